@@ -1,50 +1,123 @@
 import React from "react";
 import { useFluidRuntime } from "./react/contexts/FluidContext.js";
 import { useSharedTreeState } from "./react/hooks/useSharedTreeState.js";
-import { addItem, toggleItem, updateTitle } from "./infra/sharedTreeClient.js";
+import { useTrashPurge } from "./react/hooks/useTrashPurge.js";
+import { useUndoRedo } from "./react/hooks/useUndoRedo.js";
+import { useItemQuery } from "./react/hooks/useItemQuery.js";
+import {
+	addItem,
+	filterItems,
+	flattenItems,
+	getSnapshot,
+	getStatusCounts,
+	getTimeTotals,
+	getVoterIds,
+	renameList,
+	sortByVotes,
+	visibleItems,
+} from "./infra/sharedTreeClient.js";
+import { hasCriteria, ItemQuery } from "./infra/itemQuery.js";
 import { applySemanticSuggestion } from "./infra/llmClient.js";
-import { usePresenceUsers } from "./infra/presenceClient.js";
+import { usePresenceUsers, useTimers } from "./infra/presenceClient.js";
+import { ActivityPanel } from "./react/components/ActivityPanel.js";
+import { BoardView } from "./react/components/BoardView.js";
+import { BulkActionsMenu } from "./react/components/BulkActionsMenu.js";
+import { CommentsPanel } from "./react/components/CommentsPanel.js";
+import { DependencyLinks } from "./react/components/DependencyLinks.js";
+import { ImportExportPanel } from "./react/components/ImportExportPanel.js";
+import { ItemRow } from "./react/components/ItemRow.js";
+import { ListSidebar } from "./react/components/ListSidebar.js";
+import { TagFilter, TagFilterBar } from "./react/components/TagFilterBar.js";
+import { TagManager } from "./react/components/TagManager.js";
+import { TemplatesPanel } from "./react/components/TemplatesPanel.js";
+import { TrashPanel } from "./react/components/TrashPanel.js";
+import { UnblockToasts } from "./react/components/UnblockToasts.js";
+import { RemoteChangeAnnouncer } from "./react/components/RemoteChangeAnnouncer.js";
+import { ConnectionStatus } from "./react/components/ConnectionStatus.js";
+import { WorkflowEditor } from "./react/components/WorkflowEditor.js";
 import type { AppModel, Item } from "./schema/starterSchema.js";
+import { formatMinutes } from "./utils/durations.js";
 
 export function StarterApp() {
 	const { tree, llm, presence, me } = useFluidRuntime();
 	const root = tree.root as AppModel;
-	const snapshot = useSharedTreeState(
+	const lists = useSharedTreeState(
 		root,
-		React.useCallback(
-			(target: AppModel) => ({
-				title: target.title,
-				items: [...target.items],
-			}),
-			[]
-		),
+		React.useCallback((target: AppModel) => [...(target.lists ?? [])], []),
 		"treeChanged"
 	);
 
+	const [activeListId, setActiveListId] = React.useState<string | undefined>(undefined);
 	const [newItem, setNewItem] = React.useState("");
 	const [busy, setBusy] = React.useState(false);
+	const [view, setView] = React.useState<"list" | "board">("list");
+	const [commentItemId, setCommentItemId] = React.useState<string | null>(null);
+	const [activityOpen, setActivityOpen] = React.useState(false);
+	const [sortByVoteCount, setSortByVoteCount] = React.useState(false);
+	const [tagFilter, setTagFilter] = React.useState<TagFilter>({ tagIds: [], match: "any" });
+	const [search, setSearch] = React.useState("");
+
+	const tags = [...(root.tags ?? [])];
+	// Ignore selected tags that a collaborator has since deleted or merged away.
+	const filterTagIds = tagFilter.tagIds.filter((id) => tags.some((tag) => tag.id === id));
+
+	// Fall back to the first list when nothing is selected yet or the selected list was deleted.
+	const activeList = lists.find((list) => list.id === activeListId) ?? lists[0];
+	const query: ItemQuery = { text: search, tagIds: filterTagIds, tagMatch: tagFilter.match };
+	const matches = useItemQuery(activeList, query);
+	const matchedIds = new Set(matches.map((match) => match.item.id));
+	const highlights = new Map(matches.map((match) => [match.item.id, match.ranges]));
+	const itemFilter = hasCriteria(query) ? (item: Item) => matchedIds.has(item.id) : undefined;
+	const snapshot = {
+		title: activeList?.title ?? "",
+		items: activeList ? visibleItems(activeList.items) : [],
+	};
+	const filteredItems =
+		activeList && itemFilter ? filterItems(activeList.items, itemFilter) : snapshot.items;
+	// Sorting only changes what this client sees; the shared order is untouched, so moving items
+	// up and down is disabled while sorted.
+	const shownItems = sortByVoteCount ? sortByVotes(filteredItems) : filteredItems;
+
+	const commentItem = activeList
+		? flattenItems(activeList.items).find((item) => item.id === commentItemId)
+		: undefined;
 
 	const users = usePresenceUsers(presence.users);
-	const completed = snapshot.items.filter((i: Item) => i.done).length;
-	const total = snapshot.items.length;
+	const voterIds = activeList ? getVoterIds(activeList) : new Set<string>();
+	const notVoted = [presence.users.getMyself(), ...users].filter(
+		(user) => !voterIds.has(user.value.id)
+	);
+	const { canUndo, canRedo, undo, redo } = useUndoRedo();
+	useTrashPurge();
+	const workflow = [...(root.workflow ?? [])];
+	const statusCounts = activeList ? getStatusCounts(activeList, workflow) : [];
+	const completed = statusCounts
+		.filter(({ status }) => status.countsAsComplete)
+		.reduce((sum, { count }) => sum + count, 0);
+	const total = statusCounts.reduce((sum, { count }) => sum + count, 0);
 	const remaining = total - completed;
+	const time = activeList ? getTimeTotals(activeList) : { estimatedMinutes: 0, loggedMinutes: 0 };
+	const timers = useTimers(presence.timer);
 
 	const handleAdd = (e: React.FormEvent) => {
 		e.preventDefault();
 		const text = newItem.trim();
-		if (!text) return;
-		addItem(tree, text, me.name);
+		if (!text || !activeList) return;
+		addItem(tree, activeList.id, text, me.name);
 		setNewItem("");
 	};
 
 	const handleAI = async () => {
+		if (!activeList) return;
+		const listId = activeList.id;
 		setBusy(true);
 		try {
+			const { title, items } = getSnapshot(tree, listId);
 			const suggestion = await llm.suggestEdit({
-				title: snapshot.title,
-				items: snapshot.items,
+				title,
+				items: items.filter((item) => item.deletedAt === undefined),
 			});
-			await applySemanticSuggestion(tree, suggestion);
+			await applySemanticSuggestion(tree, listId, suggestion, me.name);
 		} catch (error) {
 			console.error("LLM suggestion failed", error);
 		} finally {
@@ -54,122 +127,299 @@ export function StarterApp() {
 
 	return (
 		<div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 text-slate-50">
-			<div className="mx-auto flex max-w-5xl flex-col gap-8 px-6 py-12">
-				<header className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-white/5 p-6 shadow-xl shadow-black/20 backdrop-blur">
-					<div className="flex flex-wrap items-center gap-3">
-						<div className="flex-1 min-w-[220px]">
-							<input
-								className="w-full rounded-xl border border-white/15 bg-white/10 px-4 py-3 text-lg font-semibold text-slate-50 shadow-inner shadow-black/10 outline-none transition focus:border-cyan-300 focus:ring-2 focus:ring-cyan-500/40"
-								value={snapshot.title}
-								onChange={(e) => updateTitle(tree, e.target.value)}
-								placeholder="Shared list title"
-							/>
-						</div>
-						<button
-							onClick={handleAI}
-							disabled={busy}
-							className="inline-flex items-center gap-2 rounded-xl bg-cyan-500 px-4 py-3 text-sm font-semibold text-slate-900 shadow-lg shadow-cyan-500/30 transition hover:bg-cyan-400 disabled:cursor-not-allowed disabled:bg-cyan-700 disabled:text-slate-200"
-						>
-							{busy ? "Drafting..." : "Smart fill"}
-						</button>
-						<div className="flex items-center gap-2 rounded-full border border-white/10 bg-white/10 px-3 py-2 text-xs text-slate-200">
-							<span className="h-2 w-2 rounded-full bg-emerald-400" />
-							{users.length} online
-						</div>
-					</div>
-					<div className="grid grid-cols-1 gap-3 text-sm sm:grid-cols-3">
-						<div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
-							<p className="text-xs uppercase tracking-wide text-slate-300">Owner</p>
-							<p className="text-sm font-semibold text-white">{me.name}</p>
-						</div>
-						<div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
-							<p className="text-xs uppercase tracking-wide text-slate-300">
-								Progress
-							</p>
-							<p className="text-sm font-semibold text-white">
-								{completed}/{total} done · {remaining} left
-							</p>
+			<div className="mx-auto grid max-w-6xl grid-cols-1 gap-8 px-6 py-12 lg:grid-cols-[240px_1fr]">
+				<div className="flex flex-col gap-4">
+					<ListSidebar
+						lists={lists}
+						activeId={activeList?.id}
+						onSelect={setActiveListId}
+					/>
+					<WorkflowEditor workflow={workflow} />
+					<TagManager tags={tags} />
+					<TemplatesPanel list={activeList} />
+					{activeList && <ImportExportPanel list={activeList} />}
+					{activeList && <TrashPanel list={activeList} />}
+				</div>
+				<div className="flex min-w-0 flex-col gap-8">
+					<header className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-white/5 p-6 shadow-xl shadow-black/20 backdrop-blur">
+						<div className="flex flex-wrap items-center gap-3">
+							<div className="flex-1 min-w-[220px]">
+								<input
+									className="w-full rounded-xl border border-white/15 bg-white/10 px-4 py-3 text-lg font-semibold text-slate-50 shadow-inner shadow-black/10 outline-none transition focus:border-cyan-300 focus:ring-2 focus:ring-cyan-500/40"
+									value={snapshot.title}
+									onChange={(e) =>
+										activeList &&
+										renameList(tree, activeList.id, e.target.value, me.name)
+									}
+									placeholder="Shared list title"
+								/>
+							</div>
+							<div className="flex items-center gap-1 rounded-xl border border-white/10 bg-white/5 p-1">
+								<button
+									data-testid="undo-button"
+									aria-label="Undo"
+									title="Undo (Ctrl/Cmd+Z)"
+									onClick={undo}
+									disabled={!canUndo}
+									className="rounded-lg px-3 py-2 text-sm font-medium text-slate-100 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+								>
+									Undo
+								</button>
+								<button
+									data-testid="redo-button"
+									aria-label="Redo"
+									title="Redo (Ctrl/Cmd+Shift+Z)"
+									onClick={redo}
+									disabled={!canRedo}
+									className="rounded-lg px-3 py-2 text-sm font-medium text-slate-100 transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+								>
+									Redo
+								</button>
+							</div>
+							<button
+								aria-expanded={activityOpen}
+								onClick={() => {
+									setCommentItemId(null);
+									setActivityOpen(!activityOpen);
+								}}
+								className="rounded-xl border border-white/10 bg-white/5 px-3 py-3 text-sm font-medium text-slate-100 transition hover:bg-white/10"
+							>
+								Activity
+							</button>
+							<button
+								onClick={handleAI}
+								disabled={busy}
+								className="inline-flex items-center gap-2 rounded-xl bg-cyan-500 px-4 py-3 text-sm font-semibold text-slate-900 shadow-lg shadow-cyan-500/30 transition hover:bg-cyan-400 disabled:cursor-not-allowed disabled:bg-cyan-700 disabled:text-slate-200"
+							>
+								{busy ? "Drafting..." : "Smart fill"}
+							</button>
+							<ConnectionStatus />
+							<div className="flex items-center gap-2 rounded-full border border-white/10 bg-white/10 px-3 py-2 text-xs text-slate-200">
+								<span className="h-2 w-2 rounded-full bg-emerald-400" />
+								{users.length} online
+							</div>
 						</div>
-						<div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
-							<p className="text-xs uppercase tracking-wide text-slate-300">
-								Presence
-							</p>
-							<div className="flex flex-wrap items-center gap-2">
-								{users.map((user) => (
-									<span
-										key={user.value.id}
-										className="inline-flex items-center gap-2 rounded-full bg-white/10 px-3 py-1 text-xs font-medium text-white shadow-sm shadow-black/20"
-									>
-										<span className="flex h-7 w-7 items-center justify-center rounded-full bg-cyan-400/90 text-[10px] font-semibold text-slate-900">
-											{(user.value.name ?? "?").slice(0, 2).toUpperCase()}
+						<div className="grid grid-cols-1 gap-3 text-sm sm:grid-cols-2 lg:grid-cols-3">
+							<div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+								<p className="text-xs uppercase tracking-wide text-slate-300">
+									Owner
+								</p>
+								<p className="text-sm font-semibold text-white">{me.name}</p>
+							</div>
+							<div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+								<p className="text-xs uppercase tracking-wide text-slate-300">
+									Progress
+								</p>
+								<p className="text-sm font-semibold text-white">
+									{completed}/{total} done · {remaining} left
+								</p>
+								<div className="mt-2 flex h-1.5 overflow-hidden rounded-full bg-white/10">
+									{statusCounts.map(({ status, count }) => (
+										<div
+											key={status.id}
+											title={`${status.name}: ${count}`}
+											style={{
+												width: `${total === 0 ? 0 : (count / total) * 100}%`,
+												backgroundColor: status.color,
+											}}
+										/>
+									))}
+								</div>
+								<div className="mt-1 flex flex-wrap gap-x-2 text-[11px] text-slate-300">
+									{statusCounts
+										.filter(({ count }) => count > 0)
+										.map(({ status, count }) => (
+											<span
+												key={status.id}
+												className="flex items-center gap-1"
+											>
+												<span
+													className="h-1.5 w-1.5 rounded-full"
+													style={{ backgroundColor: status.color }}
+												/>
+												{status.name} {count}
+											</span>
+										))}
+								</div>
+							</div>
+							<div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+								<p className="text-xs uppercase tracking-wide text-slate-300">
+									Time
+								</p>
+								<p className="text-sm font-semibold text-white">
+									{formatMinutes(time.loggedMinutes)} logged
+									{time.estimatedMinutes > 0 &&
+										` of ${formatMinutes(time.estimatedMinutes)} estimated`}
+								</p>
+								<p className="mt-1 text-[11px] text-slate-300">
+									{timers.length === 0
+										? "No timers running"
+										: `${timers.length} ${timers.length === 1 ? "timer" : "timers"} running`}
+								</p>
+							</div>
+							<div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+								<p className="text-xs uppercase tracking-wide text-slate-300">
+									Presence
+								</p>
+								<div className="flex flex-wrap items-center gap-2">
+									{users.map((user) => (
+										<span
+											key={user.value.id}
+											className="inline-flex items-center gap-2 rounded-full bg-white/10 px-3 py-1 text-xs font-medium text-white shadow-sm shadow-black/20"
+										>
+											<span className="flex h-7 w-7 items-center justify-center rounded-full bg-cyan-400/90 text-[10px] font-semibold text-slate-900">
+												{(user.value.name ?? "?").slice(0, 2).toUpperCase()}
+											</span>
+											{user.value.name}
 										</span>
-										{user.value.name}
-									</span>
-								))}
-								{users.length === 0 && (
-									<span className="text-slate-300">No one online yet</span>
+									))}
+									{users.length === 0 && (
+										<span className="text-slate-300">No one online yet</span>
+									)}
+								</div>
+							</div>
+							<div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+								<p className="text-xs uppercase tracking-wide text-slate-300">
+									Votes
+								</p>
+								{notVoted.length === 0 ? (
+									<p className="text-sm font-semibold text-white">
+										Everyone here has voted
+									</p>
+								) : (
+									<>
+										<p className="text-sm font-semibold text-white">
+											{notVoted.length} yet to vote
+										</p>
+										<p className="mt-1 text-[11px] text-slate-300">
+											{notVoted
+												.map((user) =>
+													user.value.id === me.id
+														? "You"
+														: user.value.name
+												)
+												.join(", ")}
+										</p>
+									</>
 								)}
 							</div>
 						</div>
-					</div>
-				</header>
+					</header>
+
+					<section className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-xl shadow-black/20 backdrop-blur">
+						<form onSubmit={handleAdd} className="flex flex-col gap-3 sm:flex-row">
+							<input
+								className="flex-1 rounded-xl border border-white/15 bg-white/10 px-4 py-3 text-base text-white shadow-inner shadow-black/10 outline-none transition focus:border-emerald-300 focus:ring-2 focus:ring-emerald-400/40"
+								value={newItem}
+								onChange={(e) => setNewItem(e.target.value)}
+								placeholder="Add a shared item"
+							/>
+							<button
+								type="submit"
+								className="rounded-xl bg-emerald-500 px-4 py-3 text-sm font-semibold text-emerald-950 shadow-lg shadow-emerald-500/30 transition hover:bg-emerald-400"
+							>
+								Add
+							</button>
+						</form>
 
-				<section className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-xl shadow-black/20 backdrop-blur">
-					<form onSubmit={handleAdd} className="flex flex-col gap-3 sm:flex-row">
 						<input
-							className="flex-1 rounded-xl border border-white/15 bg-white/10 px-4 py-3 text-base text-white shadow-inner shadow-black/10 outline-none transition focus:border-emerald-300 focus:ring-2 focus:ring-emerald-400/40"
-							value={newItem}
-							onChange={(e) => setNewItem(e.target.value)}
-							placeholder="Add a shared item"
+							type="search"
+							aria-label="Search items"
+							className="mt-4 w-full rounded-xl border border-white/15 bg-white/5 px-4 py-2 text-sm text-white outline-none placeholder:text-slate-400 focus:border-cyan-300"
+							value={search}
+							onChange={(e) => setSearch(e.target.value)}
+							onKeyDown={(e) => e.key === "Escape" && setSearch("")}
+							placeholder="Search items"
 						/>
-						<button
-							type="submit"
-							className="rounded-xl bg-emerald-500 px-4 py-3 text-sm font-semibold text-emerald-950 shadow-lg shadow-emerald-500/30 transition hover:bg-emerald-400"
+
+						<div
+							role="tablist"
+							aria-label="View"
+							className="mt-5 inline-flex rounded-xl border border-white/10 bg-white/5 p-1 text-xs font-medium"
 						>
-							Add
-						</button>
-					</form>
+							{(["list", "board"] as const).map((option) => (
+								<button
+									key={option}
+									role="tab"
+									aria-selected={view === option}
+									onClick={() => setView(option)}
+									className={`rounded-lg px-3 py-1.5 capitalize transition ${
+										view === option
+											? "bg-white/15 text-white"
+											: "text-slate-300 hover:text-white"
+									}`}
+								>
+									{option}
+								</button>
+							))}
+						</div>
+						{view === "list" && (
+							<label className="ml-3 inline-flex items-center gap-2 text-xs text-slate-300">
+								<input
+									type="checkbox"
+									checked={sortByVoteCount}
+									onChange={(e) => setSortByVoteCount(e.target.checked)}
+								/>
+								Sort by votes
+							</label>
+						)}
+						{activeList && <BulkActionsMenu list={activeList} />}
+						<TagFilterBar tags={tags} filter={tagFilter} onChange={setTagFilter} />
 
-					<div className="mt-5 space-y-2">
-						{snapshot.items.map((item: Item) => (
-							<div
-								key={item.id}
-								className="flex items-center justify-between rounded-xl border border-white/10 bg-white/5 px-4 py-3 shadow-sm shadow-black/10"
-							>
-								<div className="flex items-center gap-3">
-									<input
-										type="checkbox"
-										checked={item.done}
-										onChange={() => toggleItem(tree, item.id)}
-										className="h-4 w-4 rounded border-white/40 bg-transparent text-emerald-400 focus:ring-emerald-300"
+						{view === "board" && activeList ? (
+							<div className="mt-4">
+								<BoardView
+									list={activeList}
+									workflow={workflow}
+									filter={itemFilter}
+								/>
+							</div>
+						) : (
+							<div data-link-surface className="relative mt-5 space-y-2">
+								{shownItems.map((item: Item, index) => (
+									<ItemRow
+										key={item.id}
+										item={item}
+										listId={activeList.id}
+										previousId={
+											sortByVoteCount ? undefined : shownItems[index - 1]?.id
+										}
+										nextId={
+											sortByVoteCount ? undefined : shownItems[index + 1]?.id
+										}
+										filter={itemFilter}
+										highlights={highlights}
+										onOpenComments={(itemId) => {
+											setActivityOpen(false);
+											setCommentItemId(itemId);
+										}}
 									/>
-									<div className="flex flex-col">
-										<span
-											className={
-												item.done
-													? "text-slate-400 line-through"
-													: "text-white"
-											}
-										>
-											{item.text}
-										</span>
-										{item.author && (
-											<span className="text-xs text-slate-400">
-												by {item.author}
-											</span>
-										)}
+								))}
+								{itemFilter &&
+									shownItems.length === 0 &&
+									snapshot.items.length > 0 && (
+										<div className="rounded-xl border border-dashed border-white/20 px-4 py-6 text-center text-slate-300">
+											No items match the search or the selected tags.
+										</div>
+									)}
+								{snapshot.items.length === 0 && (
+									<div className="rounded-xl border border-dashed border-white/20 px-4 py-6 text-center text-slate-300">
+										No shared items yet. Add one above or ask AI to draft a
+										list.
 									</div>
-								</div>
-							</div>
-						))}
-						{snapshot.items.length === 0 && (
-							<div className="rounded-xl border border-dashed border-white/20 px-4 py-6 text-center text-slate-300">
-								No shared items yet. Add one above or ask AI to draft a list.
+								)}
+								<DependencyLinks />
 							</div>
 						)}
-					</div>
-				</section>
+					</section>
+				</div>
 			</div>
+			{commentItem && (
+				<CommentsPanel item={commentItem} onClose={() => setCommentItemId(null)} />
+			)}
+			{activityOpen && <ActivityPanel onClose={() => setActivityOpen(false)} />}
+			<UnblockToasts />
+			<RemoteChangeAnnouncer />
 		</div>
 	);
 }
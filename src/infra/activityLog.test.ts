@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import { independentView } from "@fluidframework/tree/alpha";
+import { getDefaultStarterContent, starterTreeConfiguration } from "../schema/starterSchema.js";
+import {
+	activityGroupingMs,
+	activityLogLimit,
+	describeActivity,
+	getActivity,
+	getActivityActors,
+	getActivityItems,
+	groupActivity,
+	migrateActivityLog,
+	recordActivity,
+	runLoggedTransaction,
+} from "./activityLog.js";
+import {
+	addItem,
+	editItemText,
+	moveItem,
+	removeItem,
+	renameList,
+	setItemStatus,
+	toggleItem,
+} from "./sharedTreeClient.js";
+import { createUndoRedo } from "./undoRedo.js";
+
+function createTree() {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	return { tree, listId: tree.root.lists?.[0].id ?? "" };
+}
+
+function summaries(tree: ReturnType<typeof createTree>["tree"]): string[] {
+	return getActivity(tree.root).map((entry) => `${entry.actor} ${describeActivity(entry)}`);
+}
+
+describe("activityLog", () => {
+	it("records who changed what on each mutation", () => {
+		const { tree, listId } = createTree();
+		const id = addItem(tree, listId, "Draft", "ana") ?? "";
+		editItemText(tree, id, "Draft post", "ben");
+		setItemStatus(tree, id, "in-progress", "ana");
+		removeItem(tree, id, "ben");
+
+		expect(summaries(tree)).toEqual([
+			'ben trashed "Draft post"',
+			'ana changed the status of "Draft post": To do → In progress',
+			'ben edited "Draft post": Draft → Draft post',
+			'ana added "Draft"',
+		]);
+		expect(getActivity(tree.root)[0]).toMatchObject({ itemId: id, operation: "removeItem" });
+	});
+
+	it("filters by actor and item", () => {
+		const { tree, listId } = createTree();
+		const a = addItem(tree, listId, "a", "ana") ?? "";
+		const b = addItem(tree, listId, "b", "ben") ?? "";
+		moveItem(tree, a, { after: b }, "ben");
+
+		expect(getActivityActors(tree.root)).toEqual(["ana", "ben"]);
+		expect(getActivityItems(tree.root)).toEqual([
+			{ id: a, subject: "a" },
+			{ id: b, subject: "b" },
+		]);
+		expect(getActivity(tree.root, { actor: "ben" }).map((e) => e.operation)).toEqual([
+			"moveItem",
+			"addItem",
+		]);
+		expect(getActivity(tree.root, { actor: "ben", itemId: a }).length).toBe(1);
+	});
+
+	it("keeps every edit as an entry of its own and groups bursts for display", () => {
+		const { tree, listId } = createTree();
+		renameList(tree, listId, "G", "ana");
+		renameList(tree, listId, "Gr", "ana");
+		renameList(tree, listId, "Groceries", "ana");
+		const id = addItem(tree, listId, "milk", "ana") ?? "";
+		toggleItem(tree, id, "ana");
+		toggleItem(tree, id, "ana");
+
+		expect(summaries(tree)).toHaveLength(6);
+		const first = getActivity(tree.root).at(-1);
+		expect(first).toMatchObject({ before: "Fluid Starter", after: "G" });
+		expect(groupActivity(getActivity(tree.root)).map(describeActivity)).toEqual([
+			'toggled "milk": To do → To do (2 edits)',
+			'added "milk"',
+			'renamed list "Groceries": Fluid Starter → Groceries (3 edits)',
+		]);
+	});
+
+	it("groups edits only within the grouping window", () => {
+		const { tree } = createTree();
+		const root = tree.root;
+		runLoggedTransaction(root, () => {
+			const input = { operation: "renameList", before: "a", after: "b" } as const;
+			recordActivity(root, "ana", input, 0);
+			recordActivity(root, "ana", { ...input, before: "b", after: "c" }, 1000);
+			recordActivity(
+				root,
+				"ana",
+				{ ...input, before: "c", after: "d" },
+				1000 + activityGroupingMs + 1
+			);
+		});
+		expect(getActivity(root)).toHaveLength(3);
+		expect(
+			groupActivity(getActivity(root)).map((group) => `${group.before}→${group.after}`)
+		).toEqual(["c→d", "a→c"]);
+	});
+
+	it("keeps the record of an undone edit and logs the undo and redo", () => {
+		const { tree, listId } = createTree();
+		const undoRedo = createUndoRedo(tree, "ana");
+		const id = addItem(tree, listId, "milk", "ana") ?? "";
+		toggleItem(tree, id, "ana");
+
+		undoRedo.undo();
+		expect(undoRedo.canUndo()).toBe(true);
+		undoRedo.redo();
+		undoRedo.undo();
+		undoRedo.undo();
+
+		expect(tree.root.lists?.[0].items.length).toBe(0);
+		expect(summaries(tree)).toEqual([
+			'ana undid: added "milk"',
+			'ana undid: toggled "milk"',
+			'ana redid: toggled "milk"',
+			'ana undid: toggled "milk"',
+			'ana toggled "milk": To do → Done',
+			'ana added "milk"',
+		]);
+		undoRedo.dispose();
+	});
+
+	it("records nothing for a transaction that throws", () => {
+		const { tree } = createTree();
+		const root = tree.root;
+		expect(() =>
+			runLoggedTransaction(root, () => {
+				recordActivity(root, "ana", { operation: "addList", subject: "Trip" });
+				throw new Error("invalid");
+			})
+		).toThrow("invalid");
+		renameList(tree, root.lists?.[0].id ?? "", "Groceries", "ana");
+		expect(getActivity(root).map((entry) => entry.operation)).toEqual(["renameList"]);
+	});
+
+	it("drops the oldest entries past the limit", () => {
+		const { tree } = createTree();
+		const root = tree.root;
+		runLoggedTransaction(root, () => {
+			for (let i = 0; i < activityLogLimit + 5; i++) {
+				recordActivity(root, "ana", { operation: "addItem", subject: `item ${i}` }, i);
+			}
+		});
+		const entries = getActivity(root);
+		expect(entries.length).toBe(activityLogLimit);
+		expect(entries.at(-1)?.subject).toBe("item 5");
+		expect(entries[0].subject).toBe(`item ${activityLogLimit + 4}`);
+	});
+
+	it("keeps entries written concurrently by different clients", () => {
+		const { tree, listId } = createTree();
+		const alice = tree.fork();
+		const bob = tree.fork();
+
+		addItem(alice, listId, "from alice", "alice");
+		addItem(bob, listId, "from bob", "bob");
+		tree.merge(alice);
+		tree.merge(bob);
+
+		expect(getActivityActors(tree.root)).toEqual(["alice", "bob"]);
+	});
+
+	it("keeps entries written right after the log migration when another client races it", () => {
+		const { tree, listId } = createTree();
+		tree.root.activity = undefined;
+		const alice = tree.fork();
+		const bob = tree.fork();
+		migrateActivityLog(alice);
+		addItem(alice, listId, "from alice", "alice");
+		migrateActivityLog(bob);
+
+		tree.merge(alice);
+		tree.merge(bob);
+
+		expect(getActivityActors(tree.root)).toEqual(["alice"]);
+	});
+});
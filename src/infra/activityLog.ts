@@ -0,0 +1,337 @@
+import { Tree, TransactionConstraint, TreeNode } from "fluid-framework";
+import { ActivityEntry, ActivityLog, AppModel, StarterTreeView } from "../schema/starterSchema.js";
+import { runSeedingMigration } from "./migrations.js";
+
+/**
+ * What each logged operation reads as, after the actor's name. Operations are named after the
+ * `sharedTreeClient` mutation that writes them, or the `UndoRedo` action.
+ */
+export const activityLabels = {
+	addList: "created list",
+	renameList: "renamed list",
+	removeList: "deleted list",
+	moveList: "reordered list",
+	replaceItems: "rewrote the items of",
+	importItems: "imported items into",
+	clearCompleted: "cleared completed items from",
+	setAllDone: "marked every item of",
+	sortItems: "sorted",
+	removeDuplicates: "removed duplicates from",
+	addStatus: "added status",
+	updateStatus: "changed status",
+	moveStatus: "reordered status",
+	removeStatus: "deleted status",
+	addItem: "added",
+	duplicateItem: "duplicated",
+	editItemText: "edited",
+	toggleItem: "toggled",
+	setItemStatus: "changed the status of",
+	setItemRecurrence: "changed the recurrence of",
+	setItemDueDate: "changed the due date of",
+	setItemPriority: "changed the priority of",
+	setItemAssignee: "reassigned",
+	setItemEstimate: "changed the estimate of",
+	moveItem: "moved",
+	indentItem: "indented",
+	outdentItem: "outdented",
+	moveItemUnder: "moved",
+	removeItem: "trashed",
+	restoreItem: "restored",
+	purgeItem: "permanently deleted",
+	emptyTrash: "emptied the trash of",
+	purgeExpiredItems: "purged expired items from the trash",
+	setTrashRetentionDays: "changed how long the trash keeps items",
+	addComment: "commented on",
+	editComment: "edited a comment on",
+	resolveThread: "updated a thread on",
+	addAttachment: "attached a file to",
+	removeAttachment: "removed a file from",
+	addDependency: "added a dependency to",
+	removeDependency: "removed a dependency from",
+	addTag: "created tag",
+	updateTag: "changed tag",
+	mergeTags: "merged tag",
+	deleteTag: "deleted tag",
+	addItemTag: "tagged",
+	removeItemTag: "untagged",
+	toggleVote: "voted on",
+	toggleReaction: "reacted to",
+	logTime: "logged time on",
+	removeTimeEntry: "removed logged time from",
+	undo: "undid",
+	redo: "redid",
+} as const;
+
+export type ActivityOperation = keyof typeof activityLabels;
+
+/** The log keeps this many entries; older ones are dropped as new ones are written. */
+export const activityLogLimit = 1000;
+
+/** Repeated edits of the same value by the same person within this window are shown as one. */
+export const activityGroupingMs = 60 * 1000;
+
+/**
+ * Operations that set a value, so a burst of them (typing a list title, nudging an item up a few
+ * places, changing one's mind about a due date) reads as one change from the first `before` to
+ * the last `after`.
+ */
+const groupableOperations: ReadonlySet<ActivityOperation> = new Set<ActivityOperation>([
+	"renameList",
+	"moveList",
+	"updateStatus",
+	"moveStatus",
+	"editItemText",
+	"toggleItem",
+	"setItemStatus",
+	"setItemRecurrence",
+	"setItemDueDate",
+	"setItemPriority",
+	"setItemAssignee",
+	"setItemEstimate",
+	"moveItem",
+	"setTrashRetentionDays",
+	"updateTag",
+	"toggleVote",
+	"toggleReaction",
+]);
+
+export type ActivityInput = {
+	operation: ActivityOperation;
+	itemId?: string;
+	/** Text of the item, or name of the list, status or tag, so the entry outlives it. */
+	subject?: string;
+	before?: string;
+	after?: string;
+};
+
+/** Entries recorded by the `runLoggedTransaction` calls in progress, with the log they go to. */
+let pendingEntries: { log: ActivityLog; entry: ActivityEntry }[] = [];
+let loggedTransactionDepth = 0;
+/** The entries being appended right now, while their commit is applied. */
+let appending: readonly ActivityEntry[] | undefined;
+
+/**
+ * Adds an entry to the document's activity log. Inside `runLoggedTransaction` the entry is
+ * appended once the transaction has committed; anywhere else it is appended right away.
+ *
+ * The log is append-only: entries are never changed, and each change gets an entry of its own,
+ * even when it only takes back the previous one. Bursts are folded for display by
+ * `groupActivity`. Past `activityLogLimit` entries, the oldest are removed. Documents that have
+ * not been migrated to a log yet are left alone.
+ */
+export function recordActivity(
+	root: AppModel,
+	actor: string | undefined,
+	input: ActivityInput,
+	now: number = Date.now()
+): void {
+	const log = root.activity;
+	if (log === undefined) {
+		return;
+	}
+	const entry = new ActivityEntry({
+		id: crypto.randomUUID(),
+		at: now,
+		actor,
+		operation: input.operation,
+		itemId: input.itemId,
+		subject: input.subject,
+		before: input.before,
+		after: input.after,
+	});
+	pendingEntries.push({ log, entry });
+	if (loggedTransactionDepth === 0) {
+		appendPendingEntries();
+	}
+}
+
+/**
+ * `Tree.runTransaction` for edits that record activity. The entries are appended after the
+ * transaction, in a commit of their own that `UndoRedo` leaves out of its history: undoing the
+ * edit must not erase its record. A transaction that throws records nothing.
+ */
+export function runLoggedTransaction<TNode extends TreeNode, TResult>(
+	node: TNode,
+	transaction: (node: TNode) => TResult,
+	preconditions?: readonly TransactionConstraint[]
+): TResult {
+	const outermost = loggedTransactionDepth === 0;
+	loggedTransactionDepth++;
+	try {
+		return Tree.runTransaction(node, transaction, preconditions);
+	} catch (error) {
+		if (outermost) {
+			pendingEntries = [];
+		}
+		throw error;
+	} finally {
+		loggedTransactionDepth--;
+		if (outermost) {
+			appendPendingEntries();
+		}
+	}
+}
+
+/**
+ * The entries whose commit is being applied, when it is the activity log's own commit; for
+ * `commitApplied` listeners that must tell those apart from edits.
+ */
+export function getAppendingActivity(): readonly ActivityEntry[] | undefined {
+	return appending;
+}
+
+function appendPendingEntries(): void {
+	while (pendingEntries.length > 0) {
+		const { log } = pendingEntries[0];
+		const entries = pendingEntries.filter((p) => p.log === log).map(({ entry }) => entry);
+		pendingEntries = pendingEntries.filter((p) => p.log !== log);
+		appending = entries;
+		try {
+			Tree.runTransaction(log, () => {
+				log.insertAtEnd(...entries);
+				if (log.length > activityLogLimit) {
+					log.removeRange(0, log.length - activityLogLimit);
+				}
+			});
+		} finally {
+			appending = undefined;
+		}
+	}
+}
+
+/**
+ * Gives a pre-activity document an empty log, so entries written concurrently by several clients
+ * are appended to the same array.
+ */
+export function migrateActivityLog(tree: StarterTreeView): void {
+	const root = tree.root;
+	if (root.activity !== undefined) {
+		return;
+	}
+	runSeedingMigration(root, () => {
+		root.activity = new ActivityLog([]);
+	});
+}
+
+export type ActivityFilter = { actor?: string; itemId?: string };
+
+/** Entries matching the filter, newest first. */
+export function getActivity(root: AppModel, filter: ActivityFilter = {}): ActivityEntry[] {
+	return [...(root.activity ?? [])]
+		.filter(
+			(entry) =>
+				(filter.actor === undefined || entry.actor === filter.actor) &&
+				(filter.itemId === undefined || entry.itemId === filter.itemId)
+		)
+		.reverse();
+}
+
+/** Everyone who appears in the log, by name, in alphabetical order. */
+export function getActivityActors(root: AppModel): string[] {
+	const actors = new Set<string>();
+	for (const entry of root.activity ?? []) {
+		if (entry.actor !== undefined) {
+			actors.add(entry.actor);
+		}
+	}
+	return [...actors].sort((a, b) => a.localeCompare(b));
+}
+
+/** The items that appear in the log, each with the most recent text it was logged with. */
+export function getActivityItems(root: AppModel): { id: string; subject: string }[] {
+	const items = new Map<string, string>();
+	for (const entry of root.activity ?? []) {
+		if (entry.itemId !== undefined) {
+			items.set(entry.itemId, entry.subject ?? "");
+		}
+	}
+	return [...items].map(([id, subject]) => ({ id, subject }));
+}
+
+/**
+ * A run of entries shown as one: the same person setting the same value again and again within
+ * `activityGroupingMs`, each entry starting where the previous one ended. It reads as a single
+ * change from the first `before` to the last `after`.
+ */
+export type ActivityGroup = {
+	/** Id of the newest entry. */
+	id: string;
+	/** When the newest entry was written. */
+	at: number;
+	/** When the oldest entry was written. */
+	startedAt: number;
+	actor?: string;
+	operation: string;
+	itemId?: string;
+	subject?: string;
+	before?: string;
+	after?: string;
+	/** How many entries the group stands for. */
+	count: number;
+};
+
+/** Folds bursts of edits, newest first as `getActivity` returns them, for display. */
+export function groupActivity(entries: readonly ActivityEntry[]): ActivityGroup[] {
+	const groups: ActivityGroup[] = [];
+	for (const entry of entries) {
+		const newer = groups.at(-1);
+		if (
+			newer !== undefined &&
+			isActivityOperation(entry.operation) &&
+			groupableOperations.has(entry.operation) &&
+			newer.actor === entry.actor &&
+			newer.operation === entry.operation &&
+			newer.itemId === entry.itemId &&
+			newer.before === entry.after &&
+			newer.startedAt - entry.at <= activityGroupingMs
+		) {
+			newer.startedAt = entry.at;
+			newer.before = entry.before;
+			newer.count++;
+			continue;
+		}
+		groups.push({
+			id: entry.id,
+			at: entry.at,
+			startedAt: entry.at,
+			actor: entry.actor,
+			operation: entry.operation,
+			itemId: entry.itemId,
+			subject: entry.subject,
+			before: entry.before,
+			after: entry.after,
+			count: 1,
+		});
+	}
+	return groups;
+}
+
+function isActivityOperation(operation: string): operation is ActivityOperation {
+	return operation in activityLabels;
+}
+
+function labelOf(operation: string): string {
+	return isActivityOperation(operation) ? activityLabels[operation] : operation;
+}
+
+/**
+ * The entry, or group of entries, as a sentence without its actor, e.g.
+ * `renamed list "Groceries": Food → Groceries`. Undo and redo entries name the operation they
+ * took back or made again in `after`, e.g. `undid: toggled "milk"`.
+ */
+export function describeActivity(
+	entry: Pick<ActivityGroup, "operation" | "subject" | "before" | "after"> & { count?: number }
+): string {
+	const subject = entry.subject === undefined ? "" : ` "${entry.subject}"`;
+	if ((entry.operation === "undo" || entry.operation === "redo") && entry.after !== undefined) {
+		return `${labelOf(entry.operation)}: ${labelOf(entry.after)}${subject}`;
+	}
+	const change =
+		entry.before === undefined && entry.after === undefined
+			? ""
+			: entry.before === undefined
+				? `: ${entry.after}`
+				: `: ${entry.before} → ${entry.after ?? "none"}`;
+	const count = (entry.count ?? 1) > 1 ? ` (${entry.count} edits)` : "";
+	return `${labelOf(entry.operation)}${subject}${change}${count}`;
+}
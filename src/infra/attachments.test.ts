@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { IFluidHandle } from "fluid-framework";
+import { independentView } from "@fluidframework/tree/alpha";
+import {
+	getDefaultStarterContent,
+	starterTreeConfiguration,
+	StarterTreeView,
+} from "../schema/starterSchema.js";
+import {
+	BlobUploader,
+	formatBytes,
+	maxAttachmentBytes,
+	readAttachment,
+	uploadAttachment,
+	validateAttachment,
+} from "./attachments.js";
+import { addItem, removeAttachment } from "./sharedTreeClient.js";
+
+const fluidHandleSymbol = Symbol.for("FluidHandle-3978c7cf-4675-49ba-a20c-bf35efbf43da");
+
+/** Minimal in-memory handle; the tree only checks the handle marker before storing it. */
+function createHandle(contents: ArrayBufferLike): IFluidHandle<ArrayBufferLike> {
+	const handle = {
+		isAttached: true,
+		get: async () => contents,
+		[fluidHandleSymbol]: undefined as unknown,
+	};
+	handle[fluidHandleSymbol] = handle;
+	return handle as unknown as IFluidHandle<ArrayBufferLike>;
+}
+
+function createUploader(): BlobUploader & { uploads: number } {
+	const uploader = {
+		uploads: 0,
+		uploadBlob: async (blob: ArrayBufferLike) => {
+			uploader.uploads++;
+			return createHandle(blob);
+		},
+	};
+	return uploader;
+}
+
+function createFile(name: string, type: string, text: string) {
+	const bytes = new TextEncoder().encode(text);
+	return { name, type, size: bytes.byteLength, arrayBuffer: async () => bytes.buffer };
+}
+
+function createTree(): { tree: StarterTreeView; itemId: string } {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	const listId = tree.root.lists?.[0].id ?? "";
+	const itemId = addItem(tree, listId, "with files") ?? "";
+	return { tree, itemId };
+}
+
+describe("attachments", () => {
+	it("rejects empty and oversized files with a readable message", () => {
+		expect(() => validateAttachment({ name: "empty.txt", size: 0 })).toThrow(
+			'"empty.txt" is empty'
+		);
+		expect(() => validateAttachment({ name: "big.zip", size: maxAttachmentBytes + 1 })).toThrow(
+			'"big.zip" is 10.0 MB; attachments are limited to 10.0 MB'
+		);
+		expect(() =>
+			validateAttachment({ name: "ok.txt", size: maxAttachmentBytes })
+		).not.toThrow();
+	});
+
+	it("uploads the blob and records it on the item", async () => {
+		const { tree, itemId } = createTree();
+		const uploader = createUploader();
+
+		const id = await uploadAttachment(
+			tree,
+			uploader,
+			itemId,
+			createFile("notes.txt", "text/plain", "hello"),
+			"Ana"
+		);
+
+		const attachment = tree.root.lists?.[0].items[0].attachments?.[0];
+		expect(uploader.uploads).toBe(1);
+		expect(attachment).toMatchObject({
+			id,
+			name: "notes.txt",
+			mimeType: "text/plain",
+			size: 5,
+			uploadedBy: "Ana",
+		});
+		const blob = await readAttachment(attachment!);
+		expect(blob.type).toBe("text/plain");
+		expect(await blob.text()).toBe("hello");
+
+		removeAttachment(tree, itemId, id ?? "");
+		expect(tree.root.lists?.[0].items[0].attachments?.length).toBe(0);
+	});
+
+	it("does not upload files that fail validation", async () => {
+		const { tree, itemId } = createTree();
+		const uploader = createUploader();
+
+		await expect(
+			uploadAttachment(tree, uploader, itemId, createFile("empty.txt", "text/plain", ""))
+		).rejects.toThrow("is empty");
+		expect(uploader.uploads).toBe(0);
+	});
+
+	it("names the file when the service rejects the upload", async () => {
+		const { tree, itemId } = createTree();
+		const uploader: BlobUploader = {
+			uploadBlob: async () => {
+				throw new Error("413 Payload Too Large");
+			},
+		};
+
+		await expect(
+			uploadAttachment(tree, uploader, itemId, createFile("a.png", "image/png", "png"))
+		).rejects.toThrow('Could not upload "a.png": 413 Payload Too Large');
+		expect(tree.root.lists?.[0].items[0].attachments?.length).toBe(0);
+	});
+
+	it("formats sizes for display", () => {
+		expect(formatBytes(512)).toBe("512 B");
+		expect(formatBytes(2048)).toBe("2.0 KB");
+		expect(formatBytes(3 * 1024 * 1024)).toBe("3.0 MB");
+	});
+});
@@ -0,0 +1,86 @@
+import type { IFluidContainer, IFluidHandle } from "fluid-framework";
+import type { Attachment, StarterTreeView } from "../schema/starterSchema.js";
+import { addAttachment } from "./sharedTreeClient.js";
+
+/** Largest file that can be attached. Blobs are kept for the lifetime of the document. */
+export const maxAttachmentBytes = 10 * 1024 * 1024;
+
+/**
+ * The part of the container that stores blobs. Both Azure Fluid Relay and the local
+ * `azure-local-service` (Tinylicious) implement it, but it is not part of the public
+ * `IFluidContainer` type yet.
+ */
+export interface BlobUploader {
+	uploadBlob(blob: ArrayBufferLike): Promise<IFluidHandle<ArrayBufferLike>>;
+}
+
+/** The subset of `File` that uploads need, so callers and tests can pass plain objects. */
+export type AttachmentFile = Pick<File, "name" | "type" | "size" | "arrayBuffer">;
+
+export function getBlobUploader(container: IFluidContainer): BlobUploader {
+	const upload = (container as Partial<BlobUploader>).uploadBlob;
+	if (typeof upload !== "function") {
+		throw new Error("This Fluid service does not support attachments");
+	}
+	return { uploadBlob: (blob) => upload.call(container, blob) };
+}
+
+/** Throws a user-facing error when the file cannot be attached. */
+export function validateAttachment(file: Pick<File, "name" | "size">): void {
+	if (file.size === 0) {
+		throw new Error(`"${file.name}" is empty`);
+	}
+	if (file.size > maxAttachmentBytes) {
+		throw new Error(
+			`"${file.name}" is ${formatBytes(file.size)}; attachments are limited to ${formatBytes(maxAttachmentBytes)}`
+		);
+	}
+}
+
+/**
+ * Uploads the file to the container's blob storage and attaches it to the item.
+ * @returns The id of the attachment, or undefined if the item was deleted during the upload.
+ */
+export async function uploadAttachment(
+	tree: StarterTreeView,
+	uploader: BlobUploader,
+	itemId: string,
+	file: AttachmentFile,
+	author?: string
+): Promise<string | undefined> {
+	validateAttachment(file);
+	let blob: IFluidHandle<ArrayBufferLike>;
+	try {
+		blob = await uploader.uploadBlob(await file.arrayBuffer());
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		throw new Error(`Could not upload "${file.name}": ${reason}`);
+	}
+	return addAttachment(
+		tree,
+		itemId,
+		{ name: file.name, mimeType: file.type, size: file.size, blob },
+		author
+	);
+}
+
+/** Downloads an attachment's contents from blob storage. */
+export async function readAttachment(attachment: Attachment): Promise<Blob> {
+	const handle = attachment.blob as IFluidHandle<ArrayBufferLike>;
+	const contents = await handle.get();
+	return new Blob([contents as ArrayBuffer], { type: attachment.mimeType });
+}
+
+export function isImageAttachment(attachment: Pick<Attachment, "mimeType">): boolean {
+	return attachment.mimeType.startsWith("image/");
+}
+
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import { asTreeViewAlpha, independentView } from "@fluidframework/tree/alpha";
+import type { CommitMetadata } from "fluid-framework";
+import {
+	getDefaultStarterContent,
+	starterTreeConfiguration,
+	StarterTreeView,
+} from "../schema/starterSchema.js";
+import { ChangeFeed, createChangeFeed, DomainEvent } from "./changeFeed.js";
+import {
+	addItem,
+	editItemText,
+	removeItem,
+	renameList,
+	restoreItem,
+	setItemDueDate,
+	toggleItem,
+} from "./sharedTreeClient.js";
+
+function createTree(): StarterTreeView {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	return tree;
+}
+
+function listId(tree: StarterTreeView): string {
+	return tree.root.lists?.[0]?.id ?? "";
+}
+
+/**
+ * The same tree, but every commit is reported as coming from another client, the way commits
+ * sequenced from collaborators are.
+ */
+function asRemote(tree: StarterTreeView): StarterTreeView {
+	const events = asTreeViewAlpha(tree).events;
+	return {
+		get root() {
+			return tree.root;
+		},
+		events: {
+			on: (eventName: "changed", listener: (data: CommitMetadata) => void) =>
+				events.on(eventName, (data) => listener({ ...data, isLocal: false })),
+		},
+	} as unknown as StarterTreeView;
+}
+
+/** A feed whose frames only end when the test says so, and everything it delivered. */
+function createRecordingFeed(tree: StarterTreeView) {
+	const frames: (() => void)[] = [];
+	const feed: ChangeFeed = createChangeFeed(tree, (callback) => frames.push(callback));
+	const batches: (readonly DomainEvent[])[] = [];
+	feed.events.on("changed", (events) => batches.push(events));
+	const endFrame = () => frames.splice(0).forEach((callback) => callback());
+	return { feed, batches, frames, endFrame };
+}
+
+describe("changeFeed", () => {
+	it("turns local commits into typed events, delivered once per frame", () => {
+		const tree = createTree();
+		const { feed, batches, frames, endFrame } = createRecordingFeed(tree);
+		const toggled: boolean[] = [];
+		feed.events.on("itemToggled", (event) => toggled.push(event.done));
+
+		const parent = addItem(tree, listId(tree), "Pack", "ana") ?? "";
+		const child = addItem(tree, listId(tree), "Passport", "ana", parent) ?? "";
+		toggleItem(tree, child);
+		expect(batches).toEqual([]);
+		expect(frames).toHaveLength(1);
+
+		endFrame();
+		expect(batches).toEqual([
+			[
+				{
+					type: "itemAdded",
+					listId: listId(tree),
+					itemId: parent,
+					text: "Pack",
+					origin: "local",
+				},
+				{
+					type: "itemAdded",
+					listId: listId(tree),
+					itemId: child,
+					parentId: parent,
+					text: "Passport",
+					origin: "local",
+				},
+				{
+					type: "itemToggled",
+					listId: listId(tree),
+					itemId: child,
+					text: "Passport",
+					done: true,
+					previousUpdatedAt: expect.any(Number),
+					origin: "local",
+				},
+			],
+		]);
+		expect(toggled).toEqual([true]);
+
+		renameList(tree, listId(tree), "Trip");
+		editItemText(tree, parent, "Pack bags");
+		removeItem(tree, parent);
+		endFrame();
+		expect(batches[1]).toEqual([
+			expect.objectContaining({ type: "titleChanged", after: "Trip" }),
+			expect.objectContaining({
+				type: "itemTextChanged",
+				before: "Pack",
+				after: "Pack bags",
+			}),
+			expect.objectContaining({ type: "itemRemoved", itemId: parent, text: "Pack bags" }),
+			expect.objectContaining({ type: "itemRemoved", itemId: child, text: "Passport" }),
+		]);
+	});
+
+	it("coalesces edits within a frame that repeat or cancel each other", () => {
+		const tree = createTree();
+		const id = addItem(tree, listId(tree), "milk") ?? "";
+		const { batches, endFrame } = createRecordingFeed(tree);
+
+		editItemText(tree, id, "oat milk");
+		editItemText(tree, id, "oat milk x2");
+		toggleItem(tree, id);
+		toggleItem(tree, id);
+		const temporary = addItem(tree, listId(tree), "typo") ?? "";
+		toggleItem(tree, temporary);
+		removeItem(tree, temporary);
+		removeItem(tree, id);
+		restoreItem(tree, id);
+		endFrame();
+
+		expect(batches).toEqual([
+			[
+				{
+					type: "itemTextChanged",
+					listId: listId(tree),
+					itemId: id,
+					before: "milk",
+					after: "oat milk x2",
+					previousUpdatedAt: expect.any(Number),
+					origin: "local",
+				},
+			],
+		]);
+
+		editItemText(tree, id, "x");
+		editItemText(tree, id, "oat milk x2");
+		endFrame();
+		expect(batches).toHaveLength(1);
+	});
+
+	it("attributes commits from collaborators to them", () => {
+		const tree = createTree();
+		const id = addItem(tree, listId(tree), "milk") ?? "";
+		const { feed, batches } = createRecordingFeed(asRemote(tree));
+
+		toggleItem(tree, id);
+		feed.flush();
+		expect(batches).toEqual([
+			[expect.objectContaining({ type: "itemToggled", origin: "remote" })],
+		]);
+	});
+
+	it("reports commits none of its events describe, but not activity entries", () => {
+		const tree = createTree();
+		const { feed, batches, endFrame } = createRecordingFeed(tree);
+		const other: string[] = [];
+		feed.events.on("otherChange", (origin) => other.push(origin));
+
+		const id = addItem(tree, listId(tree), "Passport", "ana") ?? "";
+		expect(other).toEqual([]);
+		setItemDueDate(tree, id, "2026-05-01");
+		endFrame();
+		expect(other).toEqual(["local"]);
+		expect(batches).toHaveLength(1);
+	});
+
+	it("stops reporting once disposed", () => {
+		const tree = createTree();
+		const { feed, batches, endFrame } = createRecordingFeed(tree);
+		addItem(tree, listId(tree), "milk");
+		feed.dispose();
+		endFrame();
+		addItem(tree, listId(tree), "bread");
+		feed.flush();
+		expect(batches).toEqual([]);
+	});
+});
@@ -0,0 +1,326 @@
+import type { Listenable } from "fluid-framework";
+import { asTreeViewAlpha } from "@fluidframework/tree/alpha";
+import type { AppModel, Item, StarterTreeView } from "../schema/starterSchema.js";
+import { createEmitter, Emitter } from "../utils/emitter.js";
+import { getAppendingActivity } from "./activityLog.js";
+import { isTrashed } from "./sharedTreeClient.js";
+import { isUntracked } from "./undoRedo.js";
+
+/** Whether a change was made by this client or arrived from a collaborator. */
+export type ChangeOrigin = "local" | "remote";
+
+/** An item appeared in a list: it was added, imported, or restored from the trash. */
+export type ItemAddedEvent = {
+	type: "itemAdded";
+	listId: string;
+	itemId: string;
+	/** The parent item when the item is a subtask. */
+	parentId?: string;
+	text: string;
+	/**
+	 * The recurring item whose completion spawned this one as its next occurrence, in the same
+	 * commit. Completing that item again spawns it again.
+	 */
+	nextOccurrenceOf?: string;
+	origin: ChangeOrigin;
+};
+
+/** An item left its list: it was trashed (directly or with its parent) or purged. */
+export type ItemRemovedEvent = {
+	type: "itemRemoved";
+	listId: string;
+	itemId: string;
+	text: string;
+	origin: ChangeOrigin;
+};
+
+export type ItemToggledEvent = {
+	type: "itemToggled";
+	listId: string;
+	itemId: string;
+	text: string;
+	done: boolean;
+	/** The item's `updatedAt` before the change, to tell later whether anyone edited it since. */
+	previousUpdatedAt?: number;
+	origin: ChangeOrigin;
+};
+
+export type ItemTextChangedEvent = {
+	type: "itemTextChanged";
+	listId: string;
+	itemId: string;
+	before: string;
+	after: string;
+	/** The item's `updatedAt` before the change, to tell later whether anyone edited it since. */
+	previousUpdatedAt?: number;
+	origin: ChangeOrigin;
+};
+
+export type TitleChangedEvent = {
+	type: "titleChanged";
+	listId: string;
+	before: string;
+	after: string;
+	origin: ChangeOrigin;
+};
+
+export type DomainEvent =
+	| ItemAddedEvent
+	| ItemRemovedEvent
+	| ItemToggledEvent
+	| ItemTextChangedEvent
+	| TitleChangedEvent;
+
+export type ChangeFeedEvents = {
+	itemAdded(event: ItemAddedEvent): void;
+	itemRemoved(event: ItemRemovedEvent): void;
+	itemToggled(event: ItemToggledEvent): void;
+	itemTextChanged(event: ItemTextChangedEvent): void;
+	titleChanged(event: TitleChangedEvent): void;
+	/** Every event of one frame, in order, after the individual events were fired. */
+	changed(events: readonly DomainEvent[]): void;
+	/**
+	 * A commit changed something none of the events above describe (a due date, a tag, an item
+	 * moved…). Fired as the commit lands rather than once per frame; activity log entries and
+	 * untracked housekeeping such as the trash purge are left out.
+	 */
+	otherChange(origin: ChangeOrigin): void;
+};
+
+/**
+ * Domain-level events derived from SharedTree commits, local and remote alike, so features can
+ * react to "an item was completed by someone else" without diffing the tree themselves. Events
+ * are buffered and delivered once per frame; within a frame, edits that undo each other (an item
+ * added and trashed again, toggled twice) are dropped and repeated edits of the same text are
+ * merged into one.
+ */
+export interface ChangeFeed {
+	readonly events: Listenable<ChangeFeedEvents>;
+	/** Delivers the buffered events now instead of on the next frame. */
+	flush(): void;
+	dispose(): void;
+}
+
+/** Runs a callback once, later; the default waits for the next animation frame. */
+export type FrameScheduler = (callback: () => void) => void;
+
+type ItemState = {
+	listId: string;
+	parentId?: string;
+	text: string;
+	done: boolean;
+	recurring: boolean;
+	updatedAt?: number;
+};
+
+type DocumentState = { items: Map<string, ItemState>; titles: Map<string, string> };
+
+export function createChangeFeed(
+	tree: StarterTreeView,
+	schedule: FrameScheduler = (callback) => requestAnimationFrame(callback)
+): ChangeFeed {
+	const events = createEmitter<ChangeFeedEvents>();
+	let state = readState(tree.root);
+	let pending: DomainEvent[] = [];
+	let scheduled = false;
+	let disposed = false;
+
+	const flush = () => {
+		scheduled = false;
+		const batch = coalesce(pending);
+		pending = [];
+		if (disposed || batch.length === 0) {
+			return;
+		}
+		for (const event of batch) {
+			emitEvent(events, event);
+		}
+		events.emit("changed", batch);
+	};
+
+	const offChanged = asTreeViewAlpha(tree).events.on("changed", (data) => {
+		const next = readState(tree.root);
+		const origin = data.isLocal ? "local" : "remote";
+		const changes = diffStates(state, next, origin);
+		pending.push(...changes);
+		state = next;
+		if (changes.length === 0 && getAppendingActivity() === undefined && !isUntracked(tree)) {
+			events.emit("otherChange", origin);
+		}
+		if (pending.length > 0 && !scheduled) {
+			scheduled = true;
+			schedule(flush);
+		}
+	});
+
+	return {
+		events,
+		flush,
+		dispose() {
+			disposed = true;
+			pending = [];
+			offChanged();
+		},
+	};
+}
+
+function emitEvent(events: Emitter<ChangeFeedEvents>, event: DomainEvent): void {
+	switch (event.type) {
+		case "itemAdded":
+			return events.emit("itemAdded", event);
+		case "itemRemoved":
+			return events.emit("itemRemoved", event);
+		case "itemToggled":
+			return events.emit("itemToggled", event);
+		case "itemTextChanged":
+			return events.emit("itemTextChanged", event);
+		case "titleChanged":
+			return events.emit("titleChanged", event);
+	}
+}
+
+/** The fields the feed reports on, for every item that is not in the trash. */
+function readState(root: AppModel): DocumentState {
+	const items = new Map<string, ItemState>();
+	const titles = new Map<string, string>();
+	const visit = (list: string, children: Iterable<Item>, parentId?: string) => {
+		for (const item of children) {
+			if (isTrashed(item)) {
+				continue;
+			}
+			items.set(item.id, {
+				listId: list,
+				parentId,
+				text: item.text,
+				done: item.done,
+				recurring: item.recurrence !== undefined,
+				updatedAt: item.updatedAt,
+			});
+			visit(list, item.children ?? [], item.id);
+		}
+	};
+	for (const list of root.lists ?? []) {
+		titles.set(list.id, list.title);
+		visit(list.id, list.items);
+	}
+	return { items, titles };
+}
+
+function diffStates(
+	before: DocumentState,
+	after: DocumentState,
+	origin: ChangeOrigin
+): DomainEvent[] {
+	const changes: DomainEvent[] = [];
+	// Recurring items that stopped recurring: completing one hands its rule to the next occurrence.
+	const handedOn = [...after.items].filter(
+		([itemId, item]) => !item.recurring && before.items.get(itemId)?.recurring
+	);
+	for (const [listId, title] of after.titles) {
+		const previous = before.titles.get(listId);
+		if (previous !== undefined && previous !== title) {
+			changes.push({ type: "titleChanged", listId, before: previous, after: title, origin });
+		}
+	}
+	for (const [itemId, item] of after.items) {
+		const previous = before.items.get(itemId);
+		const { listId, text } = item;
+		if (!previous) {
+			const source = item.recurring
+				? handedOn.find(
+						([, completed]) =>
+							completed.listId === listId && completed.parentId === item.parentId
+					)
+				: undefined;
+			changes.push({
+				type: "itemAdded",
+				listId,
+				itemId,
+				parentId: item.parentId,
+				text,
+				nextOccurrenceOf: source?.[0],
+				origin,
+			});
+			continue;
+		}
+		if (previous.text !== text) {
+			changes.push({
+				type: "itemTextChanged",
+				listId,
+				itemId,
+				before: previous.text,
+				after: text,
+				previousUpdatedAt: previous.updatedAt,
+				origin,
+			});
+		}
+		if (previous.done !== item.done) {
+			changes.push({
+				type: "itemToggled",
+				listId,
+				itemId,
+				text,
+				done: item.done,
+				previousUpdatedAt: previous.updatedAt,
+				origin,
+			});
+		}
+	}
+	for (const [itemId, item] of before.items) {
+		if (!after.items.has(itemId)) {
+			changes.push({
+				type: "itemRemoved",
+				listId: item.listId,
+				itemId,
+				text: item.text,
+				origin,
+			});
+		}
+	}
+	return changes;
+}
+
+/** Which earlier event a new one can merge with: same kind of change, same target, same origin. */
+function coalesceKey(event: DomainEvent): string {
+	const target = event.type === "titleChanged" ? event.listId : event.itemId;
+	const kind = event.type === "itemRemoved" ? "itemAdded" : event.type;
+	return `${kind}:${target}:${event.origin}`;
+}
+
+/** Drops and merges events of one frame that cancel out or repeat each other. */
+function coalesce(events: readonly DomainEvent[]): DomainEvent[] {
+	const result: (DomainEvent | undefined)[] = [];
+	const open = new Map<string, number>();
+	for (const event of events) {
+		const key = coalesceKey(event);
+		const index = open.get(key);
+		const previous = index === undefined ? undefined : result[index];
+		if (index === undefined || previous === undefined) {
+			open.set(key, result.push(event) - 1);
+			continue;
+		}
+		if (
+			(previous.type === "itemTextChanged" && event.type === "itemTextChanged") ||
+			(previous.type === "titleChanged" && event.type === "titleChanged")
+		) {
+			const merged = { ...previous, after: event.after };
+			result[index] = merged.before === merged.after ? undefined : merged;
+			continue;
+		}
+		// A second toggle restores the first state, and an item removed right after being added
+		// (or restored right after being trashed) never changed as far as listeners can tell.
+		result[index] = undefined;
+		open.delete(key);
+		if (previous.type === "itemAdded") {
+			// Nothing that happened to the short-lived item is worth reporting either.
+			for (let i = index + 1; i < result.length; i++) {
+				const other = result[i];
+				if (other && other.type !== "titleChanged" && other.itemId === previous.itemId) {
+					result[i] = undefined;
+					open.delete(coalesceKey(other));
+				}
+			}
+		}
+	}
+	return result.filter((event): event is DomainEvent => event !== undefined);
+}
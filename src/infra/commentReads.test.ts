@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { createCommentReads } from "./commentReads.js";
+
+function createStorage() {
+	const values = new Map<string, string>();
+	return {
+		getItem: (key: string) => values.get(key) ?? null,
+		setItem: (key: string, value: string) => void values.set(key, value),
+	};
+}
+
+describe("commentReads", () => {
+	it("remembers read times per user across instances", () => {
+		const storage = createStorage();
+		const reads = createCommentReads("ana", storage);
+		expect(reads.lastReadAt("item")).toBeUndefined();
+
+		reads.markRead("item", 100);
+		expect(createCommentReads("ana", storage).lastReadAt("item")).toBe(100);
+		expect(createCommentReads("ben", storage).lastReadAt("item")).toBeUndefined();
+	});
+
+	it("only moves forward and notifies on change", () => {
+		const reads = createCommentReads("ana", createStorage());
+		const changed: string[] = [];
+		reads.events.on("changed", (itemId) => changed.push(itemId));
+
+		reads.markRead("item", 100);
+		reads.markRead("item", 50);
+		expect(reads.lastReadAt("item")).toBe(100);
+		expect(changed).toEqual(["item"]);
+	});
+
+	it("ignores malformed storage", () => {
+		const storage = createStorage();
+		storage.setItem("comment-reads:ana", "not json");
+		expect(createCommentReads("ana", storage).lastReadAt("item")).toBeUndefined();
+	});
+});
@@ -0,0 +1,51 @@
+import type { Listenable } from "fluid-framework";
+import { createEmitter } from "../utils/emitter.js";
+
+export type CommentReadsEvents = {
+	/** Fired when an item's comments are marked as read. */
+	changed(itemId: string): void;
+};
+
+/**
+ * When this user last read each item's comments, used to compute unread indicators. Kept in
+ * local storage rather than the document: it is private to the user, and writing it to the tree
+ * would put "mark as read" entries on the undo stack.
+ */
+export interface CommentReads {
+	readonly events: Listenable<CommentReadsEvents>;
+	lastReadAt(itemId: string): number | undefined;
+	markRead(itemId: string, at?: number): void;
+}
+
+export function createCommentReads(
+	userId: string,
+	storage: Pick<Storage, "getItem" | "setItem"> = window.localStorage
+): CommentReads {
+	const events = createEmitter<CommentReadsEvents>();
+	const key = `comment-reads:${userId}`;
+
+	const load = (): Record<string, number> => {
+		try {
+			const parsed: unknown = JSON.parse(storage.getItem(key) ?? "{}");
+			return typeof parsed === "object" && parsed !== null
+				? (parsed as Record<string, number>)
+				: {};
+		} catch {
+			return {};
+		}
+	};
+	const reads = load();
+
+	return {
+		events,
+		lastReadAt: (itemId) => reads[itemId],
+		markRead(itemId, at = Date.now()) {
+			if ((reads[itemId] ?? 0) >= at) {
+				return;
+			}
+			reads[itemId] = at;
+			storage.setItem(key, JSON.stringify(reads));
+			events.emit("changed", itemId);
+		},
+	};
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it } from "vitest";
+import { independentView } from "@fluidframework/tree/alpha";
+import {
+	getDefaultStarterContent,
+	starterTreeConfiguration,
+	StarterTreeView,
+} from "../schema/starterSchema.js";
+import { getActivity } from "./activityLog.js";
+import {
+	exportCsv,
+	exportFileName,
+	exportJson,
+	exportMarkdown,
+	importItems,
+	parseCsv,
+	parseImport,
+	parseMarkdown,
+} from "./importExport.js";
+import {
+	addItem,
+	flattenItems,
+	getItemStatus,
+	getSnapshot,
+	removeItem,
+	renameList,
+	setItemDueDate,
+	setItemPriority,
+	setItemStatus,
+	toggleItem,
+} from "./sharedTreeClient.js";
+
+function createTree(): StarterTreeView {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	return tree;
+}
+
+function listId(tree: StarterTreeView): string {
+	return tree.root.lists?.[0]?.id ?? "";
+}
+
+/** Weekly review: "Inbox, zero" (done) with subtask "Reply to \"Ana\"", and "=SUM(A1)" due. */
+function createWeeklyReview(): StarterTreeView {
+	const tree = createTree();
+	renameList(tree, listId(tree), "Weekly review");
+	const inbox = addItem(tree, listId(tree), "Inbox, zero", "ana") ?? "";
+	addItem(tree, listId(tree), 'Reply to "Ana"', "ana", inbox);
+	const formula = addItem(tree, listId(tree), "=SUM(A1)", "ben") ?? "";
+	const stale = addItem(tree, listId(tree), "Old", "ben") ?? "";
+	toggleItem(tree, inbox);
+	setItemStatus(tree, formula, "in-progress");
+	setItemPriority(tree, formula, "high");
+	setItemDueDate(tree, formula, "2026-05-01");
+	removeItem(tree, stale);
+	return tree;
+}
+
+function outline(tree: StarterTreeView): string[] {
+	return flattenItems(tree.root.lists![0].items).map(
+		(item) => `${item.text}|${getItemStatus(tree.root.workflow!, item)?.name}`
+	);
+}
+
+describe("importExport", () => {
+	it("exports a GitHub-style Markdown task list", () => {
+		const tree = createWeeklyReview();
+		expect(exportMarkdown(getSnapshot(tree, listId(tree)))).toBe(
+			[
+				"# Weekly review",
+				"",
+				"- [x] Inbox, zero",
+				'  - [ ] Reply to "Ana"',
+				"- [ ] =SUM(A1)",
+				"",
+			].join("\n")
+		);
+		expect(exportFileName("Weekly review!", "markdown")).toBe("weekly-review.md");
+	});
+
+	it("exports CSV with quoting and formula cells defused", () => {
+		const tree = createWeeklyReview();
+		expect(
+			exportCsv(getSnapshot(tree, listId(tree)), tree.root.workflow!).split("\r\n")
+		).toEqual([
+			"text,done,status,priority,due,author,level",
+			'"Inbox, zero",true,Done,,,ana,0',
+			'"Reply to ""Ana""",false,To do,,,ana,1',
+			"'=SUM(A1),false,In progress,high,2026-05-01,ben,0",
+			"",
+		]);
+	});
+
+	it("round-trips every format through import", () => {
+		const source = createWeeklyReview();
+		const snapshot = getSnapshot(source, listId(source));
+		const workflow = source.root.workflow!;
+		const expected = ["Inbox, zero|Done", 'Reply to "Ana"|To do', "=SUM(A1)|In progress"];
+
+		for (const [format, text] of [
+			["json", exportJson(snapshot, workflow)],
+			["csv", exportCsv(snapshot, workflow)],
+		] as const) {
+			const target = createTree();
+			const parsed = parseImport(text, format);
+			expect(importItems(target, listId(target), parsed.items, "cy")).toBe(3);
+			expect(outline(target)).toEqual(expected);
+			const imported = flattenItems(target.root.lists![0].items)[2];
+			expect([imported.priority, imported.dueDate, imported.author]).toEqual([
+				"high",
+				"2026-05-01",
+				"cy",
+			]);
+		}
+
+		const target = createTree();
+		const parsed = parseImport(exportMarkdown(snapshot), "markdown");
+		expect(parsed.title).toBe("Weekly review");
+		importItems(target, listId(target), parsed.items);
+		expect(outline(target)).toEqual([
+			"Inbox, zero|Done",
+			'Reply to "Ana"|To do',
+			"=SUM(A1)|To do",
+		]);
+	});
+
+	it("keeps Markdown-like item text and line breaks readable after a round trip", () => {
+		const tree = createTree();
+		renameList(tree, listId(tree), "# Plans\nfor May");
+		for (const text of ["[x] not done yet", "# not a heading", "\\[x] escaped", "two\nlines"]) {
+			addItem(tree, listId(tree), text);
+		}
+
+		const parsed = parseMarkdown(exportMarkdown(getSnapshot(tree, listId(tree))));
+		expect(parsed.title).toBe("# Plans for May");
+		expect(parsed.items.map((item) => [item.text, item.done])).toEqual([
+			["[x] not done yet", false],
+			["# not a heading", false],
+			["\\[x] escaped", false],
+			["two lines", false],
+		]);
+	});
+
+	it("parses nested Markdown bullets with mixed indentation", () => {
+		const list = parseMarkdown(
+			[
+				"Some intro text",
+				"* [X] Pack",
+				"    - [ ] Passport",
+				"\t- Charger",
+				"      + [x] Cable",
+				"- [ ] Leave",
+			].join("\n")
+		);
+		expect(list.title).toBeUndefined();
+		expect(list.items).toEqual([
+			{
+				text: "Pack",
+				done: true,
+				children: [
+					{ text: "Passport", done: false, children: [] },
+					{
+						text: "Charger",
+						done: false,
+						children: [{ text: "Cable", done: true, children: [] }],
+					},
+				],
+			},
+			{ text: "Leave", done: false, children: [] },
+		]);
+	});
+
+	it("reads CSV columns in any order and clamps nesting", () => {
+		const list = parseCsv(
+			[
+				"Level,Text,Done,Priority,Due",
+				"0,a,yes,URGENT,soon",
+				"2,b,,,",
+				",,,,",
+				"1,c,x,,",
+			].join("\n")
+		);
+		expect(list.items).toEqual([
+			{
+				text: "a",
+				done: true,
+				priority: "urgent",
+				dueDate: undefined,
+				status: undefined,
+				author: undefined,
+				children: [
+					expect.objectContaining({ text: "b", done: false }),
+					expect.objectContaining({ text: "c", done: true }),
+				],
+			},
+		]);
+	});
+
+	it("rejects files that are not checklists", () => {
+		expect(() => parseImport("{", "json")).toThrow("not valid JSON");
+		expect(() => parseImport('{"items":[]}', "json")).toThrow("not a checklist export");
+		expect(() =>
+			parseImport('{"format":"fluid-checklist","version":99,"items":[]}', "json")
+		).toThrow("newer version");
+		expect(() => parseImport("name\nmilk", "csv")).toThrow('needs a "text" column');
+		expect(() => parseImport("just prose", "markdown")).toThrow("no checklist items");
+	});
+
+	it("imports in one transaction and logs it", () => {
+		const tree = createTree();
+		addItem(tree, listId(tree), "existing");
+		const { items } = parseImport("- [ ] a\n  - [ ] b\n- [ ] c", "markdown");
+		expect(importItems(tree, listId(tree), items, "ana")).toBe(3);
+		expect(flattenItems(tree.root.lists![0].items).map((item) => item.text)).toEqual([
+			"existing",
+			"a",
+			"b",
+			"c",
+		]);
+		expect(getActivity(tree.root)[0]).toMatchObject({
+			actor: "ana",
+			operation: "importItems",
+			after: "3 items",
+		});
+		expect(importItems(tree, "missing", items)).toBe(0);
+	});
+});
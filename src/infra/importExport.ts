@@ -0,0 +1,393 @@
+import { z } from "zod";
+import {
+	Item,
+	priorities,
+	Priority,
+	StarterTreeView,
+	WorkflowStatus,
+} from "../schema/starterSchema.js";
+import { isIsoDate } from "../utils/dates.js";
+import { recordActivity, runLoggedTransaction } from "./activityLog.js";
+import { createItem, getItemPriority, getItemStatus } from "./sharedTreeClient.js";
+import type { ItemSnapshot, ListSnapshot } from "./snapshot.js";
+
+export const importFormats = ["json", "markdown", "csv"] as const;
+
+export type ImportFormat = (typeof importFormats)[number];
+
+/** An item read from a file: what to add, without ids, history or discussion. */
+export type ImportedItem = {
+	text: string;
+	done: boolean;
+	/** Status name; matched against the document workflow by name when imported. */
+	status?: string;
+	priority?: Priority;
+	dueDate?: string;
+	author?: string;
+	children: ImportedItem[];
+};
+
+export type ImportedList = { title?: string; items: ImportedItem[] };
+
+/** Identifies our JSON exports; bump the version when the item shape changes incompatibly. */
+export const checklistFormat = "fluid-checklist";
+export const checklistFormatVersion = 1;
+
+const fileExtensions: Record<ImportFormat, string> = { json: "json", markdown: "md", csv: "csv" };
+
+const mimeTypes: Record<ImportFormat, string> = {
+	json: "application/json",
+	markdown: "text/markdown",
+	csv: "text/csv",
+};
+
+/** Guesses the format from a file name, defaulting to Markdown for plain text. */
+export function detectFormat(fileName: string): ImportFormat {
+	const extension = fileName.toLowerCase().split(".").pop();
+	return extension === "json" ? "json" : extension === "csv" ? "csv" : "markdown";
+}
+
+/** A file name for the list exported as `format`, e.g. `weekly-review.md`. */
+export function exportFileName(title: string, format: ImportFormat): string {
+	const slug = title
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, "-")
+		.replace(/^-|-$/g, "");
+	return `${slug || "checklist"}.${fileExtensions[format]}`;
+}
+
+export function exportMimeType(format: ImportFormat): string {
+	return mimeTypes[format];
+}
+
+/** The live items, subtasks included, in the plain shape every format shares. */
+function toImportedItems(
+	items: readonly ItemSnapshot[],
+	workflow: readonly WorkflowStatus[]
+): ImportedItem[] {
+	return items
+		.filter((item) => item.deletedAt === undefined)
+		.map((item) => ({
+			text: item.text,
+			done: item.done,
+			status: getItemStatus(workflow, item)?.name,
+			priority: getItemPriority(item),
+			dueDate: item.dueDate,
+			author: item.author,
+			children: toImportedItems(item.children ?? [], workflow),
+		}));
+}
+
+/**
+ * The list as JSON tagged with `checklistFormat` and its version. Items carry their status by
+ * name, which needs the document `workflow`.
+ */
+export function exportJson(
+	snapshot: ListSnapshot,
+	workflow: Iterable<WorkflowStatus> = []
+): string {
+	return JSON.stringify(
+		{
+			format: checklistFormat,
+			version: checklistFormatVersion,
+			title: snapshot.title,
+			items: toImportedItems(snapshot.items, [...workflow]),
+		},
+		null,
+		2
+	);
+}
+
+/**
+ * GitHub-style task list under the title as a heading; subtasks are indented two spaces. Line
+ * breaks in titles and item text become spaces, and a leading `[`, `#` or `\` is escaped so
+ * `parseMarkdown` reads the text back as it was.
+ */
+export function exportMarkdown(snapshot: ListSnapshot): string {
+	const lines = [`# ${toMarkdownText(snapshot.title)}`, ""];
+	const write = (items: ImportedItem[], depth: number) => {
+		for (const item of items) {
+			lines.push(
+				`${"  ".repeat(depth)}- [${item.done ? "x" : " "}] ${toMarkdownText(item.text)}`
+			);
+			write(item.children, depth + 1);
+		}
+	};
+	write(toImportedItems(snapshot.items, []), 0);
+	return `${lines.join("\n")}\n`;
+}
+
+const csvColumns = ["text", "done", "status", "priority", "due", "author", "level"] as const;
+
+/**
+ * One row per item in document order, with the columns `parseCsv` reads. `level` is 0 for
+ * top-level items, 1 for their subtasks and so on; `status` needs the document `workflow`.
+ */
+export function exportCsv(snapshot: ListSnapshot, workflow: Iterable<WorkflowStatus> = []): string {
+	const rows: string[][] = [[...csvColumns]];
+	const write = (items: ImportedItem[], level: number) => {
+		for (const item of items) {
+			rows.push([
+				item.text,
+				String(item.done),
+				item.status ?? "",
+				item.priority ?? "",
+				item.dueDate ?? "",
+				item.author ?? "",
+				String(level),
+			]);
+			write(item.children, level + 1);
+		}
+	};
+	write(toImportedItems(snapshot.items, [...workflow]), 0);
+	return `${rows.map((row) => row.map(toCsvField).join(",")).join("\r\n")}\r\n`;
+}
+
+/**
+ * Parses a file in the given format.
+ * @throws With a message for the user when the text is not a checklist in that format.
+ */
+export function parseImport(text: string, format: ImportFormat): ImportedList {
+	const list =
+		format === "json"
+			? parseJson(text)
+			: format === "csv"
+				? parseCsv(text)
+				: parseMarkdown(text);
+	if (list.items.length === 0) {
+		throw new Error("The file has no checklist items");
+	}
+	return list;
+}
+
+const importedItemSchema: z.ZodType<ImportedItem> = z.lazy(() =>
+	z.object({
+		text: z.string(),
+		done: z.boolean(),
+		status: z.string().optional(),
+		priority: z.enum(priorities).optional(),
+		dueDate: z.string().refine(isIsoDate).optional(),
+		author: z.string().optional(),
+		children: z.array(importedItemSchema),
+	})
+);
+
+const checklistSchema = z.object({
+	format: z.literal(checklistFormat),
+	version: z.number(),
+	title: z.string().optional(),
+	items: z.array(importedItemSchema),
+});
+
+export function parseJson(text: string): ImportedList {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error("The file is not valid JSON");
+	}
+	const parsed = checklistSchema.safeParse(data);
+	if (!parsed.success) {
+		throw new Error("The JSON file is not a checklist export");
+	}
+	if (parsed.data.version > checklistFormatVersion) {
+		throw new Error(
+			`The file was exported by a newer version (format ${parsed.data.version}); update the app to import it`
+		);
+	}
+	return { title: parsed.data.title, items: parsed.data.items };
+}
+
+const taskPattern = /^(\s*)[-*+]\s+(?:\[([ xX])\]\s+)?(.*\S)\s*$/;
+const headingPattern = /^#{1,6}\s+(.*\S)\s*$/;
+
+/** `text` on one line, escaped where Markdown would read it as a checkbox or a heading. */
+function toMarkdownText(text: string): string {
+	return text.replace(/\s*[\r\n]+\s*/g, " ").replace(/^[[#\\]/, "\\$&");
+}
+
+/** Undoes the escape `toMarkdownText` adds. */
+function fromMarkdownText(text: string): string {
+	return text.replace(/^\\([[#\\])/, "$1");
+}
+
+/**
+ * Reads a Markdown task list. Bullets (`-`, `*` or `+`) become items, checked when marked `[x]`;
+ * a bullet indented deeper than the one before it becomes its subtask. The first heading is the
+ * title. Other lines are ignored.
+ */
+export function parseMarkdown(text: string): ImportedList {
+	const list: ImportedList = { items: [] };
+	const stack: { indent: number; item: ImportedItem }[] = [];
+	for (const line of text.split(/\r?\n/)) {
+		const heading = headingPattern.exec(line);
+		if (heading) {
+			list.title ??= fromMarkdownText(heading[1]);
+			continue;
+		}
+		const task = taskPattern.exec(line.replace(/\t/g, "    "));
+		if (!task) {
+			continue;
+		}
+		const indent = task[1].length;
+		const item: ImportedItem = {
+			text: fromMarkdownText(task[3]),
+			done: task[2] === "x" || task[2] === "X",
+			children: [],
+		};
+		while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+			stack.pop();
+		}
+		(stack.length > 0 ? stack[stack.length - 1].item.children : list.items).push(item);
+		stack.push({ indent, item });
+	}
+	return list;
+}
+
+const truthy = new Set(["true", "yes", "y", "x", "1", "done", "✓"]);
+
+/**
+ * Reads a CSV file with a header row. Only a `text` column is required; `done`, `status`,
+ * `priority`, `due` (`YYYY-MM-DD`), `author` and `level` (nesting depth) are read when present,
+ * in any order and case. Blank rows are skipped.
+ */
+export function parseCsv(text: string): ImportedList {
+	const [header, ...rows] = parseCsvRows(text);
+	const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+	const column = (row: string[], name: string) => {
+		const index = columns.indexOf(name);
+		return index === -1 ? "" : (row[index] ?? "").trim();
+	};
+	if (!columns.includes("text")) {
+		throw new Error('The CSV file needs a "text" column');
+	}
+	const list: ImportedList = { items: [] };
+	const parents: ImportedItem[] = [];
+	for (const row of rows) {
+		const itemText = column(row, "text");
+		if (!itemText) {
+			continue;
+		}
+		const priority = column(row, "priority").toLowerCase();
+		const due = column(row, "due");
+		const item: ImportedItem = {
+			text: itemText,
+			done: truthy.has(column(row, "done").toLowerCase()),
+			status: column(row, "status") || undefined,
+			priority: priorities.find((candidate) => candidate === priority),
+			dueDate: isIsoDate(due) ? due : undefined,
+			author: column(row, "author") || undefined,
+			children: [],
+		};
+		// A row can nest at most one level below the row before it.
+		const level = Math.min(Number.parseInt(column(row, "level"), 10) || 0, parents.length);
+		parents.length = level;
+		(level === 0 ? list.items : parents[level - 1].children).push(item);
+		parents.push(item);
+	}
+	return list;
+}
+
+/** Splits CSV into rows of fields, handling quoted fields with commas, quotes and line breaks. */
+function parseCsvRows(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+	for (let i = 0; i < text.length; i++) {
+		const character = text[i];
+		if (quoted) {
+			if (character === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (character === '"') {
+				quoted = false;
+			} else {
+				field += character;
+			}
+		} else if (character === '"') {
+			quoted = true;
+		} else if (character === ",") {
+			row.push(fromCsvField(field));
+			field = "";
+		} else if (character === "\n" || character === "\r") {
+			if (character === "\r" && text[i + 1] === "\n") {
+				i++;
+			}
+			row.push(fromCsvField(field));
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += character;
+		}
+	}
+	if (field !== "" || row.length > 0) {
+		row.push(fromCsvField(field));
+		rows.push(row);
+	}
+	return rows;
+}
+
+// Spreadsheets run cells starting with these as formulas; exports prefix them with a quote.
+const formulaPrefix = /^[=+\-@]/;
+
+function toCsvField(value: string): string {
+	const safe = formulaPrefix.test(value) ? `'${value}` : value;
+	return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function fromCsvField(value: string): string {
+	return value.startsWith("'") && formulaPrefix.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+/** How many items (subtasks included) the imported list holds. */
+export function countImportedItems(items: readonly ImportedItem[]): number {
+	return items.reduce((count, item) => count + 1 + countImportedItems(item.children), 0);
+}
+
+/**
+ * Appends the imported items, with their subtasks, to the end of a list in one transaction.
+ * Statuses are matched by name (ignoring case) and otherwise follow `done`; every item is
+ * authored by the importer.
+ * @returns How many items were added, or 0 if the list does not exist.
+ */
+export function importItems(
+	tree: StarterTreeView,
+	listId: string,
+	items: readonly ImportedItem[],
+	author?: string
+): number {
+	const root = tree.root;
+	return runLoggedTransaction(root, () => {
+		const list = root.lists?.find((candidate) => candidate.id === listId);
+		if (!list) {
+			return 0;
+		}
+		const workflow = [...(root.workflow ?? [])];
+		const statusFor = (item: ImportedItem) =>
+			workflow.find(
+				(status) => status.name.toLowerCase() === item.status?.trim().toLowerCase()
+			) ?? workflow.find((status) => status.countsAsComplete === item.done);
+		const toItem = (source: ImportedItem): Item => {
+			const status = statusFor(source);
+			return createItem({
+				text: source.text,
+				done: status?.countsAsComplete ?? source.done,
+				statusId: status?.id,
+				author,
+				priority: source.priority,
+				dueDate: source.dueDate,
+				children: source.children.length > 0 ? source.children.map(toItem) : undefined,
+			});
+		};
+		list.items.insertAtEnd(...items.map(toItem));
+		const count = countImportedItems(items);
+		recordActivity(root, author, {
+			operation: "importItems",
+			subject: list.title,
+			after: `${count} items`,
+		});
+		return count;
+	});
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { independentView } from "@fluidframework/tree/alpha";
+import {
+	getDefaultStarterContent,
+	starterTreeConfiguration,
+	StarterTreeView,
+} from "../schema/starterSchema.js";
+import { hasCriteria, ItemQuery, matchText, queryItems } from "./itemQuery.js";
+import {
+	addItem,
+	addItemTag,
+	addTag,
+	flattenItems,
+	removeItem,
+	setItemDueDate,
+	setItemStatus,
+} from "./sharedTreeClient.js";
+
+function createTree(texts: string[]): StarterTreeView {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	for (const text of texts) {
+		addItem(tree, listId(tree), text, "seed");
+	}
+	return tree;
+}
+
+function listId(tree: StarterTreeView): string {
+	return tree.root.lists?.[0]?.id ?? "";
+}
+
+function idOf(tree: StarterTreeView, text: string): string {
+	const item = flattenItems(tree.root.lists![0].items).find(
+		(candidate) => candidate.text === text
+	);
+	if (!item) {
+		throw new Error(`No item with text ${text}`);
+	}
+	return item.id;
+}
+
+function search(tree: StarterTreeView, query: ItemQuery): string[] {
+	return queryItems(tree.root, tree.root.lists![0], query).map((match) => match.item.text);
+}
+
+describe("itemQuery", () => {
+	it("matches text ignoring case and accents, with ranges in the original text", () => {
+		expect(matchText("Crème Brûlée", "creme brulee")?.ranges).toEqual([
+			{ start: 0, end: 5 },
+			{ start: 6, end: 12 },
+		]);
+		expect(matchText("Call the BANK", "bank")?.ranges).toEqual([{ start: 9, end: 13 }]);
+		expect(matchText("Call the bank", "bank dog")).toBeUndefined();
+	});
+
+	it("tolerates a typo and matches abbreviations", () => {
+		expect(matchText("Buy groceries", "grocereis")).toBeUndefined();
+		expect(matchText("Buy groceries", "grocries")?.ranges).toEqual([{ start: 4, end: 13 }]);
+		expect(matchText("Buy groceries", "grcr")?.ranges).toEqual([
+			{ start: 4, end: 6 },
+			{ start: 7, end: 8 },
+			{ start: 9, end: 10 },
+		]);
+		expect(matchText("Buy groceries", "gs")).toBeUndefined();
+	});
+
+	it("ranks exact and word-start matches first, keeping document order on ties", () => {
+		const tree = createTree(["Plan the trip", "Unplanned", "Plan B", "Pln budget"]);
+		expect(search(tree, { text: "plan" })).toEqual([
+			"Plan the trip",
+			"Plan B",
+			"Unplanned",
+			"Pln budget",
+		]);
+		expect(search(tree, { text: "plan", sort: "document" })).toEqual([
+			"Plan the trip",
+			"Unplanned",
+			"Plan B",
+			"Pln budget",
+		]);
+		expect(search(tree, { text: "plan", sort: "text" })[0]).toBe("Plan B");
+	});
+
+	it("filters by status, author, due date, tags and trash", () => {
+		const tree = createTree(["a", "b", "c", "d"]);
+		addItem(tree, listId(tree), "a1", "ana", idOf(tree, "a"));
+		setItemStatus(tree, idOf(tree, "b"), "in-progress", "ana");
+		setItemDueDate(tree, idOf(tree, "b"), "2026-03-10");
+		setItemDueDate(tree, idOf(tree, "c"), "2026-04-01");
+		const tagId = addTag(tree, "home", "#f00") ?? "";
+		addItemTag(tree, idOf(tree, "c"), tagId);
+		addItemTag(tree, idOf(tree, "d"), tagId);
+		removeItem(tree, idOf(tree, "d"));
+
+		expect(search(tree, {})).toEqual(["a", "a1", "b", "c"]);
+		expect(search(tree, { statusIds: ["in-progress"] })).toEqual(["b"]);
+		expect(search(tree, { authors: ["ana"] })).toEqual(["a1", "b"]);
+		expect(search(tree, { due: { to: "2026-03-31" } })).toEqual(["b"]);
+		expect(search(tree, { due: { from: "2026-03-10", to: "2026-04-01" } })).toEqual(["b", "c"]);
+		expect(search(tree, { tagIds: [tagId] })).toEqual(["c"]);
+		expect(search(tree, { tagIds: [tagId], authors: ["ana"] })).toEqual([]);
+	});
+
+	it("knows when a query filters nothing", () => {
+		expect(hasCriteria({ text: "  ", tagIds: [], due: {} })).toBe(false);
+		expect(hasCriteria({ due: { from: "2026-01-01" } })).toBe(true);
+	});
+});
@@ -0,0 +1,227 @@
+import type { AppModel, Checklist, Item, WorkflowStatus } from "../schema/starterSchema.js";
+import {
+	compareItems,
+	flattenItems,
+	getItemStatus,
+	hasTags,
+	ItemSortKey,
+} from "./sharedTreeClient.js";
+import { editDistance, foldText } from "../utils/text.js";
+
+/** A span of an item's text, `start` inclusive and `end` exclusive, for highlighting. */
+export type TextRange = { start: number; end: number };
+
+/** Inclusive bounds; either end may be left open. */
+export type Range<T> = { from?: T; to?: T };
+
+export type ItemQuerySort = "document" | "relevance" | ItemSortKey;
+
+/**
+ * What to look for in a list. Every criterion that is set must match; within one criterion any of
+ * the given values may (tags follow `tagMatch`).
+ */
+export type ItemQuery = {
+	/** Words that must all appear in the item's text; see `matchText`. */
+	text?: string;
+	statusIds?: readonly string[];
+	authors?: readonly string[];
+	/** Due dates as `YYYY-MM-DD`; items without a due date never match. */
+	due?: Range<string>;
+	/** Last update as a timestamp; items never updated never match. */
+	updated?: Range<number>;
+	tagIds?: readonly string[];
+	tagMatch?: "any" | "all";
+	/** Defaults to relevance when searching by text and document order otherwise. */
+	sort?: ItemQuerySort;
+};
+
+export type ItemQueryMatch = {
+	item: Item;
+	/** Higher is better; 0 when the query has no text. */
+	score: number;
+	/** Where the query's words were found in the item's text. */
+	ranges: TextRange[];
+};
+
+/** Whether the query filters anything at all. */
+export function hasCriteria(query: ItemQuery): boolean {
+	return (
+		(query.text ?? "").trim() !== "" ||
+		(query.statusIds?.length ?? 0) > 0 ||
+		(query.authors?.length ?? 0) > 0 ||
+		query.due?.from !== undefined ||
+		query.due?.to !== undefined ||
+		query.updated?.from !== undefined ||
+		query.updated?.to !== undefined ||
+		(query.tagIds?.length ?? 0) > 0
+	);
+}
+
+/**
+ * The list's live items, subtasks included, that match the query. Results hold the live nodes and
+ * are in a stable order: ties in the chosen sort keep document order.
+ */
+export function queryItems(root: AppModel, list: Checklist, query: ItemQuery): ItemQueryMatch[] {
+	const workflow = [...(root.workflow ?? [])];
+	const results: ItemQueryMatch[] = [];
+	for (const item of flattenItems(list.items)) {
+		if (!matchesFields(item, query, workflow)) {
+			continue;
+		}
+		const text = (query.text ?? "").trim();
+		if (text === "") {
+			results.push({ item, score: 0, ranges: [] });
+			continue;
+		}
+		const match = matchText(item.text, text);
+		if (match) {
+			results.push({ item, ...match });
+		}
+	}
+	const sort = query.sort ?? ((query.text ?? "").trim() === "" ? "document" : "relevance");
+	if (sort === "relevance") {
+		results.sort((a, b) => b.score - a.score);
+	} else if (sort !== "document") {
+		const compare = compareItems(sort);
+		results.sort((a, b) => compare(a.item, b.item));
+	}
+	return results;
+}
+
+/**
+ * Matches each whitespace-separated word of `query` against `text`, ignoring case and accents. A
+ * word matches where it appears as is, or failing that (for words of three or more letters) as a
+ * word of the text one typo away, or as an abbreviation whose letters appear in order close
+ * together (`grcr` finds "groceries"). Exact and word-start matches score highest.
+ * @returns The score and matched ranges, or undefined unless every word matches.
+ */
+export function matchText(
+	text: string,
+	query: string
+): { score: number; ranges: TextRange[] } | undefined {
+	const { folded, offsets } = foldText(text);
+	const positions: number[] = [];
+	let score = 0;
+	for (const term of foldText(query).folded.split(/\s+/).filter(Boolean)) {
+		const match = matchTerm(folded, term);
+		if (!match) {
+			return undefined;
+		}
+		score += match.score;
+		positions.push(...match.positions);
+	}
+	return { score, ranges: toRanges(positions, offsets, text) };
+}
+
+function matchTerm(
+	folded: string,
+	term: string
+): { score: number; positions: number[] } | undefined {
+	const index = folded.indexOf(term);
+	if (index !== -1) {
+		const wordStart = index === 0 || !isWordCharacter(folded[index - 1]);
+		return { score: term.length * (wordStart ? 3 : 2), positions: span(index, term.length) };
+	}
+	if (term.length < 3) {
+		return undefined;
+	}
+	for (const word of folded.matchAll(/[\p{L}\p{N}]+/gu)) {
+		if (Math.abs(word[0].length - term.length) <= 1 && editDistance(word[0], term) <= 1) {
+			return { score: term.length, positions: span(word.index, word[0].length) };
+		}
+	}
+	return matchAbbreviation(folded, term);
+}
+
+/** The letters of `term` in order from the start of a word, within three times its length. */
+function matchAbbreviation(
+	folded: string,
+	term: string
+): { score: number; positions: number[] } | undefined {
+	for (
+		let start = folded.indexOf(term[0]);
+		start !== -1;
+		start = folded.indexOf(term[0], start + 1)
+	) {
+		if (start > 0 && isWordCharacter(folded[start - 1])) {
+			continue;
+		}
+		const positions = [start];
+		for (const character of term.slice(1)) {
+			const next = folded.indexOf(character, positions[positions.length - 1] + 1);
+			if (next === -1) {
+				break;
+			}
+			positions.push(next);
+		}
+		if (
+			positions.length === term.length &&
+			positions[positions.length - 1] - start < term.length * 3
+		) {
+			return { score: term.length / 2, positions };
+		}
+	}
+	return undefined;
+}
+
+function isWordCharacter(character: string): boolean {
+	return /[\p{L}\p{N}]/u.test(character);
+}
+
+function span(start: number, length: number): number[] {
+	return Array.from({ length }, (_, i) => start + i);
+}
+
+/** Merges matched positions in the folded text into ranges of the original text. */
+function toRanges(positions: number[], offsets: number[], text: string): TextRange[] {
+	const ranges: TextRange[] = [];
+	for (const position of [...new Set(positions)].sort((a, b) => a - b)) {
+		const start = offsets[position];
+		// A character can fold to several (or be a surrogate pair); it ends where the next begins.
+		let next = position + 1;
+		while (offsets[next] === start) {
+			next++;
+		}
+		const end = offsets[next] ?? text.length;
+		const last = ranges[ranges.length - 1];
+		if (last && last.end >= start) {
+			last.end = Math.max(last.end, end);
+		} else {
+			ranges.push({ start, end });
+		}
+	}
+	return ranges;
+}
+
+function matchesFields(item: Item, query: ItemQuery, workflow: readonly WorkflowStatus[]): boolean {
+	if (query.statusIds?.length) {
+		const status = getItemStatus(workflow, item);
+		if (!status || !query.statusIds.includes(status.id)) {
+			return false;
+		}
+	}
+	if (query.authors?.length && !query.authors.includes(item.author ?? "")) {
+		return false;
+	}
+	if (query.due && !inRange(item.dueDate, query.due)) {
+		return false;
+	}
+	if (query.updated && !inRange(item.updatedAt, query.updated)) {
+		return false;
+	}
+	if (query.tagIds?.length && !hasTags(item, query.tagIds, query.tagMatch)) {
+		return false;
+	}
+	return true;
+}
+
+function inRange<T extends string | number>(value: T | undefined, range: Range<T>): boolean {
+	if (range.from === undefined && range.to === undefined) {
+		return true;
+	}
+	return (
+		value !== undefined &&
+		(range.from === undefined || value >= range.from) &&
+		(range.to === undefined || value <= range.to)
+	);
+}
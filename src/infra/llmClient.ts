@@ -1,14 +1,16 @@
-import { Item, StarterTreeView } from "../schema/starterSchema.js";
-import { replaceItems, updateTitle } from "./sharedTreeClient.js";
+import { StarterTreeView } from "../schema/starterSchema.js";
+import { createItem, renameList, replaceItems, statusForDone } from "./sharedTreeClient.js";
+import type { ItemSnapshot } from "./snapshot.js";
 
 type SemanticSuggestion = {
 	title?: string;
-	items?: Array<Pick<Item, "id" | "text" | "done" | "author">>;
+	items?: Array<Pick<ItemSnapshot, "id" | "text" | "done" | "author">>;
 };
 
+/** Plain data from `getSnapshot`, so a slow request never holds on to live tree nodes. */
 type SuggestEditRequest = {
 	title: string;
-	items: ReadonlyArray<Item>;
+	items: ReadonlyArray<ItemSnapshot>;
 };
 
 export interface LlmClient {
@@ -91,26 +93,30 @@ export function createLlmClient(): LlmClient {
 
 export async function applySemanticSuggestion(
 	tree: StarterTreeView,
-	suggestion: SemanticSuggestion
+	listId: string,
+	suggestion: SemanticSuggestion,
+	author?: string
 ): Promise<void> {
 	if (!suggestion.title && !suggestion.items) {
 		return;
 	}
 
 	if (suggestion.title) {
-		updateTitle(tree, suggestion.title);
+		renameList(tree, listId, suggestion.title, author);
 	}
 
 	if (suggestion.items) {
-		const nextItems = suggestion.items.map(
-			(item) =>
-				new Item({
-					id: item.id ?? crypto.randomUUID(),
-					text: item.text,
-					done: item.done ?? false,
-					author: item.author,
-				})
-		);
-		replaceItems(tree, nextItems);
+		const workflow = tree.root.workflow ?? [];
+		const nextItems = suggestion.items.map((item) => {
+			const done = item.done ?? false;
+			return createItem({
+				id: item.id,
+				text: item.text,
+				done,
+				statusId: statusForDone(workflow, done)?.id,
+				author: item.author,
+			});
+		});
+		replaceItems(tree, listId, nextItems, author);
 	}
 }
@@ -0,0 +1,22 @@
+import { Tree } from "fluid-framework";
+import { AppModel, Items } from "../schema/starterSchema.js";
+
+/**
+ * Runs a data migration that seeds a field older documents lack, so that when several clients
+ * migrate concurrently only the first one's seed is applied. Assigning the field from each client
+ * would let the last writer replace the first one's value, along with anything added to it since.
+ *
+ * The transaction swaps the root's legacy `items` array, which `migrateLegacyList` has emptied,
+ * for a new empty one and requires the array it saw to still be in the document, like
+ * `migrateLegacyList` itself: a concurrent run finds that array gone and is dropped.
+ */
+export function runSeedingMigration(root: AppModel, seed: () => void): void {
+	const claimed = root.items;
+	Tree.runTransaction(root, () => {
+		seed();
+		// Legacy items still waiting for `migrateLegacyList` must not be dropped.
+		if (claimed.length === 0) {
+			root.items = new Items([]);
+		}
+	}, [{ type: "nodeInDocument", node: claimed }]);
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { independentView } from "@fluidframework/tree/alpha";
+import {
+	getDefaultStarterContent,
+	starterTreeConfiguration,
+	StarterTreeView,
+} from "../schema/starterSchema.js";
+import { getActivity } from "./activityLog.js";
+import { createChangeFeed } from "./changeFeed.js";
+import { compactOfflineOps, OfflineOp, replayOfflineOps, toOfflineOps } from "./offlineQueue.js";
+import {
+	addItem,
+	editItemText,
+	flattenItems,
+	getRecurrenceRule,
+	removeItem,
+	renameList,
+	setItemDueDate,
+	setItemRecurrence,
+	toggleItem,
+} from "./sharedTreeClient.js";
+import { fromSnapshot, getAttachmentBlobs, toSnapshot } from "./snapshot.js";
+
+function createTree(): StarterTreeView {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	return tree;
+}
+
+/** A second, independent copy of the document, as another client would hold it. */
+function copyOf(tree: StarterTreeView): StarterTreeView {
+	const copy = independentView(starterTreeConfiguration, {});
+	copy.initialize(fromSnapshot(toSnapshot(tree.root), getAttachmentBlobs(tree.root)));
+	return copy;
+}
+
+function listId(tree: StarterTreeView): string {
+	return tree.root.lists?.[0]?.id ?? "";
+}
+
+function outline(tree: StarterTreeView): string[] {
+	return flattenItems(tree.root.lists![0].items).map(
+		(item) => `${item.text}${item.done ? " ✓" : ""}`
+	);
+}
+
+/** Edits `tree` like an offline client and returns the operations its change feed queued. */
+function recordOps(tree: StarterTreeView, edit: () => void): OfflineOp[] {
+	const changes = createChangeFeed(tree, () => {});
+	const ops: OfflineOp[] = [];
+	changes.events.on("changed", (batch) => ops.push(...toOfflineOps(batch)));
+	edit();
+	changes.flush();
+	changes.dispose();
+	return compactOfflineOps(ops);
+}
+
+describe("offlineQueue", () => {
+	it("replays offline edits onto a document that changed meanwhile", () => {
+		const live = createTree();
+		const milk = addItem(live, listId(live), "milk") ?? "";
+		const eggs = addItem(live, listId(live), "eggs") ?? "";
+		const offline = copyOf(live);
+
+		const ops = recordOps(offline, () => {
+			const bread = addItem(offline, listId(offline), "bread", "ana") ?? "";
+			addItem(offline, listId(offline), "rye", "ana", bread);
+			editItemText(offline, milk, "oat milk");
+			toggleItem(offline, milk);
+			removeItem(offline, eggs);
+			renameList(offline, listId(offline), "Groceries");
+		});
+		addItem(live, listId(live), "tea", "ben");
+		editItemText(live, eggs, "6 eggs", "ben");
+
+		expect(replayOfflineOps(live, ops, "ana")).toHaveLength(6);
+		expect(live.root.lists![0].title).toBe("Groceries");
+		expect(outline(live)).toEqual(["oat milk ✓", "tea", "bread", "rye"]);
+		expect(getActivity(live.root)[0]).toMatchObject({ actor: "ana" });
+
+		// Replaying again, e.g. after a reload before the service acknowledged the first replay,
+		// changes nothing.
+		expect(replayOfflineOps(live, ops, "ana")).toHaveLength(0);
+		expect(outline(live)).toEqual(["oat milk ✓", "tea", "bread", "rye"]);
+	});
+
+	it("leaves items a collaborator edited after the operation was queued", () => {
+		const live = createTree();
+		const milk = addItem(live, listId(live), "milk") ?? "";
+		const eggs = addItem(live, listId(live), "eggs") ?? "";
+		for (const item of live.root.lists![0].items) {
+			// Older than any edit below, however fast the test runs.
+			item.updatedAt = 0;
+		}
+		const offline = copyOf(live);
+
+		const ops = recordOps(offline, () => {
+			editItemText(offline, milk, "oat milk");
+			toggleItem(offline, milk);
+			editItemText(offline, eggs, "6 eggs");
+			toggleItem(offline, eggs);
+		});
+		editItemText(live, milk, "almond milk", "ben");
+
+		expect(replayOfflineOps(live, ops, "ana")).toEqual(
+			ops.filter((op) => "itemId" in op && op.itemId === eggs)
+		);
+		expect(outline(live)).toEqual(["almond milk", "6 eggs ✓"]);
+	});
+
+	it("completes a recurring item offline without spawning its next occurrence twice", () => {
+		const live = createTree();
+		const standup = addItem(live, listId(live), "standup") ?? "";
+		addItem(live, listId(live), "agenda", undefined, standup);
+		setItemDueDate(live, standup, "2999-01-05");
+		setItemRecurrence(live, standup, { frequency: "daily" });
+		const offline = copyOf(live);
+
+		const ops = recordOps(offline, () => toggleItem(offline, standup));
+		expect(ops).toEqual([
+			{ type: "setDone", itemId: standup, done: true, baseUpdatedAt: expect.any(Number) },
+		]);
+
+		expect(replayOfflineOps(live, ops, "ana")).toHaveLength(1);
+		expect(outline(live)).toEqual(["standup ✓", "agenda", "standup", "agenda"]);
+		const next = live.root.lists![0].items[1];
+		expect(next.dueDate).toBe("2999-01-06");
+		expect(getRecurrenceRule(next)).toEqual({ frequency: "daily" });
+	});
+
+	it("skips operations on items and lists that are gone", () => {
+		const tree = createTree();
+		expect(
+			replayOfflineOps(tree, [
+				{ type: "addItem", listId: "gone", itemId: "a", text: "a" },
+				{ type: "setText", itemId: "missing", text: "b" },
+				{ type: "setDone", itemId: "missing", done: true },
+				{ type: "removeItem", itemId: "missing" },
+				{ type: "renameList", listId: "gone", title: "c" },
+			])
+		).toEqual([]);
+	});
+
+	it("keeps only the latest value of each field", () => {
+		expect(
+			compactOfflineOps([
+				{ type: "setText", itemId: "a", text: "1" },
+				{ type: "setDone", itemId: "a", done: true },
+				{ type: "setText", itemId: "a", text: "2" },
+				{ type: "setDone", itemId: "a", done: false },
+				{ type: "removeItem", itemId: "a" },
+			])
+		).toEqual([
+			{ type: "setText", itemId: "a", text: "2" },
+			{ type: "setDone", itemId: "a", done: false },
+			{ type: "removeItem", itemId: "a" },
+		]);
+	});
+});
@@ -0,0 +1,228 @@
+import { Item, Items, StarterTreeView } from "../schema/starterSchema.js";
+import { recordActivity, runLoggedTransaction } from "./activityLog.js";
+import type { DomainEvent } from "./changeFeed.js";
+import {
+	createItem,
+	editItemText,
+	flattenItems,
+	isTrashed,
+	removeItem,
+	renameList,
+	restoreItem,
+	toggleItem,
+} from "./sharedTreeClient.js";
+
+/**
+ * A local edit that may not have reached the service yet, as plain data so it can be kept in
+ * IndexedDB across reloads. Each operation states the result rather than the step (`setDone`,
+ * not "toggle"), so replaying one that did get through after all changes nothing.
+ *
+ * Only these edits can be queued. Others (due dates, tags, moves…) stay in the live container
+ * until the service acknowledges them and are lost if the page closes first; `OfflineSync`
+ * counts them separately.
+ *
+ * `baseUpdatedAt` is the item's `updatedAt` before this client first edited it, so a replay can
+ * tell whether a collaborator changed the item meanwhile.
+ */
+export type OfflineOp =
+	| { type: "addItem"; listId: string; itemId: string; parentId?: string; text: string }
+	| { type: "removeItem"; itemId: string }
+	| { type: "setDone"; itemId: string; done: boolean; baseUpdatedAt?: number }
+	| { type: "setText"; itemId: string; text: string; baseUpdatedAt?: number }
+	| { type: "renameList"; listId: string; title: string };
+
+/**
+ * The operations behind this client's own changes in a change feed batch. Next occurrences of
+ * recurring items, and their subtasks, are left out: replaying the completion that spawned them
+ * spawns them again.
+ */
+export function toOfflineOps(events: readonly DomainEvent[]): OfflineOp[] {
+	const spawned = new Set<string>();
+	return events
+		.filter((event) => {
+			if (event.origin !== "local") {
+				return false;
+			}
+			if (
+				event.type === "itemAdded" &&
+				(event.nextOccurrenceOf !== undefined ||
+					(event.parentId !== undefined && spawned.has(event.parentId)))
+			) {
+				spawned.add(event.itemId);
+				return false;
+			}
+			return true;
+		})
+		.map((event): OfflineOp => {
+			switch (event.type) {
+				case "itemAdded":
+					return {
+						type: "addItem",
+						listId: event.listId,
+						itemId: event.itemId,
+						parentId: event.parentId,
+						text: event.text,
+					};
+				case "itemRemoved":
+					return { type: "removeItem", itemId: event.itemId };
+				case "itemToggled":
+					return {
+						type: "setDone",
+						itemId: event.itemId,
+						done: event.done,
+						baseUpdatedAt: event.previousUpdatedAt,
+					};
+				case "itemTextChanged":
+					return {
+						type: "setText",
+						itemId: event.itemId,
+						text: event.after,
+						baseUpdatedAt: event.previousUpdatedAt,
+					};
+				case "titleChanged":
+					return { type: "renameList", listId: event.listId, title: event.after };
+			}
+		});
+}
+
+/**
+ * Drops operations that a later one overwrites (an older text of the same item, say). Every
+ * operation on an item keeps the `baseUpdatedAt` of the first one: the later ones saw this
+ * client's own edits, which the service may never have received.
+ */
+export function compactOfflineOps(ops: readonly OfflineOp[]): OfflineOp[] {
+	const bases = new Map<string, number | undefined>();
+	const rebased = ops.map((op) => {
+		if (op.type !== "setDone" && op.type !== "setText") {
+			return op;
+		}
+		if (!bases.has(op.itemId)) {
+			bases.set(op.itemId, op.baseUpdatedAt);
+			return op;
+		}
+		const baseUpdatedAt = bases.get(op.itemId);
+		return op.baseUpdatedAt === baseUpdatedAt ? op : { ...op, baseUpdatedAt };
+	});
+	const seen = new Set<string>();
+	const kept: OfflineOp[] = [];
+	for (let i = rebased.length - 1; i >= 0; i--) {
+		const op = rebased[i];
+		const key =
+			op.type === "setDone" || op.type === "setText"
+				? `${op.type}:${op.itemId}`
+				: op.type === "renameList"
+					? `${op.type}:${op.listId}`
+					: undefined;
+		if (key !== undefined && seen.has(key)) {
+			continue;
+		}
+		if (key !== undefined) {
+			seen.add(key);
+		}
+		kept.push(op);
+	}
+	return kept.reverse();
+}
+
+/**
+ * Applies queued operations to the document, in order, as ordinary edits that merge with
+ * whatever collaborators did meanwhile. Operations on items or lists that no longer exist are
+ * skipped, and so are those the document already reflects. So are text and completion changes
+ * to an item a collaborator edited after the operation was queued: the collaborator's change
+ * is newer and wins.
+ * @returns The operations that changed the document.
+ */
+export function replayOfflineOps(
+	tree: StarterTreeView,
+	ops: readonly OfflineOp[],
+	author?: string
+): OfflineOp[] {
+	const root = tree.root;
+	const findItem = (id: string) =>
+		(root.lists ?? [])
+			.flatMap((list) => flattenItems(list.items, { includeTrashed: true }))
+			.find((item) => item.id === id);
+	// Items this replay added or edited: their `updatedAt` is now this replay's own.
+	const replayed = new Set<string>();
+	const changedSince = (item: Item, op: { baseUpdatedAt?: number }) =>
+		op.baseUpdatedAt !== undefined &&
+		!replayed.has(item.id) &&
+		item.updatedAt !== op.baseUpdatedAt;
+
+	const applied: OfflineOp[] = [];
+	for (const op of ops) {
+		const item = op.type === "renameList" ? undefined : findItem(op.itemId);
+		switch (op.type) {
+			case "addItem":
+				if (item) {
+					if (!isTrashed(item)) continue;
+					restoreItem(tree, item.id, author);
+				} else if (!insertItem(tree, op, author)) {
+					continue;
+				}
+				replayed.add(op.itemId);
+				break;
+			case "removeItem":
+				if (!item || isTrashed(item)) continue;
+				removeItem(tree, item.id, author);
+				break;
+			case "setDone":
+				if (!item || item.done === op.done || changedSince(item, op)) continue;
+				toggleItem(tree, item.id, author);
+				replayed.add(item.id);
+				break;
+			case "setText":
+				if (!item || item.text === op.text || changedSince(item, op)) continue;
+				editItemText(tree, item.id, op.text, author);
+				replayed.add(item.id);
+				break;
+			case "renameList": {
+				const list = root.lists?.find((candidate) => candidate.id === op.listId);
+				if (!list || list.title === op.title) continue;
+				renameList(tree, list.id, op.title, author);
+				break;
+			}
+		}
+		applied.push(op);
+	}
+	return applied;
+}
+
+/** Re-creates an item added offline under its original id, so later operations still find it. */
+function insertItem(
+	tree: StarterTreeView,
+	op: Extract<OfflineOp, { type: "addItem" }>,
+	author?: string
+): boolean {
+	const root = tree.root;
+	return runLoggedTransaction(root, () => {
+		const list = root.lists?.find((candidate) => candidate.id === op.listId);
+		if (!list) {
+			return false;
+		}
+		const item = createItem({
+			id: op.itemId,
+			text: op.text,
+			statusId: root.workflow?.find((status) => !status.countsAsComplete)?.id,
+			author,
+		});
+		const parent =
+			op.parentId === undefined
+				? undefined
+				: flattenItems(list.items, { includeTrashed: true }).find(
+						(candidate) => candidate.id === op.parentId
+					);
+		if (parent) {
+			parent.children ??= new Items([]);
+			parent.children.insertAtEnd(item);
+		} else {
+			list.items.insertAtEnd(item);
+		}
+		recordActivity(root, author, {
+			operation: "addItem",
+			itemId: item.id,
+			subject: item.text,
+		});
+		return true;
+	});
+}
@@ -0,0 +1,62 @@
+import type { OfflineOp } from "./offlineQueue.js";
+import type { DocumentSnapshot } from "./snapshot.js";
+
+/** What this browser remembers about a document between visits. */
+export type OfflineRecord = {
+	containerId: string;
+	/** The document as this client last saw it, its own unsent edits included. */
+	snapshot: DocumentSnapshot;
+	/** Local edits the service has not acknowledged yet, oldest first. */
+	pending: OfflineOp[];
+	savedAt: number;
+};
+
+/**
+ * Per-document offline copies in IndexedDB. Kept out of local storage because a snapshot of a
+ * large list easily outgrows its quota, and because writes here do not block the UI thread.
+ */
+export interface OfflineStore {
+	load(containerId: string): Promise<OfflineRecord | undefined>;
+	save(record: OfflineRecord): Promise<void>;
+}
+
+const databaseName = "fluid-checklist-offline";
+const storeName = "documents";
+
+export function createOfflineStore(factory: IDBFactory = window.indexedDB): OfflineStore {
+	let database: Promise<IDBDatabase> | undefined;
+
+	const open = () => {
+		database ??= new Promise<IDBDatabase>((resolve, reject) => {
+			const request = factory.open(databaseName, 1);
+			request.onupgradeneeded = () =>
+				request.result.createObjectStore(storeName, { keyPath: "containerId" });
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () =>
+				reject(request.error ?? new Error("Cannot open offline storage"));
+		});
+		return database;
+	};
+
+	const run = async <T>(
+		mode: IDBTransactionMode,
+		action: (store: IDBObjectStore) => IDBRequest<T>
+	): Promise<T> => {
+		const db = await open();
+		return new Promise<T>((resolve, reject) => {
+			const transaction = db.transaction(storeName, mode);
+			const request = action(transaction.objectStore(storeName));
+			transaction.oncomplete = () => resolve(request.result);
+			transaction.onerror = () =>
+				reject(transaction.error ?? new Error("Offline storage request failed"));
+		});
+	};
+
+	return {
+		load: async (containerId) =>
+			(await run("readonly", (store) => store.get(containerId))) as OfflineRecord | undefined,
+		save: async (record) => {
+			await run("readwrite", (store) => store.put(record));
+		},
+	};
+}
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import { ConnectionState, IFluidContainer } from "fluid-framework";
+import { independentView } from "@fluidframework/tree/alpha";
+import {
+	getDefaultStarterContent,
+	starterTreeConfiguration,
+	StarterTreeView,
+} from "../schema/starterSchema.js";
+import { createChangeFeed } from "./changeFeed.js";
+import type { OfflineRecord, OfflineStore } from "./offlineStore.js";
+import { createOfflineSync, openOfflineCopy } from "./offlineSync.js";
+import { addItem, setItemDueDate, toggleItem } from "./sharedTreeClient.js";
+import { toSnapshot } from "./snapshot.js";
+
+function createTree(): StarterTreeView {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	return tree;
+}
+
+function listId(tree: StarterTreeView): string {
+	return tree.root.lists?.[0]?.id ?? "";
+}
+
+function createMemoryStore() {
+	const records = new Map<string, OfflineRecord>();
+	const store: OfflineStore = {
+		load: async (containerId) => records.get(containerId),
+		save: async (record) => {
+			records.set(record.containerId, structuredClone(record));
+		},
+	};
+	return { store, records };
+}
+
+/** Just enough of a container to drive the dirty and connection state by hand. */
+function createFakeContainer() {
+	const listeners = new Map<string, Set<() => void>>();
+	const state = { isDirty: false, connectionState: ConnectionState.Connected };
+	const emit = (event: string) => listeners.get(event)?.forEach((listener) => listener());
+	const container = {
+		get isDirty() {
+			return state.isDirty;
+		},
+		get connectionState() {
+			return state.connectionState;
+		},
+		on(event: string, listener: () => void) {
+			listeners.set(event, (listeners.get(event) ?? new Set()).add(listener));
+		},
+		off(event: string, listener: () => void) {
+			listeners.get(event)?.delete(listener);
+		},
+	} as unknown as IFluidContainer;
+	return {
+		container,
+		disconnect() {
+			state.connectionState = ConnectionState.Disconnected;
+			emit("disconnected");
+		},
+		edit() {
+			state.isDirty = true;
+		},
+		acknowledge() {
+			state.isDirty = false;
+			emit("saved");
+		},
+	};
+}
+
+/** Lets the store's queued writes run. */
+const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+describe("offlineSync", () => {
+	it("queues edits the service has not acknowledged and keeps the copy current", async () => {
+		const tree = createTree();
+		const fake = createFakeContainer();
+		const changes = createChangeFeed(tree, () => {});
+		const { store, records } = createMemoryStore();
+		const offline = createOfflineSync({
+			container: fake.container,
+			containerId: "doc",
+			tree,
+			changes,
+			store,
+		});
+		let notified = 0;
+		offline.events.on("changed", () => notified++);
+
+		fake.disconnect();
+		expect(offline.isConnected()).toBe(false);
+		fake.edit();
+		const id = addItem(tree, listId(tree), "milk") ?? "";
+		toggleItem(tree, id);
+		changes.flush();
+		offline.flush();
+		await settle();
+
+		expect(offline.pendingCount()).toBe(2);
+		expect(records.get("doc")?.pending).toEqual([
+			{ type: "addItem", listId: listId(tree), itemId: id, text: "milk" },
+			{ type: "setDone", itemId: id, done: true, baseUpdatedAt: expect.any(Number) },
+		]);
+		expect(records.get("doc")?.snapshot).toEqual(toSnapshot(tree.root));
+
+		fake.acknowledge();
+		offline.flush();
+		await settle();
+		expect(offline.pendingCount()).toBe(0);
+		expect(records.get("doc")?.pending).toEqual([]);
+		expect(notified).toBe(3);
+		offline.dispose();
+	});
+
+	it("counts edits it cannot queue apart from the pending ones", () => {
+		const tree = createTree();
+		const fake = createFakeContainer();
+		const changes = createChangeFeed(tree, () => {});
+		const { store } = createMemoryStore();
+		const offline = createOfflineSync({
+			container: fake.container,
+			containerId: "doc",
+			tree,
+			changes,
+			store,
+		});
+		const id = addItem(tree, listId(tree), "milk") ?? "";
+		changes.flush();
+
+		fake.disconnect();
+		fake.edit();
+		setItemDueDate(tree, id, "2026-05-01");
+		changes.flush();
+		expect(offline.pendingCount()).toBe(0);
+		expect(offline.unqueuedCount()).toBe(1);
+
+		fake.acknowledge();
+		expect(offline.unqueuedCount()).toBe(0);
+		offline.dispose();
+	});
+
+	it("saves a burst of edits once", async () => {
+		const tree = createTree();
+		const fake = createFakeContainer();
+		const changes = createChangeFeed(tree, () => {});
+		const { store, records } = createMemoryStore();
+		let saves = 0;
+		const offline = createOfflineSync({
+			container: fake.container,
+			containerId: "doc",
+			tree,
+			changes,
+			store: {
+				...store,
+				save: (record) => {
+					saves++;
+					return store.save(record);
+				},
+			},
+		});
+
+		fake.edit();
+		for (const text of ["bread", "milk", "eggs"]) {
+			addItem(tree, listId(tree), text);
+			changes.flush();
+		}
+		await settle();
+		expect(saves).toBe(0);
+
+		offline.flush();
+		await settle();
+		expect(saves).toBe(1);
+		expect(records.get("doc")?.pending).toHaveLength(3);
+		offline.dispose();
+	});
+
+	it("opens the stored copy for editing and queues its edits", async () => {
+		const source = createTree();
+		const { store, records } = createMemoryStore();
+		const earlier = { type: "renameList", listId: listId(source), title: "Trip" } as const;
+		const copy = openOfflineCopy(
+			{
+				containerId: "doc",
+				snapshot: toSnapshot(source.root),
+				pending: [earlier],
+				savedAt: 0,
+			},
+			store,
+			() => {}
+		);
+
+		const id = addItem(copy.tree, listId(copy.tree), "passport") ?? "";
+		expect(copy.pending()).toEqual([
+			earlier,
+			{ type: "addItem", listId: listId(source), itemId: id, text: "passport" },
+		]);
+		copy.flush();
+		await settle();
+		expect(records.get("doc")?.pending).toHaveLength(2);
+		expect(records.get("doc")?.snapshot.lists?.[0].items[0].text).toBe("passport");
+		copy.dispose();
+	});
+});
@@ -0,0 +1,209 @@
+import { ConnectionState, IFluidContainer, Listenable } from "fluid-framework";
+import { independentView } from "@fluidframework/tree/alpha";
+import { starterTreeConfiguration, StarterTreeView } from "../schema/starterSchema.js";
+import { createEmitter } from "../utils/emitter.js";
+import { ChangeFeed, createChangeFeed, FrameScheduler } from "./changeFeed.js";
+import { compactOfflineOps, OfflineOp, toOfflineOps } from "./offlineQueue.js";
+import type { OfflineRecord, OfflineStore } from "./offlineStore.js";
+import { fromSnapshot, toSnapshot, withoutAttachments } from "./snapshot.js";
+
+export type OfflineSyncEvents = {
+	/** Fired when the connection drops or returns, or the number of unacknowledged edits changes. */
+	changed(): void;
+};
+
+/**
+ * Keeps the browser's offline copy of a live document current (its snapshot and the local
+ * edits the service has not acknowledged yet) and reports how far behind the service is.
+ *
+ * While the connection is down the container keeps accepting edits and resubmits them when it
+ * reconnects; the copy is what survives a reload in between. AzureClient cannot hand the
+ * container's own pending state back on load, so unacknowledged edits are kept as `OfflineOp`s
+ * and replayed with `replayOfflineOps` the next time the document opens.
+ */
+export interface OfflineSync {
+	readonly events: Listenable<OfflineSyncEvents>;
+	isConnected(): boolean;
+	/** Local edits not yet acknowledged by the service, queued in the offline copy. */
+	pendingCount(): number;
+	/**
+	 * Local edits not yet acknowledged that cannot be queued (see `OfflineOp`): they are lost if
+	 * the page closes before the service acknowledges them.
+	 */
+	unqueuedCount(): number;
+	/** Saves the copy now instead of at the next scheduled save, e.g. as the page is hidden. */
+	flush(): void;
+	dispose(): void;
+}
+
+export function createOfflineSync(props: {
+	container: IFluidContainer;
+	containerId: string;
+	tree: StarterTreeView;
+	changes: ChangeFeed;
+	store: OfflineStore;
+	/** Edits replayed from an earlier session, until the service acknowledges them. */
+	pending?: readonly OfflineOp[];
+}): OfflineSync {
+	const { container, containerId, tree, changes, store } = props;
+	const events = createEmitter<OfflineSyncEvents>();
+	let pending = container.isDirty ? [...(props.pending ?? [])] : [];
+	let unqueued = 0;
+
+	const persist = createPersister(store, () =>
+		tree.compatibility.canView
+			? { containerId, snapshot: toSnapshot(tree.root), pending, savedAt: Date.now() }
+			: undefined
+	);
+
+	const offChanges = changes.events.on("changed", (batch) => {
+		// A batch is delivered a frame after its commits; if the container is clean by then,
+		// the service has already acknowledged them.
+		const ops = container.isDirty ? toOfflineOps(batch) : [];
+		if (ops.length > 0) {
+			pending = compactOfflineOps([...pending, ...ops]);
+			events.emit("changed");
+		}
+		persist.schedule();
+	});
+
+	const offOtherChange = changes.events.on("otherChange", (origin) => {
+		if (origin === "local" && container.isDirty) {
+			unqueued++;
+			events.emit("changed");
+		}
+		persist.schedule();
+	});
+
+	const onSaved = () => {
+		if (pending.length > 0 || unqueued > 0) {
+			pending = [];
+			unqueued = 0;
+			events.emit("changed");
+		}
+		persist.schedule();
+	};
+	const onConnection = () => events.emit("changed");
+	container.on("saved", onSaved);
+	container.on("connected", onConnection);
+	container.on("disconnected", onConnection);
+	persist.schedule();
+
+	return {
+		events,
+		isConnected: () => container.connectionState === ConnectionState.Connected,
+		pendingCount: () => pending.length,
+		unqueuedCount: () => unqueued,
+		flush: persist.flush,
+		dispose() {
+			persist.flush();
+			offChanges();
+			offOtherChange();
+			container.off("saved", onSaved);
+			container.off("connected", onConnection);
+			container.off("disconnected", onConnection);
+		},
+	};
+}
+
+/**
+ * A document's offline copy opened without the service: a detached tree to read and edit while
+ * the container cannot load. Its edits are queued in the store for the live document, so it
+ * must only be edited in the ways an `OfflineOp` can record. It has no attachments: their blobs
+ * are only in the service.
+ */
+export interface OfflineCopy {
+	readonly tree: StarterTreeView;
+	readonly events: Listenable<OfflineSyncEvents>;
+	/** The copy's queued edits, those from earlier sessions first. */
+	pending(): readonly OfflineOp[];
+	/** Saves the copy now instead of at the next scheduled save, e.g. as the page is hidden. */
+	flush(): void;
+	dispose(): void;
+}
+
+export function openOfflineCopy(
+	record: OfflineRecord,
+	store: OfflineStore,
+	schedule?: FrameScheduler
+): OfflineCopy {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(fromSnapshot(withoutAttachments(record.snapshot), new Map()));
+	const changes = createChangeFeed(tree, schedule);
+	const events = createEmitter<OfflineSyncEvents>();
+	let pending = record.pending;
+
+	const persist = createPersister(store, () => ({
+		containerId: record.containerId,
+		snapshot: toSnapshot(tree.root),
+		pending,
+		savedAt: Date.now(),
+	}));
+
+	const offChanges = changes.events.on("changed", (batch) => {
+		pending = compactOfflineOps([...pending, ...toOfflineOps(batch)]);
+		persist.schedule();
+		events.emit("changed");
+	});
+
+	return {
+		tree,
+		events,
+		pending: () => {
+			// Edits from the current frame have not reached the queue yet.
+			changes.flush();
+			return pending;
+		},
+		flush: persist.flush,
+		dispose() {
+			persist.flush();
+			offChanges();
+			changes.dispose();
+		},
+	};
+}
+
+/**
+ * How long the stored copy may lag behind the document. Every save serializes the whole
+ * document, so a burst of edits (typing, say) is saved once rather than once per frame.
+ */
+const persistDelayMs = 1000;
+
+/**
+ * Saves the record `read` returns at most once per `persistDelayMs`; `flush` saves a scheduled
+ * record right away. `read` runs when the save happens, so it sees the latest state.
+ */
+function createPersister(
+	store: OfflineStore,
+	read: () => OfflineRecord | undefined
+): { schedule(): void; flush(): void } {
+	const save = createSaver(store);
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const flush = () => {
+		if (timer === undefined) {
+			return;
+		}
+		clearTimeout(timer);
+		timer = undefined;
+		const record = read();
+		if (record) {
+			save(record);
+		}
+	};
+	return {
+		schedule() {
+			timer ??= setTimeout(flush, persistDelayMs);
+		},
+		flush,
+	};
+}
+
+/** Writes records one after another, so a slow write never lands after a newer one. */
+function createSaver(store: OfflineStore): (record: OfflineRecord) => void {
+	let writing = Promise.resolve();
+	return (record) => {
+		writing = writing
+			.then(() => store.save(record))
+			.catch((error) => console.error("Could not save the offline copy", error));
+	};
+}
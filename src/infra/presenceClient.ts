@@ -1,14 +1,26 @@
 import React from "react";
 import { IFluidContainer } from "fluid-framework";
-import { getPresence } from "@fluidframework/presence/beta";
+import { AttendeeId, getPresence } from "@fluidframework/presence/beta";
 import { createUsersManager } from "../presence/users.js";
 import { createCursorManager } from "../presence/cursor.js";
+import { createDragManager, DragAndRotatePackage } from "../presence/drag.js";
+import { createConnectionDragManager } from "../presence/connectionDrag.js";
+import { createTimerManager } from "../presence/timer.js";
 import { User, UsersManager } from "../presence/Interfaces/UsersManager.js";
 import { CursorManager, CursorState } from "../presence/Interfaces/CursorManager.js";
+import { DragManager, DragPackage } from "../presence/Interfaces/DragManager.js";
+import {
+	ConnectionDragManager,
+	ConnectionDragState,
+} from "../presence/Interfaces/ConnectionDragManager.js";
+import { TimerManager, TimerState } from "../presence/Interfaces/TimerManager.js";
 
 export type PresenceClients = {
 	users: UsersManager;
 	cursor: CursorManager;
+	drag: DragManager<DragAndRotatePackage | null>;
+	connectionDrag: ConnectionDragManager;
+	timer: TimerManager;
 	dispose: () => void;
 };
 
@@ -32,18 +44,47 @@ export function createPresenceClients(
 		workspace,
 	});
 
+	const drag = createDragManager({
+		name: "drag:starter",
+		workspace,
+	});
+
+	const connectionDrag = createConnectionDragManager({
+		name: "connectionDrag:starter",
+		workspace,
+	});
+
+	const timer = createTimerManager({
+		name: "timer:starter",
+		workspace,
+	});
+
 	const dispose = () => {
 		// No-op cleanup placeholder; managers expose unsubscribe per listener.
 	};
 
-	return { users, cursor, dispose };
+	return { users, cursor, drag, connectionDrag, timer, dispose };
 }
 
-export function usePresenceUsers(users: UsersManager): readonly User[] {
-	const [current, setCurrent] = React.useState<readonly User[]>(users.getConnectedUsers());
+/**
+ * Subscribes to the user list. `"connected"` (the default) returns remote users currently in the
+ * session; `"all"` returns everyone seen this session, including this client and users who left.
+ */
+export function usePresenceUsers(
+	users: UsersManager,
+	scope: "connected" | "all" = "connected"
+): readonly User[] {
+	const read = React.useCallback(
+		() =>
+			scope === "connected"
+				? users.getConnectedUsers()
+				: [users.getMyself(), ...users.getUsers()],
+		[users, scope]
+	);
+	const [current, setCurrent] = React.useState<readonly User[]>(read);
 
 	React.useEffect(() => {
-		const update = () => setCurrent(users.getConnectedUsers());
+		const update = () => setCurrent(read());
 		const offLocal = users.events.on("localUpdated", update);
 		const offRemote = users.events.on("remoteUpdated", update);
 		update();
@@ -51,7 +92,7 @@ export function usePresenceUsers(users: UsersManager): readonly User[] {
 			offLocal();
 			offRemote();
 		};
-	}, [users]);
+	}, [users, read]);
 
 	return current;
 }
@@ -67,3 +108,118 @@ export function useCursorPresence(cursor: CursorManager): CursorState | null {
 
 	return state;
 }
+
+export type RemoteDrag = DragPackage & { attendeeId: AttendeeId };
+
+/** Subscribes to what connected collaborators are dragging right now. */
+export function useRemoteDrags(drag: DragManager<DragAndRotatePackage | null>): RemoteDrag[] {
+	const read = React.useCallback(() => {
+		const drags: RemoteDrag[] = [];
+		for (const remote of drag.state.getRemotes()) {
+			const target = remote.value();
+			if (target && !target.branch && remote.attendee.getConnectionStatus() === "Connected") {
+				drags.push({
+					attendeeId: remote.attendee.attendeeId,
+					id: target.id,
+					x: target.x,
+					y: target.y,
+				});
+			}
+		}
+		return drags;
+	}, [drag]);
+	const [current, setCurrent] = React.useState<RemoteDrag[]>(read);
+
+	React.useEffect(() => {
+		const update = () => setCurrent(read());
+		const offRemote = drag.events.on("remoteUpdated", update);
+		const offDisconnect = drag.attendees.events.on("attendeeDisconnected", update);
+		update();
+		return () => {
+			offRemote();
+			offDisconnect();
+		};
+	}, [drag, read]);
+
+	return current;
+}
+
+export type ActiveConnectionDrag = ConnectionDragState & { attendeeId: AttendeeId; local: boolean };
+
+/**
+ * Subscribes to the dependency links being drawn right now: this client's own, then those of
+ * connected collaborators.
+ */
+export function useConnectionDrags(connectionDrag: ConnectionDragManager): ActiveConnectionDrag[] {
+	const read = React.useCallback(() => {
+		const drags: ActiveConnectionDrag[] = [];
+		const local = connectionDrag.state.local;
+		if (local) {
+			const attendeeId = connectionDrag.attendees.getMyself().attendeeId;
+			drags.push({ ...local, attendeeId, local: true });
+		}
+		for (const remote of connectionDrag.state.getRemotes()) {
+			const target = remote.value();
+			if (target && remote.attendee.getConnectionStatus() === "Connected") {
+				drags.push({ ...target, attendeeId: remote.attendee.attendeeId, local: false });
+			}
+		}
+		return drags;
+	}, [connectionDrag]);
+	const [current, setCurrent] = React.useState<ActiveConnectionDrag[]>(read);
+
+	React.useEffect(() => {
+		const update = () => setCurrent(read());
+		const offLocal = connectionDrag.events.on("localUpdated", update);
+		const offRemote = connectionDrag.events.on("remoteUpdated", update);
+		const offDisconnect = connectionDrag.attendees.events.on("attendeeDisconnected", update);
+		update();
+		return () => {
+			offLocal();
+			offRemote();
+			offDisconnect();
+		};
+	}, [connectionDrag, read]);
+
+	return current;
+}
+
+export type ActiveTimer = TimerState & { attendeeId: AttendeeId; local: boolean };
+
+/** Subscribes to the running timers: this client's own, then those of connected collaborators. */
+export function useTimers(timer: TimerManager): ActiveTimer[] {
+	const read = React.useCallback(() => {
+		const timers: ActiveTimer[] = [];
+		const local = timer.state.local;
+		if (local) {
+			timers.push({
+				...local,
+				attendeeId: timer.attendees.getMyself().attendeeId,
+				local: true,
+			});
+		}
+		for (const remote of timer.state.getRemotes()) {
+			const running = remote.value();
+			if (running && remote.attendee.getConnectionStatus() === "Connected") {
+				timers.push({ ...running, attendeeId: remote.attendee.attendeeId, local: false });
+			}
+		}
+		return timers;
+	}, [timer]);
+	const [current, setCurrent] = React.useState<ActiveTimer[]>(read);
+
+	React.useEffect(() => {
+		const update = () => setCurrent(read());
+		const offLocal = timer.events.on("localUpdated", update);
+		const offRemote = timer.events.on("remoteUpdated", update);
+		const offDisconnect = timer.attendees.events.on("attendeeDisconnected", update);
+		update();
+		return () => {
+			offLocal();
+			offRemote();
+			offDisconnect();
+		};
+	}, [timer, read]);
+
+	return current;
+}
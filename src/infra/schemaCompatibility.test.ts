@@ -0,0 +1,1182 @@
+import { describe, expect, it } from "vitest";
+import { createIndependentTreeAlpha, SchemaFactoryAlpha } from "@fluidframework/tree/alpha";
+import {
+	ImplicitFieldSchema,
+	InsertableTreeFieldFromImplicitField,
+	TreeViewConfiguration,
+	ValidateRecursiveSchema,
+} from "@fluidframework/tree";
+import { AppModel, Items, starterTreeConfiguration } from "../schema/starterSchema.js";
+import {
+	getDocumentCompatibility,
+	needsMigration,
+	readDocumentPreview,
+	upgradeDocument,
+} from "./schemaCompatibility.js";
+import { describeActivity, getActivity } from "./activityLog.js";
+import {
+	addComment,
+	addDependency,
+	addItem,
+	addItemTag,
+	addTag,
+	editItemText,
+	flattenItems,
+	getBlockers,
+	getItemTags,
+	getLoggedMinutes,
+	getReactions,
+	getVoteCount,
+	logTime,
+	setItemEstimate,
+	setItemRecurrence,
+	toggleItem,
+	toggleReaction,
+	toggleVote,
+} from "./sharedTreeClient.js";
+
+// Frozen copies of earlier versions of `starterSchema.ts`, used to write documents the way
+// those releases did. Never edit these; add a new version instead.
+const sf = new SchemaFactoryAlpha("8e2f6e9a-2d5a-4c43-8b11-7cf5f5c60f4f");
+
+class V1Item extends sf.object("Item", {
+	id: sf.string,
+	text: sf.string,
+	done: sf.boolean,
+	author: sf.optional(sf.string),
+	updatedAt: sf.optional(sf.number),
+}) {}
+class V1Items extends sf.array("Items", V1Item) {}
+class V1AppModel extends sf.object("AppModel", { title: sf.string, items: V1Items }) {}
+
+class V2Item extends sf.objectRecursive("Item", {
+	id: sf.string,
+	text: sf.string,
+	done: sf.boolean,
+	author: sf.optional(sf.string),
+	updatedAt: sf.optional(sf.number),
+	children: sf.optionalRecursive([() => V2Items]),
+}) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V2Item>;
+}
+class V2Items extends sf.arrayRecursive("Items", [() => V2Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V2Items>;
+}
+class V2AppModel extends sf.object("AppModel", { title: sf.string, items: V2Items }) {}
+
+class V3Item extends sf.objectRecursive("Item", {
+	id: sf.string,
+	text: sf.string,
+	done: sf.boolean,
+	author: sf.optional(sf.string),
+	updatedAt: sf.optional(sf.number),
+	children: sf.optionalRecursive([() => V3Items]),
+}) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V3Item>;
+}
+class V3Items extends sf.arrayRecursive("Items", [() => V3Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V3Items>;
+}
+class V3Checklist extends sf.object("Checklist", {
+	id: sf.string,
+	title: sf.string,
+	items: V3Items,
+}) {}
+class V3Checklists extends sf.array("Checklists", V3Checklist) {}
+class V3AppModel extends sf.object("AppModel", {
+	title: sf.string,
+	items: V3Items,
+	lists: sf.optional(V3Checklists),
+}) {}
+
+// Versions 4 and later allow unknown optional fields.
+const tolerantOptions = { allowUnknownOptionalFields: true } as const;
+class V4Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V4Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V4Item>;
+}
+class V4Items extends sf.arrayRecursive("Items", [() => V4Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V4Items>;
+}
+class V4Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V4Items },
+	tolerantOptions
+) {}
+class V4Checklists extends sf.array("Checklists", V4Checklist) {}
+class V4AppModel extends sf.object(
+	"AppModel",
+	{ title: sf.string, items: V4Items, lists: sf.optional(V4Checklists) },
+	tolerantOptions
+) {}
+
+class V5Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		statusId: sf.optional(sf.string),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V5Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V5Item>;
+}
+class V5Items extends sf.arrayRecursive("Items", [() => V5Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V5Items>;
+}
+class V5Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V5Items },
+	tolerantOptions
+) {}
+class V5Checklists extends sf.array("Checklists", V5Checklist) {}
+class V5WorkflowStatus extends sf.object(
+	"WorkflowStatus",
+	{ id: sf.string, name: sf.string, color: sf.string, countsAsComplete: sf.boolean },
+	tolerantOptions
+) {}
+class V5Workflow extends sf.array("Workflow", V5WorkflowStatus) {}
+class V5AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.string,
+		items: V5Items,
+		lists: sf.optional(V5Checklists),
+		workflow: sf.optional(V5Workflow),
+	},
+	tolerantOptions
+) {}
+
+class V6Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		statusId: sf.optional(sf.string),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V6Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+		deletedAt: sf.optional(sf.number),
+		deletedBy: sf.optional(sf.string),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V6Item>;
+}
+class V6Items extends sf.arrayRecursive("Items", [() => V6Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V6Items>;
+}
+class V6Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V6Items },
+	tolerantOptions
+) {}
+class V6Checklists extends sf.array("Checklists", V6Checklist) {}
+class V6AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.string,
+		items: V6Items,
+		lists: sf.optional(V6Checklists),
+		workflow: sf.optional(V5Workflow),
+		trashRetentionDays: sf.optional(sf.number),
+	},
+	tolerantOptions
+) {}
+
+class V7Comment extends sf.objectRecursive(
+	"Comment",
+	{
+		id: sf.string,
+		authorId: sf.string,
+		authorName: sf.optional(sf.string),
+		body: sf.string,
+		createdAt: sf.number,
+		editedAt: sf.optional(sf.number),
+		resolved: sf.boolean,
+		replies: sf.requiredRecursive([() => V7Comments]),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V7Comment>;
+}
+class V7Comments extends sf.arrayRecursive("Comments", [() => V7Comment]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V7Comments>;
+}
+class V7Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		statusId: sf.optional(sf.string),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V7Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+		deletedAt: sf.optional(sf.number),
+		deletedBy: sf.optional(sf.string),
+		comments: sf.optional(V7Comments),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V7Item>;
+}
+class V7Items extends sf.arrayRecursive("Items", [() => V7Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V7Items>;
+}
+class V7Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V7Items },
+	tolerantOptions
+) {}
+class V7Checklists extends sf.array("Checklists", V7Checklist) {}
+class V7AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.string,
+		items: V7Items,
+		lists: sf.optional(V7Checklists),
+		workflow: sf.optional(V5Workflow),
+		trashRetentionDays: sf.optional(sf.number),
+	},
+	tolerantOptions
+) {}
+
+class V8Attachment extends sf.object(
+	"Attachment",
+	{
+		id: sf.string,
+		name: sf.string,
+		mimeType: sf.string,
+		size: sf.number,
+		blob: sf.handle,
+		uploadedBy: sf.optional(sf.string),
+		uploadedAt: sf.number,
+	},
+	tolerantOptions
+) {}
+class V8Attachments extends sf.array("Attachments", V8Attachment) {}
+class V8Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		statusId: sf.optional(sf.string),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V8Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+		deletedAt: sf.optional(sf.number),
+		deletedBy: sf.optional(sf.string),
+		comments: sf.optional(V7Comments),
+		attachments: sf.optional(V8Attachments),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V8Item>;
+}
+class V8Items extends sf.arrayRecursive("Items", [() => V8Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V8Items>;
+}
+class V8Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V8Items },
+	tolerantOptions
+) {}
+class V8Checklists extends sf.array("Checklists", V8Checklist) {}
+class V8AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.string,
+		items: V8Items,
+		lists: sf.optional(V8Checklists),
+		workflow: sf.optional(V5Workflow),
+		trashRetentionDays: sf.optional(sf.number),
+	},
+	tolerantOptions
+) {}
+
+class V9ItemIds extends sf.array("ItemIds", sf.string) {}
+class V9Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		statusId: sf.optional(sf.string),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V9Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+		deletedAt: sf.optional(sf.number),
+		deletedBy: sf.optional(sf.string),
+		comments: sf.optional(V7Comments),
+		attachments: sf.optional(V8Attachments),
+		blockedBy: sf.optional(V9ItemIds),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V9Item>;
+}
+class V9Items extends sf.arrayRecursive("Items", [() => V9Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V9Items>;
+}
+class V9Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V9Items },
+	tolerantOptions
+) {}
+class V9Checklists extends sf.array("Checklists", V9Checklist) {}
+class V9AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.string,
+		items: V9Items,
+		lists: sf.optional(V9Checklists),
+		workflow: sf.optional(V5Workflow),
+		trashRetentionDays: sf.optional(sf.number),
+	},
+	tolerantOptions
+) {}
+
+class V10Weekdays extends sf.array("Weekdays", sf.number) {}
+class V10Recurrence extends sf.object(
+	"Recurrence",
+	{
+		frequency: sf.string,
+		weekdays: sf.optional(V10Weekdays),
+		intervalDays: sf.optional(sf.number),
+	},
+	tolerantOptions
+) {}
+class V10Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		statusId: sf.optional(sf.string),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V10Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+		deletedAt: sf.optional(sf.number),
+		deletedBy: sf.optional(sf.string),
+		comments: sf.optional(V7Comments),
+		attachments: sf.optional(V8Attachments),
+		blockedBy: sf.optional(V9ItemIds),
+		recurrence: sf.optional(V10Recurrence),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V10Item>;
+}
+class V10Items extends sf.arrayRecursive("Items", [() => V10Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V10Items>;
+}
+class V10Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V10Items },
+	tolerantOptions
+) {}
+class V10Checklists extends sf.array("Checklists", V10Checklist) {}
+class V10AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.string,
+		items: V10Items,
+		lists: sf.optional(V10Checklists),
+		workflow: sf.optional(V5Workflow),
+		trashRetentionDays: sf.optional(sf.number),
+	},
+	tolerantOptions
+) {}
+
+class V11Tag extends sf.object(
+	"Tag",
+	{ id: sf.string, name: sf.string, color: sf.string },
+	tolerantOptions
+) {}
+class V11Tags extends sf.array("Tags", V11Tag) {}
+class V11TagIds extends sf.array("TagIds", sf.string) {}
+class V11Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		statusId: sf.optional(sf.string),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V11Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+		deletedAt: sf.optional(sf.number),
+		deletedBy: sf.optional(sf.string),
+		comments: sf.optional(V7Comments),
+		attachments: sf.optional(V8Attachments),
+		blockedBy: sf.optional(V9ItemIds),
+		recurrence: sf.optional(V10Recurrence),
+		tagIds: sf.optional(V11TagIds),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V11Item>;
+}
+class V11Items extends sf.arrayRecursive("Items", [() => V11Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V11Items>;
+}
+class V11Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V11Items },
+	tolerantOptions
+) {}
+class V11Checklists extends sf.array("Checklists", V11Checklist) {}
+class V11AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.string,
+		items: V11Items,
+		lists: sf.optional(V11Checklists),
+		workflow: sf.optional(V5Workflow),
+		tags: sf.optional(V11Tags),
+		trashRetentionDays: sf.optional(sf.number),
+	},
+	tolerantOptions
+) {}
+
+class V12Votes extends sf.map("Votes", sf.number) {}
+class V12UserReactions extends sf.map("UserReactions", sf.number) {}
+class V12Reactions extends sf.map("Reactions", V12UserReactions) {}
+class V12Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		statusId: sf.optional(sf.string),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V12Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+		deletedAt: sf.optional(sf.number),
+		deletedBy: sf.optional(sf.string),
+		comments: sf.optional(V7Comments),
+		attachments: sf.optional(V8Attachments),
+		blockedBy: sf.optional(V9ItemIds),
+		recurrence: sf.optional(V10Recurrence),
+		tagIds: sf.optional(V11TagIds),
+		votes: sf.optional(V12Votes),
+		reactions: sf.optional(V12Reactions),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V12Item>;
+}
+class V12Items extends sf.arrayRecursive("Items", [() => V12Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V12Items>;
+}
+class V12Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V12Items },
+	tolerantOptions
+) {}
+class V12Checklists extends sf.array("Checklists", V12Checklist) {}
+class V12AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.string,
+		items: V12Items,
+		lists: sf.optional(V12Checklists),
+		workflow: sf.optional(V5Workflow),
+		tags: sf.optional(V11Tags),
+		trashRetentionDays: sf.optional(sf.number),
+	},
+	tolerantOptions
+) {}
+
+class V13TimeEntry extends sf.object(
+	"TimeEntry",
+	{
+		id: sf.string,
+		userId: sf.string,
+		userName: sf.optional(sf.string),
+		minutes: sf.number,
+		note: sf.optional(sf.string),
+		loggedAt: sf.number,
+	},
+	tolerantOptions
+) {}
+class V13TimeEntries extends sf.array("TimeEntries", V13TimeEntry) {}
+class V13Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.boolean,
+		statusId: sf.optional(sf.string),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => V13Items]),
+		dueDate: sf.optional(sf.string),
+		priority: sf.optional(sf.string),
+		assigneeId: sf.optional(sf.string),
+		deletedAt: sf.optional(sf.number),
+		deletedBy: sf.optional(sf.string),
+		comments: sf.optional(V7Comments),
+		attachments: sf.optional(V8Attachments),
+		blockedBy: sf.optional(V9ItemIds),
+		recurrence: sf.optional(V10Recurrence),
+		tagIds: sf.optional(V11TagIds),
+		votes: sf.optional(V12Votes),
+		reactions: sf.optional(V12Reactions),
+		estimateMinutes: sf.optional(sf.number),
+		timeEntries: sf.optional(V13TimeEntries),
+	},
+	tolerantOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V13Item>;
+}
+class V13Items extends sf.arrayRecursive("Items", [() => V13Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof V13Items>;
+}
+class V13Checklist extends sf.object(
+	"Checklist",
+	{ id: sf.string, title: sf.string, items: V13Items },
+	tolerantOptions
+) {}
+class V13Checklists extends sf.array("Checklists", V13Checklist) {}
+class V13AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.string,
+		items: V13Items,
+		lists: sf.optional(V13Checklists),
+		workflow: sf.optional(V5Workflow),
+		tags: sf.optional(V11Tags),
+		trashRetentionDays: sf.optional(sf.number),
+	},
+	tolerantOptions
+) {}
+
+/** A hypothetical future version that follows the rules: it only adds an optional field. */
+class AdditiveAppModel extends sf.object("AppModel", {
+	...AppModel.info,
+	theme: sf.optional(sf.string),
+}) {}
+
+/** A hypothetical future version that makes a breaking change (a new required field). */
+class BreakingAppModel extends sf.object("AppModel", {
+	title: sf.string,
+	owner: sf.string,
+}) {}
+
+/** Writes a document with `schema`, then reopens the same tree with the current schema. */
+function openWithCurrentSchema<const TSchema extends ImplicitFieldSchema>(
+	schema: TSchema,
+	content: InsertableTreeFieldFromImplicitField<TSchema>
+) {
+	const document = createIndependentTreeAlpha();
+	const writer = document.viewWith(new TreeViewConfiguration({ schema }));
+	writer.initialize(content);
+	writer.dispose();
+	return { document, tree: document.viewWith(starterTreeConfiguration) };
+}
+
+describe("schema compatibility", () => {
+	it("upgrades a version 1 document and migrates its list", () => {
+		const { tree } = openWithCurrentSchema(
+			V1AppModel,
+			new V1AppModel({
+				title: "Groceries",
+				items: [
+					{ id: "1", text: "milk", done: true },
+					{ id: "2", text: "eggs", done: false, author: "sam" },
+				],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+
+		expect(getDocumentCompatibility(tree)).toBe("ready");
+		const [list] = tree.root.lists ?? [];
+		expect(list.title).toBe("Groceries");
+		expect(list.items.map((item) => [item.text, item.done, item.author])).toEqual([
+			["milk", true, undefined],
+			["eggs", false, "sam"],
+		]);
+		expect(tree.root.items.length).toBe(0);
+	});
+
+	it("upgrades a version 2 document and keeps nested subtasks", () => {
+		const { tree } = openWithCurrentSchema(
+			V2AppModel,
+			new V2AppModel({
+				title: "Release",
+				items: new V2Items([
+					new V2Item({
+						id: "1",
+						text: "ship",
+						done: false,
+						children: new V2Items([new V2Item({ id: "2", text: "tag", done: true })]),
+					}),
+				]),
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+
+		const [list] = tree.root.lists ?? [];
+		expect(flattenItems(list.items).map((item) => item.text)).toEqual(["ship", "tag"]);
+		addItem(tree, list.id, "announce");
+		expect(list.items.length).toBe(2);
+	});
+
+	it("upgrades a version 3 document without touching its lists", () => {
+		const { tree } = openWithCurrentSchema(
+			V3AppModel,
+			new V3AppModel({
+				title: "",
+				items: new V3Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Ops",
+						items: new V3Items([new V3Item({ id: "1", text: "page", done: false })]),
+					},
+				],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+
+		const [list] = tree.root.lists ?? [];
+		expect(list.title).toBe("Ops");
+		expect(list.items[0].dueDate).toBeUndefined();
+	});
+
+	it("upgrades a version 4 document and moves items into workflow statuses", () => {
+		const { tree } = openWithCurrentSchema(
+			V4AppModel,
+			new V4AppModel({
+				title: "",
+				items: new V4Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Ops",
+						items: new V4Items([
+							new V4Item({ id: "1", text: "page", done: false, priority: "high" }),
+							new V4Item({
+								id: "2",
+								text: "fix",
+								done: true,
+								children: new V4Items([
+									new V4Item({ id: "3", text: "test", done: false }),
+								]),
+							}),
+						]),
+					},
+				],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+
+		expect(tree.root.workflow?.length).toBeGreaterThan(1);
+		const [list] = tree.root.lists ?? [];
+		expect(flattenItems(list.items).map((item) => [item.text, item.statusId])).toEqual([
+			["page", "todo"],
+			["fix", "done"],
+			["test", "todo"],
+		]);
+		expect(list.items[0].priority).toBe("high");
+	});
+
+	it("upgrades a version 5 document with nothing in the trash", () => {
+		const { tree } = openWithCurrentSchema(
+			V5AppModel,
+			new V5AppModel({
+				title: "",
+				items: new V5Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Ops",
+						items: new V5Items([
+							new V5Item({ id: "1", text: "page", done: false, statusId: "todo" }),
+						]),
+					},
+				],
+				workflow: [{ id: "todo", name: "To do", color: "#000", countsAsComplete: false }],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+
+		const [list] = tree.root.lists ?? [];
+		expect(flattenItems(list.items).map((item) => item.text)).toEqual(["page"]);
+		expect(tree.root.workflow?.map((status) => status.name)).toEqual(["To do"]);
+	});
+
+	it("upgrades a version 6 document and comments on its existing items", () => {
+		const { tree } = openWithCurrentSchema(
+			V6AppModel,
+			new V6AppModel({
+				title: "",
+				items: new V6Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Ops",
+						items: new V6Items([
+							new V6Item({ id: "1", text: "page", done: false }),
+							new V6Item({ id: "2", text: "old", done: false, deletedAt: 1 }),
+						]),
+					},
+				],
+				workflow: [],
+				trashRetentionDays: 7,
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+
+		const thread = addComment(tree, "1", { id: "u" }, "still here?");
+		expect(thread).toBeDefined();
+		expect(tree.root.lists?.[0].items[0].comments?.[0].body).toBe("still here?");
+		expect(tree.root.trashRetentionDays).toBe(7);
+	});
+
+	it("upgrades a version 7 document and keeps its comment threads", () => {
+		const { tree } = openWithCurrentSchema(
+			V7AppModel,
+			new V7AppModel({
+				title: "",
+				items: new V7Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Ops",
+						items: new V7Items([
+							new V7Item({
+								id: "1",
+								text: "page",
+								done: false,
+								statusId: "todo",
+								comments: new V7Comments([
+									new V7Comment({
+										id: "c",
+										authorId: "u",
+										body: "who?",
+										createdAt: 1,
+										resolved: false,
+										replies: new V7Comments([]),
+									}),
+								]),
+							}),
+						]),
+					},
+				],
+				workflow: [],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+
+		const [item] = tree.root.lists?.[0].items ?? [];
+		expect(item.comments?.[0].body).toBe("who?");
+		expect(item.attachments).toBeUndefined();
+	});
+
+	it("upgrades a version 8 document and adds dependencies between its items", () => {
+		const { tree } = openWithCurrentSchema(
+			V8AppModel,
+			new V8AppModel({
+				title: "",
+				items: new V8Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Ops",
+						items: new V8Items([
+							new V8Item({
+								id: "1",
+								text: "build",
+								done: false,
+								statusId: "todo",
+								attachments: new V8Attachments([]),
+							}),
+							new V8Item({ id: "2", text: "ship", done: false, statusId: "todo" }),
+						]),
+					},
+				],
+				workflow: [],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+		addDependency(tree, "2", "1");
+
+		const [build, ship] = tree.root.lists?.[0].items ?? [];
+		expect(getBlockers(tree.root, ship)).toEqual([build]);
+	});
+
+	it("upgrades a version 9 document and makes its items recur", () => {
+		const { tree } = openWithCurrentSchema(
+			V9AppModel,
+			new V9AppModel({
+				title: "",
+				items: new V9Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Ops",
+						items: new V9Items([
+							new V9Item({
+								id: "1",
+								text: "rotate logs",
+								done: false,
+								statusId: "todo",
+								blockedBy: new V9ItemIds([]),
+							}),
+						]),
+					},
+				],
+				workflow: [
+					{ id: "todo", name: "To do", color: "#94a3b8", countsAsComplete: false },
+					{ id: "done", name: "Done", color: "#34d399", countsAsComplete: true },
+				],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+		setItemRecurrence(tree, "1", { frequency: "daily" });
+		toggleItem(tree, "1");
+
+		const texts = tree.root.lists?.[0].items.map((item) => item.text);
+		expect(texts).toEqual(["rotate logs", "rotate logs"]);
+	});
+
+	it("upgrades a version 10 document and gives it a tag catalog", () => {
+		const { tree } = openWithCurrentSchema(
+			V10AppModel,
+			new V10AppModel({
+				title: "",
+				items: new V10Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Ops",
+						items: new V10Items([
+							new V10Item({
+								id: "1",
+								text: "standup",
+								done: false,
+								statusId: "todo",
+								recurrence: new V10Recurrence({ frequency: "daily" }),
+							}),
+						]),
+					},
+				],
+				workflow: [],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+		expect(needsMigration(tree)).toBe(false);
+		addItemTag(tree, "1", addTag(tree, "ops", "#38bdf8"));
+
+		const [item] = tree.root.lists?.[0].items ?? [];
+		expect(getItemTags(tree.root, item).map((tag) => tag.name)).toEqual(["ops"]);
+		expect(item.recurrence?.frequency).toBe("daily");
+	});
+
+	it("upgrades a version 11 document and lets users vote on its items", () => {
+		const { tree } = openWithCurrentSchema(
+			V11AppModel,
+			new V11AppModel({
+				title: "",
+				items: new V11Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Ideas",
+						items: new V11Items([
+							new V11Item({
+								id: "1",
+								text: "dark mode",
+								done: false,
+								statusId: "todo",
+								tagIds: new V11TagIds(["t"]),
+							}),
+						]),
+					},
+				],
+				workflow: [],
+				tags: [{ id: "t", name: "ui", color: "#38bdf8" }],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+		expect(needsMigration(tree)).toBe(false);
+		toggleVote(tree, "1", "alice");
+		toggleReaction(tree, "1", "bob", "🎉");
+
+		const [item] = tree.root.lists?.[0].items ?? [];
+		expect(getVoteCount(item)).toBe(1);
+		expect(getReactions(item)).toEqual([{ emoji: "🎉", userIds: ["bob"] }]);
+		expect(getItemTags(tree.root, item).map((tag) => tag.name)).toEqual(["ui"]);
+	});
+
+	it("upgrades a version 12 document and tracks time on its items", () => {
+		const { tree } = openWithCurrentSchema(
+			V12AppModel,
+			new V12AppModel({
+				title: "",
+				items: new V12Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Sprint",
+						items: new V12Items([
+							new V12Item({
+								id: "1",
+								text: "login page",
+								done: false,
+								statusId: "todo",
+								votes: new V12Votes({ alice: 1 }),
+							}),
+						]),
+					},
+				],
+				workflow: [],
+				tags: [],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+		expect(needsMigration(tree)).toBe(false);
+		setItemEstimate(tree, "1", 90);
+		logTime(tree, "1", { userId: "alice", minutes: 30 });
+
+		const [item] = tree.root.lists?.[0].items ?? [];
+		expect(item.estimateMinutes).toBe(90);
+		expect(getLoggedMinutes(item)).toBe(30);
+		expect(getVoteCount(item)).toBe(1);
+	});
+
+	it("upgrades a version 13 document and starts its activity log", () => {
+		const { tree } = openWithCurrentSchema(
+			V13AppModel,
+			new V13AppModel({
+				title: "",
+				items: new V13Items([]),
+				lists: [
+					{
+						id: "l",
+						title: "Sprint",
+						items: new V13Items([
+							new V13Item({
+								id: "1",
+								text: "login page",
+								done: false,
+								statusId: "todo",
+								estimateMinutes: 60,
+								timeEntries: new V13TimeEntries([
+									new V13TimeEntry({
+										id: "e",
+										userId: "alice",
+										minutes: 15,
+										loggedAt: 0,
+									}),
+								]),
+							}),
+						]),
+					},
+				],
+				workflow: [],
+				tags: [],
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("upgradeable");
+
+		upgradeDocument(tree);
+		expect(needsMigration(tree)).toBe(false);
+		editItemText(tree, "1", "sign-in page", "alice");
+
+		const [item] = tree.root.lists?.[0].items ?? [];
+		expect(getLoggedMinutes(item)).toBe(15);
+		expect(getActivity(tree.root).map(describeActivity)).toEqual([
+			'edited "sign-in page": login page → sign-in page',
+		]);
+	});
+
+	it("opens a current document without an upgrade", () => {
+		const document = createIndependentTreeAlpha();
+		const writer = document.viewWith(starterTreeConfiguration);
+		writer.initialize({ title: "t", items: new Items([]), lists: [] });
+		writer.dispose();
+		const tree = document.viewWith(starterTreeConfiguration);
+		expect(getDocumentCompatibility(tree)).toBe("ready");
+	});
+
+	it("keeps editing a document a newer version extended with optional fields", () => {
+		const { tree } = openWithCurrentSchema(
+			AdditiveAppModel,
+			new AdditiveAppModel({
+				title: "t",
+				items: new Items([]),
+				lists: [{ id: "l", title: "Shared", items: new Items([]) }],
+				theme: "dark",
+			})
+		);
+		expect(getDocumentCompatibility(tree)).toBe("ready");
+		addItem(tree, "l", "still editable");
+		expect(tree.root.lists?.[0].items[0].text).toBe("still editable");
+	});
+
+	it("falls back to read-only for a breaking newer version", () => {
+		const { document, tree } = openWithCurrentSchema(
+			BreakingAppModel,
+			new BreakingAppModel({ title: "Future", owner: "someone" })
+		);
+		expect(getDocumentCompatibility(tree)).toBe("readOnly");
+		expect(() => upgradeDocument(tree)).toThrow();
+		expect(readDocumentPreview(document)).toEqual({
+			lists: [{ title: "Future", items: [] }],
+		});
+	});
+
+	it("previews older documents without upgrading them", () => {
+		const { document } = openWithCurrentSchema(
+			V2AppModel,
+			new V2AppModel({
+				title: "Release",
+				items: new V2Items([
+					new V2Item({
+						id: "1",
+						text: "ship",
+						done: false,
+						children: new V2Items([new V2Item({ id: "2", text: "tag", done: true })]),
+					}),
+				]),
+			})
+		);
+		expect(readDocumentPreview(document)).toEqual({
+			lists: [
+				{
+					title: "Release",
+					items: [
+						{
+							text: "ship",
+							done: false,
+							children: [{ text: "tag", done: true, children: [] }],
+						},
+					],
+				},
+			],
+		});
+	});
+});
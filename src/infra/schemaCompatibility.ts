@@ -0,0 +1,119 @@
+import type { ViewableTree } from "fluid-framework";
+import type { ITreeAlpha, VerboseTree } from "@fluidframework/tree/alpha";
+import type { StarterTreeView } from "../schema/starterSchema.js";
+import { migrateActivityLog } from "./activityLog.js";
+import { migrateLegacyList, migrateTagCatalog, migrateWorkflow } from "./sharedTreeClient.js";
+
+/**
+ * How this client can work with the loaded document:
+ * - `ready`: the stored schema matches; full editing.
+ * - `upgradeable`: written by an older version; the user can upgrade it in place.
+ * - `readOnly`: written by a newer version with breaking changes; only a preview can be shown.
+ */
+export type DocumentCompatibility = "ready" | "upgradeable" | "readOnly";
+
+export function getDocumentCompatibility(tree: StarterTreeView): DocumentCompatibility {
+	const { canView, canUpgrade } = tree.compatibility;
+	if (canView) {
+		return "ready";
+	}
+	return canUpgrade ? "upgradeable" : "readOnly";
+}
+
+/**
+ * Widens the document's stored schema to this version and runs the data migrations that go with
+ * it. Older clients lose the ability to edit the document afterwards, so only call this once the
+ * user has agreed.
+ */
+export function upgradeDocument(tree: StarterTreeView): void {
+	if (!tree.compatibility.canView) {
+		if (!tree.compatibility.canUpgrade) {
+			throw new Error("Document was written by a newer version and cannot be upgraded");
+		}
+		tree.upgradeSchema();
+	}
+	migrateDocument(tree);
+}
+
+/**
+ * Whether the document's data still predates its stored schema, e.g. because another client
+ * upgraded the schema and its data migrations have not reached us yet.
+ */
+export function needsMigration(tree: StarterTreeView): boolean {
+	const root = tree.root;
+	return (
+		root.lists === undefined ||
+		root.workflow === undefined ||
+		root.tags === undefined ||
+		root.activity === undefined
+	);
+}
+
+/** Runs every data migration the document still needs. Each one is safe to run repeatedly. */
+export function migrateDocument(tree: StarterTreeView): void {
+	migrateLegacyList(tree);
+	migrateWorkflow(tree);
+	migrateTagCatalog(tree);
+	migrateActivityLog(tree);
+}
+
+export type PreviewItem = { text: string; done: boolean; children: PreviewItem[] };
+
+export type DocumentPreview = { lists: { title: string; items: PreviewItem[] }[] };
+
+/**
+ * Best-effort, schema-agnostic read of a document this client cannot view, for the read-only
+ * fallback. Reads the raw tree by field name, so it understands every known schema version and
+ * degrades gracefully on unknown ones.
+ */
+export function readDocumentPreview(tree: ViewableTree): DocumentPreview | undefined {
+	const root = (tree as ITreeAlpha).exportVerbose();
+	const rootFields = objectFields(root);
+	if (!rootFields) {
+		return undefined;
+	}
+
+	const lists = arrayFields(rootFields.lists);
+	if (lists) {
+		return {
+			lists: lists.map((list) => {
+				const fields = objectFields(list) ?? {};
+				return { title: stringValue(fields.title), items: readItems(fields.items) };
+			}),
+		};
+	}
+	return {
+		lists: [{ title: stringValue(rootFields.title), items: readItems(rootFields.items) }],
+	};
+}
+
+function readItems(node: VerboseTree | undefined): PreviewItem[] {
+	return (arrayFields(node) ?? [])
+		.map((item) => objectFields(item) ?? {})
+		.filter((fields) => fields.deletedAt === undefined)
+		.map((fields) => ({
+			text: stringValue(fields.text),
+			done: fields.done === true,
+			children: readItems(fields.children),
+		}));
+}
+
+function objectFields(
+	node: VerboseTree | undefined
+): Record<string, VerboseTree | undefined> | undefined {
+	if (typeof node === "object" && node !== null && "fields" in node) {
+		return Array.isArray(node.fields) ? undefined : node.fields;
+	}
+	return undefined;
+}
+
+function arrayFields(node: VerboseTree | undefined): VerboseTree[] | undefined {
+	if (typeof node === "object" && node !== null && "fields" in node) {
+		return Array.isArray(node.fields) ? node.fields : undefined;
+	}
+	return undefined;
+}
+
+function stringValue(node: VerboseTree | undefined): string {
+	return typeof node === "string" ? node : "";
+}
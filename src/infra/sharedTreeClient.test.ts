@@ -0,0 +1,1267 @@
+import { describe, expect, it } from "vitest";
+import { asTreeViewAlpha, independentView } from "@fluidframework/tree/alpha";
+import { createUndoRedo } from "./undoRedo.js";
+import {
+	starterTreeConfiguration,
+	getDefaultStarterContent,
+	StarterTreeView,
+	Items,
+	Item,
+	AppModel,
+	Checklist,
+} from "../schema/starterSchema.js";
+import {
+	addComment,
+	addDependency,
+	addItem,
+	addItemTag,
+	addList,
+	addStatus,
+	addTag,
+	clearCompleted,
+	deleteTag,
+	duplicateItem,
+	editComment,
+	editItemText,
+	emptyTrash,
+	filterItems,
+	findDuplicates,
+	flattenComments,
+	flattenItems,
+	getBlockedItemIds,
+	getBlockers,
+	getChildProgress,
+	getDependencies,
+	getItemPriority,
+	getItemStatus,
+	getItemTags,
+	getListProgress,
+	getLoggedMinutes,
+	getNewlyUnblockedItems,
+	getNextDueDate,
+	getReactions,
+	getRecurrenceRule,
+	getStatusCounts,
+	getTimeTotals,
+	getTrashedItems,
+	getUnreadCommentCount,
+	getVoteCount,
+	getVoterIds,
+	hasTags,
+	hasVoted,
+	indentItem,
+	isOverdue,
+	isTrashed,
+	logTime,
+	migrateLegacyList,
+	migrateTagCatalog,
+	migrateWorkflow,
+	mergeTags,
+	moveItem,
+	moveItemUnder,
+	moveList,
+	moveStatus,
+	outdentItem,
+	purgeExpiredItems,
+	purgeItem,
+	removeDependency,
+	removeDuplicates,
+	removeItem,
+	removeItemTag,
+	removeList,
+	removeTimeEntry,
+	removeStatus,
+	renameList,
+	replaceItems,
+	resolveThread,
+	restoreItem,
+	setAllDone,
+	setItemAssignee,
+	setItemDueDate,
+	setItemEstimate,
+	setItemPriority,
+	setItemRecurrence,
+	setItemStatus,
+	setTrashRetentionDays,
+	sortByVotes,
+	sortItems,
+	toggleItem,
+	toggleReaction,
+	toggleVote,
+	updateStatus,
+	updateTag,
+	visibleItems,
+	wouldCreateCycle,
+} from "./sharedTreeClient.js";
+
+function createTree(texts: string[] = []): StarterTreeView {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	for (const text of texts) {
+		addItem(tree, listId(tree), text, "seed");
+	}
+	return tree;
+}
+
+function items(tree: StarterTreeView): Items {
+	const list = tree.root.lists?.[0];
+	if (!list) {
+		throw new Error("Tree has no lists");
+	}
+	return list.items;
+}
+
+function listId(tree: StarterTreeView): string {
+	return tree.root.lists?.[0]?.id ?? "";
+}
+
+function texts(tree: StarterTreeView): string[] {
+	return visibleItems(items(tree)).map((item) => item.text);
+}
+
+function idOf(tree: StarterTreeView, text: string): string {
+	const item = flattenItems(items(tree)).find((candidate) => candidate.text === text);
+	if (!item) {
+		throw new Error(`No item with text ${text}`);
+	}
+	return item.id;
+}
+
+describe("sharedTreeClient item CRUD", () => {
+	it("removes an item by id and ignores unknown ids", () => {
+		const tree = createTree(["a", "b", "c"]);
+		removeItem(tree, idOf(tree, "b"));
+		removeItem(tree, "missing");
+		expect(texts(tree)).toEqual(["a", "c"]);
+	});
+
+	it("edits text and stamps author and updatedAt", () => {
+		const tree = createTree(["a"]);
+		const item = items(tree)[0];
+		const before = item.updatedAt ?? 0;
+		editItemText(tree, item.id, "fixed", "editor");
+		expect(item.text).toBe("fixed");
+		expect(item.author).toBe("editor");
+		expect(item.updatedAt).toBeGreaterThanOrEqual(before);
+	});
+
+	it("moves items to an index and relative to other items", () => {
+		const tree = createTree(["a", "b", "c", "d"]);
+		moveItem(tree, idOf(tree, "a"), { index: 2 });
+		expect(texts(tree)).toEqual(["b", "c", "a", "d"]);
+		moveItem(tree, idOf(tree, "d"), { before: idOf(tree, "b") });
+		expect(texts(tree)).toEqual(["d", "b", "c", "a"]);
+		moveItem(tree, idOf(tree, "d"), { after: idOf(tree, "a") });
+		expect(texts(tree)).toEqual(["b", "c", "a", "d"]);
+		moveItem(tree, idOf(tree, "c"), { index: 99 });
+		expect(texts(tree)).toEqual(["b", "a", "d", "c"]);
+	});
+
+	it("duplicates an item directly after the original with a new id", () => {
+		const tree = createTree(["a", "b"]);
+		toggleItem(tree, idOf(tree, "a"));
+		const copyId = duplicateItem(tree, idOf(tree, "a"), "copier");
+		expect(texts(tree)).toEqual(["a", "a", "b"]);
+		const copy = items(tree)[1];
+		expect(copy.id).toBe(copyId);
+		expect(copy.id).not.toBe(items(tree)[0].id);
+		expect(copy.done).toBe(true);
+		expect(copy.author).toBe("copier");
+	});
+});
+
+describe("sharedTreeClient subtasks", () => {
+	function outline(tree: StarterTreeView): string[] {
+		const lines: string[] = [];
+		const walk = (items: Iterable<Item>, depth: number) => {
+			for (const item of items) {
+				lines.push(`${"  ".repeat(depth)}${item.text}`);
+				walk(item.children ?? [], depth + 1);
+			}
+		};
+		walk(items(tree), 0);
+		return lines;
+	}
+
+	it("adds subtasks under their parent in the parent's list", () => {
+		const tree = createTree(["epic"]);
+		const [epicList, epicId] = [listId(tree), idOf(tree, "epic")];
+		addList(tree, "Other", 0);
+		const taskId = addItem(tree, epicList, "task", "ana", epicId) ?? "";
+		addItem(tree, epicList, "step", "ana", taskId);
+		const [other, epics] = tree.root.lists ?? [];
+		expect(other.items.length).toBe(0);
+		expect(flattenItems(epics.items).map((item) => item.text)).toEqual([
+			"epic",
+			"task",
+			"step",
+		]);
+		expect(epics.items[0].children?.[0].children?.[0].text).toBe("step");
+	});
+
+	it("indents under the previous sibling and outdents after the parent", () => {
+		const tree = createTree(["epic", "task", "step", "next"]);
+		indentItem(tree, idOf(tree, "task"));
+		indentItem(tree, idOf(tree, "step"));
+		indentItem(tree, idOf(tree, "step"));
+		expect(outline(tree)).toEqual(["epic", "  task", "    step", "next"]);
+
+		outdentItem(tree, idOf(tree, "step"));
+		expect(outline(tree)).toEqual(["epic", "  task", "  step", "next"]);
+
+		// The first child has no previous sibling to nest under.
+		indentItem(tree, idOf(tree, "task"));
+		outdentItem(tree, idOf(tree, "epic"));
+		expect(outline(tree)).toEqual(["epic", "  task", "  step", "next"]);
+	});
+
+	it("moves items under a new parent and refuses cycles", () => {
+		const tree = createTree(["epic", "task", "other"]);
+		moveItemUnder(tree, idOf(tree, "task"), idOf(tree, "epic"));
+		moveItemUnder(tree, idOf(tree, "other"), idOf(tree, "task"), 0);
+		expect(outline(tree)).toEqual(["epic", "  task", "    other"]);
+
+		moveItemUnder(tree, idOf(tree, "epic"), idOf(tree, "other"));
+		moveItemUnder(tree, idOf(tree, "epic"), idOf(tree, "epic"));
+		expect(outline(tree)).toEqual(["epic", "  task", "    other"]);
+
+		moveItemUnder(tree, idOf(tree, "other"), undefined);
+		expect(outline(tree)).toEqual(["epic", "  task", "other"]);
+	});
+
+	it("rolls up direct subtask completion and finds nested items by id", () => {
+		const tree = createTree(["epic"]);
+		const epicId = idOf(tree, "epic");
+		for (const text of ["a", "b", "c"]) {
+			addItem(tree, listId(tree), text, "seed", epicId);
+		}
+		toggleItem(tree, idOf(tree, "b"));
+		editItemText(tree, idOf(tree, "c"), "c (edited)");
+		const epic = items(tree)[0];
+		expect(getChildProgress(epic)).toEqual({ done: 1, total: 3 });
+		expect(flattenItems(items(tree)).map((item) => item.text)).toEqual([
+			"epic",
+			"a",
+			"b",
+			"c (edited)",
+		]);
+	});
+
+	it("duplicates subtasks with fresh ids", () => {
+		const tree = createTree(["epic"]);
+		addItem(tree, listId(tree), "step", "seed", idOf(tree, "epic"));
+		duplicateItem(tree, idOf(tree, "epic"));
+		const [original, copy] = items(tree);
+		expect(outline(tree)).toEqual(["epic", "  step", "epic", "  step"]);
+		expect(copy.children?.[0].id).not.toBe(original.children?.[0].id);
+	});
+});
+
+describe("sharedTreeClient item details", () => {
+	it("sets and clears due date, priority and assignee", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		setItemDueDate(tree, id, "2026-03-01", "ed");
+		setItemPriority(tree, id, "high");
+		setItemAssignee(tree, id, "user-1");
+		const item = items(tree)[0];
+		expect([item.dueDate, getItemPriority(item), item.assigneeId]).toEqual([
+			"2026-03-01",
+			"high",
+			"user-1",
+		]);
+
+		setItemDueDate(tree, id, undefined);
+		setItemPriority(tree, id, undefined);
+		setItemAssignee(tree, id, undefined);
+		expect([item.dueDate, item.priority, item.assigneeId]).toEqual([
+			undefined,
+			undefined,
+			undefined,
+		]);
+	});
+
+	it("rejects malformed due dates and unknown priorities", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		expect(() => setItemDueDate(tree, id, "03/01/2026")).toThrow();
+		expect(() => setItemPriority(tree, id, "critical" as never)).toThrow();
+	});
+
+	it("flags open items due before today as overdue", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		const item = items(tree)[0];
+		expect(isOverdue(item, "2026-03-02")).toBe(false);
+		setItemDueDate(tree, id, "2026-03-01");
+		expect(isOverdue(item, "2026-03-01")).toBe(false);
+		expect(isOverdue(item, "2026-03-02")).toBe(true);
+		toggleItem(tree, id);
+		expect(isOverdue(item, "2026-03-02")).toBe(false);
+	});
+});
+
+describe("sharedTreeClient concurrent edits", () => {
+	// Each fork stands in for a client editing from the same base revision; merging both
+	// into the main view sequences them the same way the service would.
+	it("keeps both a toggle and a concurrent text edit on the same item", () => {
+		const tree = createTree(["a", "b"]);
+		const id = idOf(tree, "a");
+		const node = items(tree)[0];
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+
+		toggleItem(alice, id, "alice");
+		editItemText(bob, id, "a (edited)", "bob");
+
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		expect(items(tree)[0]).toBe(node);
+		expect(node.done).toBe(true);
+		expect(node.text).toBe("a (edited)");
+		expect(texts(tree)).toEqual(["a (edited)", "b"]);
+	});
+
+	it("keeps a toggle that races a move of the same item", () => {
+		const tree = createTree(["a", "b", "c"]);
+		const id = idOf(tree, "a");
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+
+		moveItem(alice, id, { index: 2 });
+		toggleItem(bob, id);
+
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		expect(texts(tree)).toEqual(["b", "c", "a"]);
+		expect(items(tree)[2].done).toBe(true);
+	});
+
+	it("reconciles replaced items in place so concurrent edits survive", () => {
+		const tree = createTree(["a", "b"]);
+		const [a, b] = [idOf(tree, "a"), idOf(tree, "b")];
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+
+		replaceItems(alice, listId(alice), [
+			new Item({ id: b, text: "b", done: false }),
+			new Item({ id: a, text: "a", done: false }),
+		]);
+		editItemText(bob, a, "a (edited)");
+
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		expect(texts(tree)).toEqual(["b", "a (edited)"]);
+	});
+});
+
+describe("sharedTreeClient lists", () => {
+	function titles(tree: StarterTreeView): string[] {
+		return (tree.root.lists ?? []).map((list) => list.title);
+	}
+
+	it("creates, renames, reorders and deletes lists", () => {
+		const tree = createTree();
+		const groceries = addList(tree, "Groceries");
+		const release = addList(tree, "Release", 0);
+		expect(titles(tree)).toEqual(["Release", "Fluid Starter", "Groceries"]);
+
+		renameList(tree, groceries, "Shopping");
+		moveList(tree, groceries, 0);
+		expect(titles(tree)).toEqual(["Shopping", "Release", "Fluid Starter"]);
+
+		removeList(tree, release);
+		expect(titles(tree)).toEqual(["Shopping", "Fluid Starter"]);
+	});
+
+	it("keeps at least one list", () => {
+		const tree = createTree();
+		removeList(tree, listId(tree));
+		expect(titles(tree)).toEqual(["Fluid Starter"]);
+	});
+
+	it("scopes items and progress to their list", () => {
+		const tree = createTree(["a", "b"]);
+		const other = addList(tree, "Other");
+		addItem(tree, other, "c");
+		toggleItem(tree, idOf(tree, "a"));
+		const [first, second] = tree.root.lists ?? [];
+		expect(getListProgress(first)).toEqual({ done: 1, total: 2 });
+		expect(getListProgress(second)).toEqual({ done: 0, total: 1 });
+	});
+
+	function createLegacyTree(): StarterTreeView {
+		const tree = independentView(starterTreeConfiguration, {});
+		tree.initialize(
+			new AppModel({
+				title: "Legacy",
+				items: new Items([
+					new Item({ id: "1", text: "one", done: true }),
+					new Item({ id: "2", text: "two", done: false }),
+				]),
+			})
+		);
+		return tree;
+	}
+
+	it("wraps the legacy single list into the first list", () => {
+		const tree = createLegacyTree();
+		migrateLegacyList(tree);
+		expect(titles(tree)).toEqual(["Legacy"]);
+		expect(texts(tree)).toEqual(["one", "two"]);
+		expect(tree.root.items.length).toBe(0);
+
+		migrateLegacyList(tree);
+		expect(titles(tree)).toEqual(["Legacy"]);
+	});
+
+	it("migrates exactly once when two clients race", () => {
+		const tree = createLegacyTree();
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+		migrateLegacyList(alice);
+		migrateLegacyList(bob);
+
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		expect(titles(tree)).toEqual(["Legacy"]);
+		expect(texts(tree)).toEqual(["one", "two"]);
+	});
+});
+
+describe("sharedTreeClient workflow", () => {
+	function statusOf(tree: StarterTreeView, text: string): string | undefined {
+		const item = flattenItems(items(tree)).find((candidate) => candidate.text === text);
+		return item && getItemStatus(tree.root.workflow ?? [], item)?.id;
+	}
+
+	it("starts new items in the first status and toggles between open and complete", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		expect(statusOf(tree, "a")).toBe("todo");
+
+		setItemStatus(tree, id, "in-review", "ed");
+		expect(statusOf(tree, "a")).toBe("in-review");
+		expect(items(tree)[0].done).toBe(false);
+
+		toggleItem(tree, id);
+		expect(statusOf(tree, "a")).toBe("done");
+		expect(items(tree)[0].done).toBe(true);
+		toggleItem(tree, id);
+		expect(statusOf(tree, "a")).toBe("todo");
+	});
+
+	it("counts items per status and progress from countsAsComplete", () => {
+		const tree = createTree(["a", "b", "c"]);
+		setItemStatus(tree, idOf(tree, "a"), "in-progress");
+		setItemStatus(tree, idOf(tree, "b"), "in-review");
+		updateStatus(tree, "in-review", { countsAsComplete: true });
+
+		const list = tree.root.lists?.[0] as Checklist;
+		const counts = getStatusCounts(list, tree.root.workflow ?? []);
+		expect(counts.map(({ status, count }) => [status.id, count])).toEqual([
+			["todo", 1],
+			["in-progress", 1],
+			["blocked", 0],
+			["in-review", 1],
+			["done", 0],
+		]);
+		expect(getListProgress(list)).toEqual({ done: 1, total: 3 });
+	});
+
+	it("adds, reorders and removes statuses, moving orphaned items", () => {
+		const tree = createTree(["a"]);
+		const qa = addStatus(tree, "QA", "#fff");
+		moveStatus(tree, qa, 0);
+		setItemStatus(tree, idOf(tree, "a"), qa);
+		expect(tree.root.workflow?.map((status) => status.name)[0]).toBe("QA");
+
+		removeStatus(tree, qa);
+		expect(statusOf(tree, "a")).toBe("todo");
+		expect(tree.root.workflow?.length).toBe(5);
+	});
+
+	it("toggles to the same complete status as migrations and recurrences", () => {
+		const tree = createTree(["a"]);
+		const shipped = addStatus(tree, "Shipped", "#fff", true);
+		toggleItem(tree, idOf(tree, "a"));
+		expect(statusOf(tree, "a")).toBe(shipped);
+		toggleItem(tree, idOf(tree, "a"));
+		expect(statusOf(tree, "a")).toBe("todo");
+	});
+
+	it("ignores unknown statuses", () => {
+		const tree = createTree(["a"]);
+		setItemStatus(tree, idOf(tree, "a"), "nope");
+		expect(statusOf(tree, "a")).toBe("todo");
+	});
+
+	it("trusts done when an older client toggled the item without its status", () => {
+		const tree = createTree(["a"]);
+		items(tree)[0].done = true;
+		expect(statusOf(tree, "a")).toBe("done");
+	});
+
+	it("migrates done values to the first and last status", () => {
+		const tree = createTree(["open", "closed"]);
+		toggleItem(tree, idOf(tree, "closed"));
+		tree.root.workflow = undefined;
+		for (const item of items(tree)) {
+			item.statusId = undefined;
+		}
+
+		migrateWorkflow(tree);
+		expect(items(tree).map((item) => item.statusId)).toEqual(["todo", "done"]);
+	});
+
+	it("converges when two clients migrate the workflow concurrently", () => {
+		const tree = createTree(["a"]);
+		tree.root.workflow = undefined;
+		items(tree)[0].statusId = undefined;
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+		migrateWorkflow(alice);
+		migrateWorkflow(bob);
+
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		// Read through the view again: the assignment above narrowed `tree.root.workflow`.
+		const { workflow } = tree.root as AppModel;
+		expect(workflow?.map((status) => status.id)).toEqual([
+			"todo",
+			"in-progress",
+			"blocked",
+			"in-review",
+			"done",
+		]);
+		expect(items(tree)[0].statusId).toBe("todo");
+	});
+
+	it("keeps a status added right after the workflow migration when another client races it", () => {
+		const tree = createTree(["a"]);
+		tree.root.workflow = undefined;
+		items(tree)[0].statusId = undefined;
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+		migrateWorkflow(alice);
+		const qa = addStatus(alice, "QA", "#fff");
+		setItemStatus(alice, idOf(alice, "a"), qa);
+		migrateWorkflow(bob);
+
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		const { workflow } = tree.root as AppModel;
+		expect(workflow?.map((status) => status.name)).toContain("QA");
+		expect(items(tree)[0].statusId).toBe(qa);
+	});
+});
+
+describe("sharedTreeClient trash", () => {
+	const day = 24 * 60 * 60 * 1000;
+
+	it("moves removed items to the trash and restores them in place", () => {
+		const tree = createTree(["a", "b", "c"]);
+		const b = idOf(tree, "b");
+		removeItem(tree, b, "sam");
+		expect(texts(tree)).toEqual(["a", "c"]);
+		const [trashed] = getTrashedItems(tree.root.lists?.[0] as Checklist);
+		expect([trashed.text, trashed.deletedBy]).toEqual(["b", "sam"]);
+
+		restoreItem(tree, b);
+		expect(texts(tree)).toEqual(["a", "b", "c"]);
+		expect(isTrashed(items(tree)[1])).toBe(false);
+	});
+
+	it("hides trashed subtasks from queries and restores them with their parent", () => {
+		const tree = createTree(["parent", "child"]);
+		const parent = idOf(tree, "parent");
+		indentItem(tree, idOf(tree, "child"));
+		toggleItem(tree, idOf(tree, "child"));
+		removeItem(tree, parent);
+
+		const list = tree.root.lists?.[0] as Checklist;
+		expect(flattenItems(list.items)).toEqual([]);
+		expect(getListProgress(list)).toEqual({ done: 0, total: 0 });
+		expect(getTrashedItems(list).map((item) => item.text)).toEqual(["parent"]);
+
+		restoreItem(tree, parent);
+		expect(flattenItems(list.items).map((item) => item.text)).toEqual(["parent", "child"]);
+	});
+
+	it("skips trashed siblings when indenting and rolling up progress", () => {
+		const tree = createTree(["a", "gone", "b"]);
+		removeItem(tree, idOf(tree, "gone"));
+		indentItem(tree, idOf(tree, "b"));
+		const a = items(tree)[0];
+		expect(a.children?.map((child) => child.text)).toEqual(["b"]);
+		expect(getChildProgress(a)).toEqual({ done: 0, total: 1 });
+	});
+
+	it("purges only trashed items, one at a time or all at once", () => {
+		const tree = createTree(["a", "b", "c"]);
+		purgeItem(tree, idOf(tree, "a"));
+		expect(items(tree).length).toBe(3);
+
+		removeItem(tree, idOf(tree, "a"));
+		removeItem(tree, idOf(tree, "b"));
+		purgeItem(tree, items(tree)[0].id);
+		expect(items(tree).map((item) => item.text)).toEqual(["b", "c"]);
+
+		emptyTrash(tree, listId(tree));
+		expect(items(tree).map((item) => item.text)).toEqual(["c"]);
+	});
+
+	it("purges items once they outlive the retention period", () => {
+		const tree = createTree(["old", "new"]);
+		removeItem(tree, idOf(tree, "old"));
+		removeItem(tree, idOf(tree, "new"));
+		items(tree)[0].deletedAt = Date.now() - 10 * day;
+		setTrashRetentionDays(tree, 7);
+
+		expect(purgeExpiredItems(tree)).toBe(1);
+		expect(items(tree).map((item) => item.text)).toEqual(["new"]);
+		expect(purgeExpiredItems(tree, Date.now() + 8 * day)).toBe(1);
+		expect(items(tree).length).toBe(0);
+		expect(() => setTrashRetentionDays(tree, 0)).toThrow();
+	});
+
+	it("lets another client restore an item and keeps concurrent edits to it", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		removeItem(tree, id, "alice");
+		const bob = asTreeViewAlpha(tree).fork();
+		const carol = asTreeViewAlpha(tree).fork();
+
+		restoreItem(bob, id);
+		editItemText(carol, id, "a (edited)");
+		asTreeViewAlpha(tree).merge(bob);
+		asTreeViewAlpha(tree).merge(carol);
+
+		expect(texts(tree)).toEqual(["a (edited)"]);
+	});
+
+	it("trashes items left out of a replacement and keeps existing trash in place", () => {
+		const tree = createTree(["a", "gone", "b", "c"]);
+		const [a, b, c] = [idOf(tree, "a"), idOf(tree, "b"), idOf(tree, "c")];
+		removeItem(tree, idOf(tree, "gone"), "ana");
+
+		replaceItems(
+			tree,
+			listId(tree),
+			[
+				new Item({ id: c, text: "c", done: false }),
+				new Item({ id: a, text: "a", done: true }),
+			],
+			"ben"
+		);
+
+		expect(texts(tree)).toEqual(["c", "a"]);
+		expect(getTrashedItems(tree.root.lists?.[0] as Checklist).map((item) => item.text)).toEqual(
+			expect.arrayContaining(["gone", "b"])
+		);
+		expect(items(tree).find((item) => item.id === b)).toMatchObject({
+			deletedAt: expect.any(Number),
+			deletedBy: "ben",
+		});
+		expect(items(tree).find((item) => item.text === "gone")?.deletedBy).toBe("ana");
+	});
+});
+
+describe("sharedTreeClient comments", () => {
+	const ana = { id: "ana", name: "Ana" };
+	const ben = { id: "ben", name: "Ben" };
+
+	function bodies(tree: StarterTreeView, itemId: string): string[] {
+		const item = flattenItems(items(tree)).find((candidate) => candidate.id === itemId);
+		return flattenComments(item?.comments ?? []).map((comment) => comment.body);
+	}
+
+	it("starts threads and nests replies under them", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		const thread = addComment(tree, id, ana, "  Who owns this?  ") ?? "";
+		addComment(tree, id, ben, "I do", thread);
+		addComment(tree, id, ana, "Second thread");
+
+		expect(bodies(tree, id)).toEqual(["Who owns this?", "I do", "Second thread"]);
+		const [first] = items(tree)[0].comments ?? [];
+		expect([first.authorId, first.authorName, first.replies?.length]).toEqual([
+			"ana",
+			"Ana",
+			1,
+		]);
+		expect(addComment(tree, id, ana, "orphan", "missing")).toBeUndefined();
+		expect(() => addComment(tree, id, ana, "   ")).toThrow();
+	});
+
+	it("lets only the author edit a comment", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		const comment = addComment(tree, id, ana, "draft") ?? "";
+		editComment(tree, id, comment, "ben", "hijacked");
+		expect(bodies(tree, id)).toEqual(["draft"]);
+
+		editComment(tree, id, comment, "ana", "final");
+		expect(bodies(tree, id)).toEqual(["final"]);
+		expect(items(tree)[0].comments?.[0].editedAt).toBeDefined();
+	});
+
+	it("resolves and reopens threads", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		const thread = addComment(tree, id, ana, "question") ?? "";
+		resolveThread(tree, id, thread);
+		expect(items(tree)[0].comments?.[0].resolved).toBe(true);
+		resolveThread(tree, id, thread, false);
+		expect(items(tree)[0].comments?.[0].resolved).toBe(false);
+	});
+
+	it("counts unread comments from others on open threads", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		const thread = addComment(tree, id, ana, "question") ?? "";
+		addComment(tree, id, ben, "answer", thread);
+		const item = items(tree)[0];
+
+		expect(getUnreadCommentCount(item, "ana", undefined)).toBe(1);
+		expect(getUnreadCommentCount(item, "carol", undefined)).toBe(2);
+		expect(getUnreadCommentCount(item, "carol", Date.now() + 1)).toBe(0);
+		resolveThread(tree, id, thread);
+		expect(getUnreadCommentCount(item, "carol", undefined)).toBe(0);
+	});
+
+	it("keeps concurrent replies from different clients", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		const thread = addComment(tree, id, ana, "question") ?? "";
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+
+		addComment(alice, id, ana, "from ana", thread);
+		addComment(bob, id, ben, "from ben", thread);
+		resolveThread(bob, id, thread);
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		// Both replies survive; concurrent appends have no meaningful relative order.
+		expect(bodies(tree, id).sort()).toEqual(["from ana", "from ben", "question"]);
+		expect(items(tree)[0].comments?.[0].resolved).toBe(true);
+	});
+
+	it("keeps concurrent first threads on a new item", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+
+		addComment(alice, id, ana, "from ana");
+		addComment(bob, id, ben, "from ben");
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		expect(bodies(tree, id).sort()).toEqual(["from ana", "from ben"]);
+	});
+});
+
+describe("sharedTreeClient dependencies", () => {
+	function blockerTexts(tree: StarterTreeView, text: string): string[] {
+		const item = items(tree).find((candidate) => candidate.text === text);
+		return item ? getBlockers(tree.root, item).map((blocker) => blocker.text) : [];
+	}
+
+	it("blocks an item until its dependencies are complete", () => {
+		const tree = createTree(["design", "build", "ship"]);
+		addDependency(tree, idOf(tree, "ship"), idOf(tree, "build"));
+		addDependency(tree, idOf(tree, "ship"), idOf(tree, "design"));
+		addDependency(tree, idOf(tree, "ship"), idOf(tree, "design"));
+
+		expect(blockerTexts(tree, "ship")).toEqual(["build", "design"]);
+		expect(getBlockedItemIds(tree.root)).toEqual(new Set([idOf(tree, "ship")]));
+
+		toggleItem(tree, idOf(tree, "build"));
+		expect(blockerTexts(tree, "ship")).toEqual(["design"]);
+		toggleItem(tree, idOf(tree, "design"));
+		expect(getBlockedItemIds(tree.root).size).toBe(0);
+		expect(getDependencies(tree.root, items(tree)[2]).map((item) => item.text)).toEqual([
+			"build",
+			"design",
+		]);
+
+		removeDependency(tree, idOf(tree, "ship"), idOf(tree, "build"));
+		expect([...(items(tree)[2].blockedBy ?? [])]).toEqual([idOf(tree, "design")]);
+	});
+
+	it("rejects dependencies that would create a cycle", () => {
+		const tree = createTree(["a", "b", "c"]);
+		addDependency(tree, idOf(tree, "b"), idOf(tree, "a"));
+		addDependency(tree, idOf(tree, "c"), idOf(tree, "b"));
+
+		expect(() => addDependency(tree, idOf(tree, "a"), idOf(tree, "c"))).toThrow(
+			'"a" cannot wait on "c", which already waits on it'
+		);
+		expect(() => addDependency(tree, idOf(tree, "a"), idOf(tree, "a"))).toThrow(
+			'"a" cannot wait on itself'
+		);
+		expect([...(items(tree)[0].blockedBy ?? [])]).toEqual([]);
+		expect(wouldCreateCycle(tree.root, idOf(tree, "a"), idOf(tree, "b"))).toBe(true);
+		expect(wouldCreateCycle(tree.root, idOf(tree, "c"), idOf(tree, "a"))).toBe(false);
+	});
+
+	it("ignores trashed and purged dependencies", () => {
+		const tree = createTree(["a", "b"]);
+		const a = idOf(tree, "a");
+		addDependency(tree, idOf(tree, "b"), a);
+
+		removeItem(tree, a);
+		expect(blockerTexts(tree, "b")).toEqual([]);
+		restoreItem(tree, a);
+		expect(blockerTexts(tree, "b")).toEqual(["a"]);
+		removeItem(tree, a);
+		purgeItem(tree, a);
+		expect(blockerTexts(tree, "b")).toEqual([]);
+		expect(getBlockedItemIds(tree.root).size).toBe(0);
+	});
+
+	it("reports items unblocked by completed dependencies", () => {
+		const tree = createTree(["a", "b", "c", "d"]);
+		const [a, b, c, d] = ["a", "b", "c", "d"].map((text) => idOf(tree, text));
+		addDependency(tree, c, a);
+		addDependency(tree, d, b);
+		const blocked = getBlockedItemIds(tree.root);
+
+		toggleItem(tree, a);
+		removeDependency(tree, d, b);
+
+		expect(getNewlyUnblockedItems(tree.root, blocked).map((item) => item.text)).toEqual(["c"]);
+	});
+
+	it("tolerates a cycle closed by concurrent edits", () => {
+		const tree = createTree(["a", "b"]);
+		const a = idOf(tree, "a");
+		const b = idOf(tree, "b");
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+
+		addDependency(alice, a, b);
+		addDependency(bob, b, a);
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		expect(getBlockedItemIds(tree.root)).toEqual(new Set([a, b]));
+		expect(wouldCreateCycle(tree.root, a, b)).toBe(true);
+		removeDependency(tree, a, b);
+		expect(getBlockedItemIds(tree.root)).toEqual(new Set([b]));
+	});
+});
+
+describe("sharedTreeClient recurrence", () => {
+	it("computes the next due date for each rule", () => {
+		const today = "2026-01-01";
+		expect(getNextDueDate({ frequency: "daily" }, "2026-01-05", today)).toBe("2026-01-06");
+		expect(getNextDueDate({ frequency: "interval", days: 3 }, "2026-01-05", today)).toBe(
+			"2026-01-08"
+		);
+		expect(getNextDueDate({ frequency: "monthly" }, "2026-01-31", today)).toBe("2026-02-28");
+		// 2026-01-05 is a Monday; the next Monday or Friday is that Friday.
+		expect(getNextDueDate({ frequency: "weekly", weekdays: [1, 5] }, "2026-01-05", today)).toBe(
+			"2026-01-09"
+		);
+		expect(getNextDueDate({ frequency: "daily" }, undefined, today)).toBe("2026-01-02");
+		expect(getNextDueDate({ frequency: "daily" }, "2025-12-01", today)).toBe("2026-01-01");
+	});
+
+	it("spawns the next occurrence when a recurring item is checked", () => {
+		const tree = createTree(["standup"]);
+		const id = idOf(tree, "standup");
+		addItem(tree, listId(tree), "agenda", "seed", id);
+		setItemDueDate(tree, id, "2999-01-05");
+		setItemPriority(tree, id, "high");
+		setItemRecurrence(tree, id, { frequency: "daily" });
+
+		toggleItem(tree, id, "ana");
+
+		const [done, next] = items(tree);
+		expect(done.done).toBe(true);
+		expect(done.recurrence).toBeUndefined();
+		expect(next.id).not.toBe(id);
+		expect(next).toMatchObject({ text: "standup", done: false, statusId: "todo" });
+		expect(next.dueDate).toBe("2999-01-06");
+		expect(getItemPriority(next)).toBe("high");
+		expect(getRecurrenceRule(next)).toEqual({ frequency: "daily" });
+		expect(next.children?.map((child) => [child.text, child.done])).toEqual([
+			["agenda", false],
+		]);
+
+		// Unchecking the completed occurrence does not spawn another one.
+		toggleItem(tree, id);
+		toggleItem(tree, id);
+		expect(texts(tree)).toEqual(["standup", "standup"]);
+	});
+
+	it("spawns when moved into a complete status", () => {
+		const tree = createTree(["report"]);
+		const id = idOf(tree, "report");
+		setItemRecurrence(tree, id, { frequency: "weekly", weekdays: [5, 1, 5] });
+		expect(getRecurrenceRule(items(tree)[0])).toEqual({
+			frequency: "weekly",
+			weekdays: [1, 5],
+		});
+
+		setItemStatus(tree, id, "in-review");
+		expect(texts(tree)).toEqual(["report"]);
+		setItemStatus(tree, id, "done");
+		expect(texts(tree)).toEqual(["report", "report"]);
+	});
+
+	it("spawns exactly once when two clients complete the same occurrence", () => {
+		const tree = createTree(["backup"]);
+		const id = idOf(tree, "backup");
+		setItemRecurrence(tree, id, { frequency: "interval", days: 2 });
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+
+		toggleItem(alice, id, "alice");
+		setItemStatus(bob, id, "done", "bob");
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		expect(texts(tree)).toEqual(["backup", "backup"]);
+		expect(items(tree).map((item) => item.done)).toEqual([true, false]);
+		expect(items(tree)[0].author).toBe("alice");
+	});
+
+	it("rejects invalid rules", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		expect(() => setItemRecurrence(tree, id, { frequency: "weekly", weekdays: [] })).toThrow(
+			"at least one weekday"
+		);
+		expect(() => setItemRecurrence(tree, id, { frequency: "interval", days: 1.5 })).toThrow(
+			"Invalid interval 1.5"
+		);
+		setItemRecurrence(tree, id, { frequency: "monthly" });
+		setItemRecurrence(tree, id, undefined);
+		expect(items(tree)[0].recurrence).toBeUndefined();
+	});
+});
+
+describe("sharedTreeClient tags", () => {
+	function tagNames(tree: StarterTreeView, text: string): string[] {
+		const item = flattenItems(items(tree), { includeTrashed: true }).find(
+			(candidate) => candidate.text === text
+		);
+		return item ? getItemTags(tree.root, item).map((tag) => tag.name) : [];
+	}
+
+	it("manages the catalog and rejects clashing names", () => {
+		const tree = createTree();
+		const bug = addTag(tree, " bug ", "#f43f5e");
+		addTag(tree, "ops", "#38bdf8");
+
+		expect(tree.root.tags?.map((tag) => tag.name)).toEqual(["bug", "ops"]);
+		expect(() => addTag(tree, "Bug", "#000")).toThrow('A tag named "bug" already exists');
+		expect(() => addTag(tree, "  ", "#000")).toThrow("Tag name cannot be empty");
+		expect(() => updateTag(tree, bug, { name: "OPS" })).toThrow("already exists");
+
+		updateTag(tree, bug, { name: "Bug", color: "#000000" });
+		expect(tree.root.tags?.[0]).toMatchObject({ name: "Bug", color: "#000000" });
+	});
+
+	it("keeps a tag added right after the catalog migration when another client races it", () => {
+		const tree = createTree();
+		tree.root.tags = undefined;
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+		migrateTagCatalog(alice);
+		addTag(alice, "bug", "#f43f5e");
+		migrateTagCatalog(bob);
+
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		const { tags } = tree.root as AppModel;
+		expect(tags?.map((tag) => tag.name)).toEqual(["bug"]);
+	});
+
+	it("tags items and filters them", () => {
+		const tree = createTree(["a", "b"]);
+		addItem(tree, listId(tree), "child", "seed", idOf(tree, "b"));
+		const bug = addTag(tree, "bug", "#f43f5e");
+		const ops = addTag(tree, "ops", "#38bdf8");
+		addItemTag(tree, idOf(tree, "a"), bug);
+		addItemTag(tree, idOf(tree, "a"), ops);
+		addItemTag(tree, idOf(tree, "a"), ops);
+		addItemTag(tree, idOf(tree, "child"), ops);
+
+		expect(tagNames(tree, "a")).toEqual(["bug", "ops"]);
+		const any = filterItems(items(tree), (item) => hasTags(item, [bug, ops]));
+		expect(any.map((item) => item.text)).toEqual(["a", "b"]);
+		const all = filterItems(items(tree), (item) => hasTags(item, [bug, ops], "all"));
+		expect(all.map((item) => item.text)).toEqual(["a"]);
+
+		removeItemTag(tree, idOf(tree, "a"), bug);
+		expect(tagNames(tree, "a")).toEqual(["ops"]);
+	});
+
+	it("merges and deletes tags across every item in one edit", () => {
+		const tree = createTree(["a", "b", "c"]);
+		const bug = addTag(tree, "bug", "#f43f5e");
+		const defect = addTag(tree, "defect", "#fb923c");
+		const ops = addTag(tree, "ops", "#38bdf8");
+		addItemTag(tree, idOf(tree, "a"), defect);
+		addItemTag(tree, idOf(tree, "a"), ops);
+		addItemTag(tree, idOf(tree, "b"), bug);
+		addItemTag(tree, idOf(tree, "b"), defect);
+		addItemTag(tree, idOf(tree, "c"), ops);
+		removeItem(tree, idOf(tree, "c"));
+
+		mergeTags(tree, defect, bug);
+		expect(tagNames(tree, "a")).toEqual(["bug", "ops"]);
+		expect(tagNames(tree, "b")).toEqual(["bug"]);
+		expect(tree.root.tags?.map((tag) => tag.name)).toEqual(["bug", "ops"]);
+
+		deleteTag(tree, ops);
+		expect(tagNames(tree, "a")).toEqual(["bug"]);
+		expect([...(items(tree)[2].tagIds ?? [])]).toEqual([]);
+		expect(tree.root.tags?.map((tag) => tag.name)).toEqual(["bug"]);
+	});
+
+	it("keeps tags created concurrently by different clients", () => {
+		const tree = createTree(["a"]);
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+
+		addItemTag(alice, idOf(tree, "a"), addTag(alice, "bug", "#f43f5e"));
+		addItemTag(bob, idOf(tree, "a"), addTag(bob, "ops", "#38bdf8"));
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		expect(tree.root.tags?.map((tag) => tag.name).sort()).toEqual(["bug", "ops"]);
+		expect(tagNames(tree, "a").sort()).toEqual(["bug", "ops"]);
+	});
+});
+
+describe("sharedTreeClient votes and reactions", () => {
+	it("counts one vote per user and sorts by votes", () => {
+		const tree = createTree(["a", "b", "c"]);
+		const [a, b, c] = [idOf(tree, "a"), idOf(tree, "b"), idOf(tree, "c")];
+
+		expect(toggleVote(tree, c, "alice")).toBe(true);
+		expect(toggleVote(tree, c, "bob")).toBe(true);
+		expect(toggleVote(tree, b, "alice")).toBe(true);
+		expect(toggleVote(tree, a, "bob")).toBe(true);
+		expect(toggleVote(tree, a, "bob")).toBe(false);
+
+		expect(items(tree).map(getVoteCount)).toEqual([0, 1, 2]);
+		expect(hasVoted(items(tree)[2], "bob")).toBe(true);
+		expect(hasVoted(items(tree)[0], "bob")).toBe(false);
+		expect(sortByVotes(items(tree)).map((item) => item.text)).toEqual(["c", "b", "a"]);
+		expect([...getVoterIds(tree.root.lists![0])].sort()).toEqual(["alice", "bob"]);
+	});
+
+	it("keeps a single vote when the same user votes from two clients", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		const laptop = asTreeViewAlpha(tree).fork();
+		const phone = asTreeViewAlpha(tree).fork();
+		const other = asTreeViewAlpha(tree).fork();
+
+		toggleVote(laptop, id, "alice");
+		toggleVote(phone, id, "alice");
+		toggleVote(other, id, "bob");
+		asTreeViewAlpha(tree).merge(laptop);
+		asTreeViewAlpha(tree).merge(phone);
+		asTreeViewAlpha(tree).merge(other);
+
+		expect(getVoteCount(items(tree)[0])).toBe(2);
+	});
+
+	it("toggles reactions and groups them by emoji", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		toggleReaction(tree, id, "alice", "🎉");
+		toggleReaction(tree, id, "bob", "👍");
+		toggleReaction(tree, id, "bob", "🎉");
+		toggleReaction(tree, id, "alice", "👀");
+		toggleReaction(tree, id, "alice", "👀");
+
+		expect(getReactions(items(tree)[0])).toEqual([
+			{ emoji: "👍", userIds: ["bob"] },
+			{ emoji: "🎉", userIds: ["alice", "bob"] },
+		]);
+		expect(() => toggleReaction(tree, id, "alice", "🦄")).toThrow("Unsupported reaction");
+	});
+});
+
+describe("sharedTreeClient time tracking", () => {
+	it("logs time, totals it with estimates and skips trashed items", () => {
+		const tree = createTree(["a", "b", "c"]);
+		addItem(tree, listId(tree), "child", "seed", idOf(tree, "a"));
+		setItemEstimate(tree, idOf(tree, "a"), 120);
+		setItemEstimate(tree, idOf(tree, "child"), 30);
+		setItemEstimate(tree, idOf(tree, "c"), 60);
+		logTime(tree, idOf(tree, "a"), { userId: "alice", minutes: 45, note: " review " });
+		const entryId = logTime(tree, idOf(tree, "child"), { userId: "bob", minutes: 20 });
+		logTime(tree, idOf(tree, "c"), { userId: "bob", minutes: 10 });
+		removeItem(tree, idOf(tree, "c"));
+
+		const [a] = items(tree);
+		expect(getLoggedMinutes(a)).toBe(45);
+		expect(a.timeEntries?.[0]).toMatchObject({ userId: "alice", minutes: 45, note: "review" });
+		expect(getTimeTotals(tree.root.lists![0])).toEqual({
+			estimatedMinutes: 150,
+			loggedMinutes: 65,
+		});
+
+		removeTimeEntry(tree, idOf(tree, "child"), entryId ?? "");
+		expect(getTimeTotals(tree.root.lists![0]).loggedMinutes).toBe(45);
+	});
+
+	it("rejects invalid durations", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		expect(() => setItemEstimate(tree, id, -5)).toThrow("Estimate must be zero or more");
+		expect(() => logTime(tree, id, { userId: "alice", minutes: 0 })).toThrow(
+			"more than zero minutes"
+		);
+		setItemEstimate(tree, id, 30);
+		setItemEstimate(tree, id, undefined);
+		expect(items(tree)[0].estimateMinutes).toBeUndefined();
+	});
+
+	it("keeps time logged concurrently by different clients", () => {
+		const tree = createTree(["a"]);
+		const id = idOf(tree, "a");
+		const alice = asTreeViewAlpha(tree).fork();
+		const bob = asTreeViewAlpha(tree).fork();
+
+		logTime(alice, id, { userId: "alice", minutes: 25 });
+		logTime(bob, id, { userId: "bob", minutes: 50 });
+		asTreeViewAlpha(tree).merge(alice);
+		asTreeViewAlpha(tree).merge(bob);
+
+		expect(getLoggedMinutes(items(tree)[0])).toBe(75);
+	});
+});
+
+describe("sharedTreeClient bulk operations", () => {
+	it("clears completed items but keeps parents with open subtasks", () => {
+		const tree = createTree(["a", "b", "c"]);
+		addItem(tree, listId(tree), "b1", "seed", idOf(tree, "b"));
+		addItem(tree, listId(tree), "b2", "seed", idOf(tree, "b"));
+		addItem(tree, listId(tree), "c1", "seed", idOf(tree, "c"));
+		for (const text of ["a", "b", "b1", "c", "c1"]) {
+			toggleItem(tree, idOf(tree, text));
+		}
+
+		expect(clearCompleted(tree, listId(tree), "ana")).toBe(3);
+		expect(texts(tree)).toEqual(["b"]);
+		expect(visibleItems(items(tree)[1].children ?? []).map((item) => item.text)).toEqual([
+			"b2",
+		]);
+		expect(getTrashedItems(tree.root.lists![0]).map((item) => item.text)).toEqual([
+			"a",
+			"b1",
+			"c",
+		]);
+		expect(clearCompleted(tree, listId(tree))).toBe(0);
+	});
+
+	it("marks every item done or not done, spawning recurring occurrences", () => {
+		const tree = createTree(["a", "standup"]);
+		addItem(tree, listId(tree), "a1", "seed", idOf(tree, "a"));
+		setItemRecurrence(tree, idOf(tree, "standup"), { frequency: "daily" });
+
+		expect(setAllDone(tree, listId(tree), true, "ana")).toBe(3);
+		expect(flattenItems(items(tree)).map((item) => [item.text, item.done])).toEqual([
+			["a", true],
+			["a1", true],
+			["standup", true],
+			["standup", false],
+		]);
+		expect(getItemStatus(tree.root.workflow!, items(tree)[0])?.countsAsComplete).toBe(true);
+
+		expect(setAllDone(tree, listId(tree), false)).toBe(3);
+		expect(flattenItems(items(tree)).every((item) => !item.done)).toBe(true);
+	});
+
+	it("sorts each level by text, author, last update and due date", () => {
+		const tree = createTree(["item 10", "Banana", "item 9", "apple"]);
+		addItem(tree, listId(tree), "z", "seed", idOf(tree, "apple"));
+		addItem(tree, listId(tree), "y", "seed", idOf(tree, "apple"));
+
+		sortItems(tree, listId(tree), "text");
+		expect(texts(tree)).toEqual(["apple", "Banana", "item 9", "item 10"]);
+		expect([...(items(tree)[0].children ?? [])].map((item) => item.text)).toEqual(["y", "z"]);
+
+		setItemDueDate(tree, idOf(tree, "item 9"), "2026-03-01");
+		setItemDueDate(tree, idOf(tree, "Banana"), "2026-02-01");
+		sortItems(tree, listId(tree), "dueDate");
+		expect(texts(tree)).toEqual(["Banana", "item 9", "apple", "item 10"]);
+
+		const [first, second] = items(tree);
+		first.updatedAt = 1;
+		second.updatedAt = 3;
+		items(tree)[2].updatedAt = 2;
+		items(tree)[3].updatedAt = undefined;
+		sortItems(tree, listId(tree), "updatedAt");
+		expect(texts(tree)).toEqual(["item 9", "apple", "Banana", "item 10"]);
+
+		setItemPriority(tree, idOf(tree, "apple"), "low", "zoe");
+		setItemPriority(tree, idOf(tree, "Banana"), "low", "ana");
+		sortItems(tree, listId(tree), "author");
+		expect(texts(tree)).toEqual(["Banana", "item 9", "item 10", "apple"]);
+	});
+
+	it("finds exact and near duplicates, keeping the first of each group", () => {
+		const tree = createTree([
+			"Buy milk",
+			"buy milk ",
+			"Buy milk!",
+			"Buy mlk",
+			"Call the bank",
+			"Call Bob",
+		]);
+		const list = tree.root.lists![0];
+		expect(findDuplicates(list, "exact").map((group) => group.map((i) => i.text))).toEqual([
+			["Buy milk", "buy milk "],
+		]);
+		expect(findDuplicates(list, "near").map((group) => group.map((i) => i.text))).toEqual([
+			["Buy milk", "buy milk ", "Buy milk!", "Buy mlk"],
+		]);
+
+		expect(removeDuplicates(tree, listId(tree), "near", "ana")).toBe(3);
+		expect(texts(tree)).toEqual(["Buy milk", "Call the bank", "Call Bob"]);
+	});
+
+	it("leaves duplicates with open subtasks alone", () => {
+		const tree = createTree(["Plan trip", "Plan trip"]);
+		addItem(tree, listId(tree), "book hotel", "seed", items(tree)[1].id);
+
+		expect(findDuplicates(tree.root.lists![0], "exact")).toEqual([]);
+		expect(removeDuplicates(tree, listId(tree), "exact")).toBe(0);
+	});
+
+	it("undoes each bulk operation in one step", () => {
+		const tree = createTree(["b", "a", "a"]);
+		const undoRedo = createUndoRedo(tree);
+
+		sortItems(tree, listId(tree), "text");
+		removeDuplicates(tree, listId(tree), "exact");
+		setAllDone(tree, listId(tree), true);
+		expect(texts(tree)).toEqual(["a", "b"]);
+
+		undoRedo.undo();
+		expect(flattenItems(items(tree)).some((item) => item.done)).toBe(false);
+		undoRedo.undo();
+		expect(texts(tree)).toEqual(["a", "a", "b"]);
+		undoRedo.undo();
+		expect(texts(tree)).toEqual(["b", "a", "a"]);
+	});
+});
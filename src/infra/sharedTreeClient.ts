@@ -1,92 +1,2295 @@
 import { AzureClient } from "@fluidframework/azure-client";
-import { IFluidContainer, Tree } from "fluid-framework";
+import { IFluidContainer, IFluidHandle, Tree, TransactionConstraint } from "fluid-framework";
 import { loadFluidData } from "./fluid.js";
 import { containerSchema } from "../schema/containerSchema.js";
+import { ActivityOperation, recordActivity, runLoggedTransaction } from "./activityLog.js";
+import { runSeedingMigration } from "./migrations.js";
+import { ListSnapshot, toListSnapshot } from "./snapshot.js";
 import {
 	starterTreeConfiguration,
 	getDefaultStarterContent,
 	StarterTreeView,
 	AppModel,
-	Items,
+	Attachment,
+	Attachments,
+	Checklist,
+	Checklists,
+	Comment,
+	Comments,
 	Item,
+	ItemIds,
+	Items,
+	Priority,
+	priorities,
+	reactionEmojis,
+	Reactions,
+	Recurrence,
+	RecurrenceFrequency,
+	recurrenceFrequencies,
+	Tag,
+	TagIds,
+	Tags,
+	TimeEntries,
+	TimeEntry,
+	UserReactions,
+	Votes,
+	Weekdays,
+	Workflow,
+	WorkflowStatus,
+	getDefaultWorkflow,
+	defaultTrashRetentionDays,
 } from "../schema/starterSchema.js";
+import { addDays, addMonths, isIsoDate, todayIsoDate, weekdayOf } from "../utils/dates.js";
+import { editDistance } from "../utils/text.js";
 
 export type StarterContainerAssets = {
 	container: IFluidContainer<typeof containerSchema>;
 	tree: StarterTreeView;
 };
 
+/**
+ * Loads the document, or creates a detached one when `containerId` is empty. New documents are
+ * initialized with `initialContent` (the default starter content when omitted) before they are
+ * attached, so their first snapshot already contains it.
+ */
 export async function loadStarterContainer(props: {
 	client: AzureClient;
 	containerId: string;
+	initialContent?: () => AppModel;
 }): Promise<StarterContainerAssets> {
-	const { client, containerId } = props;
+	const { client, containerId, initialContent = getDefaultStarterContent } = props;
 	const { container } = await loadFluidData(containerId, containerSchema, client);
 
 	const tree = container.initialObjects.appData.viewWith(starterTreeConfiguration);
 	if (tree.compatibility.canInitialize) {
-		tree.initialize(getDefaultStarterContent());
+		tree.initialize(initialContent());
 	}
+	// Documents from other schema versions are left untouched here; see `schemaCompatibility.ts`
+	// for the upgrade prompt and read-only fallback.
 
 	return { container, tree };
 }
 
-export function addItem(tree: StarterTreeView, text: string, author?: string): void {
+/**
+ * Wraps a pre-lists document's single title and items into the first named list. Runs at most
+ * once per document: the transaction retires the legacy `items` node, so a concurrent migration
+ * from another client fails its precondition and is dropped rather than replacing the list (and
+ * any edits already made to it) with a second copy.
+ */
+export function migrateLegacyList(tree: StarterTreeView): void {
+	const root = requireRoot(tree);
+	if (root.lists !== undefined) {
+		return;
+	}
+	const legacyItems = root.items;
+	runLoggedTransaction(root, () => {
+		const list = new Checklist({
+			id: crypto.randomUUID(),
+			title: root.title,
+			items: new Items([]),
+		});
+		root.lists = new Checklists([list]);
+		if (legacyItems.length > 0) {
+			list.items.moveRangeToEnd(0, legacyItems.length, legacyItems);
+		}
+		root.items = new Items([]);
+	}, [{ type: "nodeInDocument", node: legacyItems }]);
+}
+
+/**
+ * Gives a pre-tags document an empty tag catalog, so that tags created concurrently by several
+ * clients are appended to the same array.
+ */
+export function migrateTagCatalog(tree: StarterTreeView): void {
+	const root = requireRoot(tree);
+	if (root.tags !== undefined) {
+		return;
+	}
+	runSeedingMigration(root, () => {
+		root.tags = new Tags([]);
+	});
+}
+
+/**
+ * Gives a pre-workflow document the default workflow and moves each item to its first status, or
+ * to its last status when it was done. Only the first of several concurrent migrations applies,
+ * so statuses added to its workflow right away are not replaced by another client's.
+ */
+export function migrateWorkflow(tree: StarterTreeView): void {
+	const root = requireRoot(tree);
+	if (root.workflow !== undefined) {
+		return;
+	}
+	runSeedingMigration(root, () => {
+		const workflow = getDefaultWorkflow();
+		root.workflow = workflow;
+		for (const item of allItems(root)) {
+			if (item.statusId === undefined) {
+				item.statusId = statusForDone(workflow, item.done)?.id;
+			}
+		}
+	});
+}
+
+export function getLists(tree: StarterTreeView): Checklists {
 	const root = requireRoot(tree);
-	Tree.runTransaction(root, () => {
-		const newItem = new Item({
+	if (!root.lists) {
+		throw new Error("Document has not been migrated to named lists");
+	}
+	return root.lists;
+}
+
+export function findList(tree: StarterTreeView, listId: string): Checklist | undefined {
+	return getLists(tree).find((list) => list.id === listId);
+}
+
+/** @returns The id of the new list. */
+export function addList(
+	tree: StarterTreeView,
+	title: string,
+	index?: number,
+	author?: string
+): string {
+	const lists = getLists(tree);
+	return runLoggedTransaction(lists, () => {
+		const list = new Checklist({ id: crypto.randomUUID(), title, items: new Items([]) });
+		lists.insertAt(index ?? lists.length, list);
+		recordActivity(requireRoot(tree), author, { operation: "addList", subject: title });
+		return list.id;
+	});
+}
+
+export function renameList(
+	tree: StarterTreeView,
+	listId: string,
+	title: string,
+	author?: string
+): void {
+	const lists = getLists(tree);
+	runLoggedTransaction(lists, () => {
+		const list = lists.find((candidate) => candidate.id === listId);
+		if (list && list.title !== title) {
+			recordActivity(requireRoot(tree), author, {
+				operation: "renameList",
+				subject: title,
+				before: list.title,
+				after: title,
+			});
+			list.title = title;
+		}
+	});
+}
+
+/** Deletes a list and its items. The last remaining list cannot be removed. */
+export function removeList(tree: StarterTreeView, listId: string, author?: string): void {
+	const lists = getLists(tree);
+	runLoggedTransaction(lists, () => {
+		const index = lists.findIndex((list) => list.id === listId);
+		if (index === -1 || lists.length <= 1) {
+			return;
+		}
+		recordActivity(requireRoot(tree), author, {
+			operation: "removeList",
+			subject: lists[index].title,
+		});
+		lists.removeAt(index);
+	});
+}
+
+/** Moves a list so it ends up at `index` in the sidebar order. */
+export function moveList(
+	tree: StarterTreeView,
+	listId: string,
+	index: number,
+	author?: string
+): void {
+	const lists = getLists(tree);
+	runLoggedTransaction(lists, () => {
+		const sourceIndex = lists.findIndex((list) => list.id === listId);
+		if (sourceIndex === -1) {
+			return;
+		}
+		const target = Math.max(0, Math.min(index, lists.length - 1));
+		if (target !== sourceIndex) {
+			recordActivity(requireRoot(tree), author, {
+				operation: "moveList",
+				subject: lists[sourceIndex].title,
+			});
+			lists.moveToIndex(target > sourceIndex ? target + 1 : target, sourceIndex);
+		}
+	});
+}
+
+/** Completion across every item (subtasks included) of a list. */
+export function getListProgress(list: Checklist): { done: number; total: number } {
+	const items = flattenItems(list.items);
+	return { done: items.filter((item) => item.done).length, total: items.length };
+}
+
+/** How many of a list's items (subtasks included) are in each workflow status, in order. */
+export function getStatusCounts(
+	list: Checklist,
+	workflow: Iterable<WorkflowStatus>
+): { status: WorkflowStatus; count: number }[] {
+	const statuses = [...workflow];
+	const counts = new Map(statuses.map((status) => [status, 0]));
+	for (const item of flattenItems(list.items)) {
+		const status = getItemStatus(statuses, item);
+		if (status) {
+			counts.set(status, (counts.get(status) ?? 0) + 1);
+		}
+	}
+	return statuses.map((status) => ({ status, count: counts.get(status) ?? 0 }));
+}
+
+/**
+ * The item's workflow status. Items without a (known) status, and items whose `done` flag no
+ * longer matches their status because an older client toggled it, resolve to the first
+ * incomplete status or the last complete one.
+ */
+export function getItemStatus(
+	workflow: Iterable<WorkflowStatus>,
+	item: { statusId?: string; done: boolean }
+): WorkflowStatus | undefined {
+	const statuses = [...workflow];
+	const status = statuses.find((candidate) => candidate.id === item.statusId);
+	if (status && status.countsAsComplete === item.done) {
+		return status;
+	}
+	return statusForDone(statuses, item.done);
+}
+
+/** @returns The id of the new status. */
+export function addStatus(
+	tree: StarterTreeView,
+	name: string,
+	color: string,
+	countsAsComplete = false,
+	author?: string
+): string {
+	const workflow = getWorkflow(tree);
+	return runLoggedTransaction(workflow, () => {
+		const status = new WorkflowStatus({
 			id: crypto.randomUUID(),
+			name,
+			color,
+			countsAsComplete,
+		});
+		workflow.insertAtEnd(status);
+		recordActivity(requireRoot(tree), author, { operation: "addStatus", subject: name });
+		return status.id;
+	});
+}
+
+/**
+ * Renames or recolors a status, or changes whether it counts as complete. In the latter case the
+ * `done` flag of every item in the status follows.
+ */
+export function updateStatus(
+	tree: StarterTreeView,
+	statusId: string,
+	changes: Partial<Pick<WorkflowStatus, "name" | "color" | "countsAsComplete">>,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const status = root.workflow?.find((candidate) => candidate.id === statusId);
+		if (!status) {
+			return;
+		}
+		const before = describeStatus(status);
+		if (changes.name !== undefined && changes.name !== status.name) {
+			status.name = changes.name;
+		}
+		if (changes.color !== undefined && changes.color !== status.color) {
+			status.color = changes.color;
+		}
+		if (
+			changes.countsAsComplete !== undefined &&
+			changes.countsAsComplete !== status.countsAsComplete
+		) {
+			// Resolve membership before flipping the flag, which changes how items resolve.
+			const members = allItems(root).filter(
+				(item) => getItemStatus(root.workflow ?? [], item) === status
+			);
+			status.countsAsComplete = changes.countsAsComplete;
+			for (const item of members) {
+				item.statusId = status.id;
+				item.done = status.countsAsComplete;
+			}
+		}
+		const after = describeStatus(status);
+		if (after !== before) {
+			recordActivity(root, author, {
+				operation: "updateStatus",
+				subject: status.name,
+				before,
+				after,
+			});
+		}
+	});
+}
+
+/** Moves a status so it ends up at `index` in the workflow order. */
+export function moveStatus(
+	tree: StarterTreeView,
+	statusId: string,
+	index: number,
+	author?: string
+): void {
+	const workflow = getWorkflow(tree);
+	runLoggedTransaction(workflow, () => {
+		const sourceIndex = workflow.findIndex((status) => status.id === statusId);
+		if (sourceIndex === -1) {
+			return;
+		}
+		const target = Math.max(0, Math.min(index, workflow.length - 1));
+		if (target !== sourceIndex) {
+			recordActivity(requireRoot(tree), author, {
+				operation: "moveStatus",
+				subject: workflow[sourceIndex].name,
+			});
+			workflow.moveToIndex(target > sourceIndex ? target + 1 : target, sourceIndex);
+		}
+	});
+}
+
+/**
+ * Deletes a status, moving its items to the previous status (or the next one when it was first).
+ * The last remaining status cannot be removed.
+ */
+export function removeStatus(tree: StarterTreeView, statusId: string, author?: string): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const workflow = root.workflow;
+		const index = workflow?.findIndex((status) => status.id === statusId) ?? -1;
+		if (!workflow || index === -1 || workflow.length <= 1) {
+			return;
+		}
+		const removed = workflow[index];
+		const replacement = workflow[index === 0 ? 1 : index - 1];
+		for (const item of allItems(root)) {
+			if (getItemStatus(workflow, item) === removed) {
+				applyStatus(item, replacement, author);
+			}
+		}
+		recordActivity(root, author, {
+			operation: "removeStatus",
+			subject: removed.name,
+			after: `items moved to ${replacement.name}`,
+		});
+		workflow.removeAt(index);
+	});
+}
+
+/**
+ * Moves the item to another status of the workflow, keeping its `done` flag in step. Completing a
+ * recurring item spawns its next occurrence, as `toggleItem` does.
+ */
+export function setItemStatus(
+	tree: StarterTreeView,
+	id: string,
+	statusId: string,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	const target = findInLists(root, id)?.item;
+	runLoggedTransaction(
+		root,
+		() => {
+			const item = findInLists(root, id)?.item;
+			const status = root.workflow?.find((candidate) => candidate.id === statusId);
+			if (!item || !status || item.statusId === status.id) {
+				return;
+			}
+			const wasDone = item.done;
+			logItem(root, author, "setItemStatus", item, {
+				before: getItemStatus(root.workflow ?? [], item)?.name,
+				after: status.name,
+			});
+			applyStatus(item, status, author);
+			if (item.done && !wasDone) {
+				spawnNextOccurrence(root, item, author);
+			}
+		},
+		recurrencePreconditions(target)
+	);
+}
+
+/** Fields of a new item. Collections not given start out empty. */
+export type NewItemFields = {
+	/** Only for re-creating an item that already has an id elsewhere, e.g. an offline copy. */
+	id?: string;
+	text: string;
+	done?: boolean;
+	statusId?: string;
+	author?: string;
+	dueDate?: string;
+	priority?: string;
+	assigneeId?: string;
+	recurrence?: Recurrence;
+	estimateMinutes?: number;
+	blockedBy?: Iterable<string>;
+	tagIds?: Iterable<string>;
+	attachments?: Iterable<Attachment>;
+	children?: Iterable<Item>;
+};
+
+/**
+ * Creates an unattached item node, with a fresh id unless one is given. Its collections (comments, attachments,
+ * dependencies, tags, votes, reactions and time entries) are always created, even when empty: concurrent first
+ * additions from several clients then land in the same collection, where creating it on demand
+ * would have one client's new collection replace the other's.
+ */
+export function createItem(fields: NewItemFields): Item {
+	return new Item({
+		id: fields.id ?? crypto.randomUUID(),
+		text: fields.text,
+		done: fields.done ?? false,
+		statusId: fields.statusId,
+		author: fields.author,
+		updatedAt: Date.now(),
+		dueDate: fields.dueDate,
+		priority: fields.priority,
+		assigneeId: fields.assigneeId,
+		recurrence: fields.recurrence,
+		estimateMinutes: fields.estimateMinutes,
+		children: fields.children === undefined ? undefined : new Items([...fields.children]),
+		comments: new Comments([]),
+		attachments: new Attachments([...(fields.attachments ?? [])]),
+		blockedBy: new ItemIds([...(fields.blockedBy ?? [])]),
+		tagIds: new TagIds([...(fields.tagIds ?? [])]),
+		votes: new Votes({}),
+		reactions: new Reactions({}),
+		timeEntries: new TimeEntries([]),
+	});
+}
+
+/**
+ * Appends a new item to a list, or as the last subtask of `parentId` when given.
+ * @returns The id of the new item, or undefined if the list does not exist.
+ */
+export function addItem(
+	tree: StarterTreeView,
+	listId: string,
+	text: string,
+	author?: string,
+	parentId?: string
+): string | undefined {
+	const root = requireRoot(tree);
+	return runLoggedTransaction(root, () => {
+		const list = root.lists?.find((candidate) => candidate.id === listId);
+		if (!list) {
+			return undefined;
+		}
+		const newItem = createItem({
 			text,
-			done: false,
+			statusId: statusForDone(root.workflow ?? [], false)?.id,
 			author,
-			updatedAt: Date.now(),
 		});
-		root.items.insertAtEnd(newItem);
+		const parent = parentId === undefined ? undefined : findItem(list.items, parentId);
+		if (parent) {
+			childrenOf(parent.item).insertAtEnd(newItem);
+		} else {
+			list.items.insertAtEnd(newItem);
+		}
+		logItem(root, author, "addItem", newItem);
+		return newItem.id;
+	});
+}
+
+/**
+ * Checks or unchecks the item: moves it to the first complete status, or back to the first
+ * incomplete one.
+ *
+ * Checking a recurring item keeps it, completed and without its rule, as history and inserts the
+ * next occurrence right after it. The transaction requires the item's `Recurrence` node to still
+ * be in the document, and completing removes that node, so when two clients complete the same
+ * occurrence concurrently only the first transaction to be sequenced applies.
+ */
+export function toggleItem(tree: StarterTreeView, id: string, author?: string): void {
+	const root = requireRoot(tree);
+	const target = findInLists(root, id)?.item;
+	runLoggedTransaction(
+		root,
+		() => {
+			const item = findInLists(root, id)?.item;
+			if (!item) {
+				return;
+			}
+			// Mutate the existing node rather than replacing it so concurrent edits to the same
+			// item (text changes, moves) from other clients merge instead of being dropped.
+			const done = !item.done;
+			const status = statusForDone(root.workflow ?? [], done);
+			const before = getItemStatus(root.workflow ?? [], item)?.name;
+			if (status) {
+				applyStatus(item, status, author);
+			} else {
+				item.done = done;
+				stamp(item, author);
+			}
+			logItem(root, author, "toggleItem", item, {
+				before: before ?? String(!done),
+				after: status?.name ?? String(done),
+			});
+			if (done) {
+				spawnNextOccurrence(root, item, author);
+			}
+		},
+		recurrencePreconditions(target)
+	);
+}
+
+/** A recurrence rule as plain data; stored as a `Recurrence` node. */
+export type RecurrenceRule =
+	| { frequency: "daily" }
+	| { frequency: "weekly"; weekdays: readonly number[] }
+	| { frequency: "monthly" }
+	| { frequency: "interval"; days: number };
+
+/**
+ * Makes the item repeat according to `rule`, or stop repeating when it is undefined.
+ * @throws If a weekly rule has no valid weekdays or an interval rule is not a whole number of days.
+ */
+export function setItemRecurrence(
+	tree: StarterTreeView,
+	id: string,
+	rule: RecurrenceRule | undefined,
+	author?: string
+): void {
+	if (rule?.frequency === "weekly") {
+		const valid = rule.weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+		if (!valid || rule.weekdays.length === 0) {
+			throw new Error("Weekly items need at least one weekday between 0 (Sunday) and 6");
+		}
+	}
+	if (rule?.frequency === "interval" && (!Number.isInteger(rule.days) || rule.days < 1)) {
+		throw new Error(`Invalid interval ${rule.days}; expected a whole number of days`);
+	}
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, id)?.item;
+		if (!item || (rule === undefined && item.recurrence === undefined)) {
+			return;
+		}
+		logItem(root, author, "setItemRecurrence", item, {
+			before: item.recurrence?.frequency,
+			after: rule?.frequency,
+		});
+		item.recurrence = rule === undefined ? undefined : toRecurrence(rule);
+		stamp(item, author);
 	});
 }
 
-export function toggleItem(tree: StarterTreeView, id: string): void {
+/** The item's recurrence rule, or undefined if it does not repeat or uses an unknown rule. */
+export function getRecurrenceRule(item: Item): RecurrenceRule | undefined {
+	const recurrence = item.recurrence;
+	const frequency = recurrence?.frequency as RecurrenceFrequency | undefined;
+	if (!recurrence || !frequency || !recurrenceFrequencies.includes(frequency)) {
+		return undefined;
+	}
+	switch (frequency) {
+		case "weekly": {
+			const weekdays = [...(recurrence.weekdays ?? [])];
+			return weekdays.length > 0 ? { frequency, weekdays } : undefined;
+		}
+		case "interval":
+			return recurrence.intervalDays
+				? { frequency, days: recurrence.intervalDays }
+				: undefined;
+		default:
+			return { frequency };
+	}
+}
+
+/**
+ * Due date of the occurrence after one due on `dueDate` (today when undefined). Occurrences that
+ * would already be in the past are skipped, so catching up on a late item does not leave a
+ * backlog of overdue copies.
+ */
+export function getNextDueDate(
+	rule: RecurrenceRule,
+	dueDate: string | undefined,
+	today: string = todayIsoDate()
+): string {
+	let next = advanceDate(rule, dueDate ?? today);
+	while (next < today) {
+		next = advanceDate(rule, next);
+	}
+	return next;
+}
+
+/**
+ * Moves the item, and with it all of its subtasks, to the trash. Anyone can restore it from there
+ * until it is purged.
+ */
+export function removeItem(tree: StarterTreeView, id: string, author?: string): void {
 	const root = requireRoot(tree);
-	Tree.runTransaction(root, () => {
-		const targetIndex = root.items.findIndex((item) => item.id === id);
-		if (targetIndex === -1) {
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, id)?.item;
+		if (!item || isTrashed(item)) {
 			return;
 		}
-		const existing = root.items[targetIndex];
-		root.items.removeAt(targetIndex);
-		root.items.insertAt(
-			targetIndex,
-			new Item({
-				...existing,
-				done: !existing.done,
-				updatedAt: Date.now(),
-			})
-		);
+		item.deletedAt = Date.now();
+		item.deletedBy = author;
+		logItem(root, author, "removeItem", item);
 	});
 }
 
-export function updateTitle(tree: StarterTreeView, title: string): void {
+/** Brings a trashed item (and the subtasks trashed along with it) back to where it was. */
+export function restoreItem(tree: StarterTreeView, id: string, author?: string): void {
 	const root = requireRoot(tree);
-	Tree.runTransaction(root, () => {
-		root.title = title;
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, id)?.item;
+		if (!item || !isTrashed(item)) {
+			return;
+		}
+		item.deletedAt = undefined;
+		item.deletedBy = undefined;
+		logItem(root, author, "restoreItem", item);
 	});
 }
 
-export function replaceItems(tree: StarterTreeView, items: Item[]): void {
+/** Permanently deletes a trashed item and its subtasks. Live items are left alone. */
+export function purgeItem(tree: StarterTreeView, id: string, author?: string): void {
 	const root = requireRoot(tree);
-	Tree.runTransaction(root, () => {
-		root.items = new Items(items);
+	runLoggedTransaction(root, () => {
+		const location = findInLists(root, id);
+		if (!location || !isTrashed(location.item)) {
+			return;
+		}
+		logItem(root, author, "purgeItem", location.item);
+		location.parent.removeAt(location.index);
 	});
 }
 
-export type StarterSnapshot = Pick<AppModel, "title" | "items">;
+/** Permanently deletes every trashed item of a list. */
+export function emptyTrash(tree: StarterTreeView, listId: string, author?: string): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const list = root.lists?.find((candidate) => candidate.id === listId);
+		const trashed = list ? getTrashedItems(list) : [];
+		for (const item of trashed) {
+			removeNode(item);
+		}
+		if (list && trashed.length > 0) {
+			recordActivity(root, author, {
+				operation: "emptyTrash",
+				subject: list.title,
+				after: `${trashed.length} deleted`,
+			});
+		}
+	});
+}
 
-export function getSnapshot(tree: StarterTreeView): StarterSnapshot {
+/**
+ * Permanently deletes items that have been in the trash for longer than the document's retention
+ * period. Safe for every client to run: removing an item another client already purged is a
+ * no-op once both edits are sequenced.
+ * @returns How many trashed items (not counting their subtasks) were purged.
+ */
+export function purgeExpiredItems(tree: StarterTreeView, now: number = Date.now()): number {
 	const root = requireRoot(tree);
-	return {
-		title: root.title,
-		items: root.items,
+	const cutoff = now - getTrashRetentionDays(root) * 24 * 60 * 60 * 1000;
+	return runLoggedTransaction(root, () => {
+		const expired = (root.lists ?? [])
+			.flatMap((list) => getTrashedItems(list))
+			.filter((item) => (item.deletedAt ?? now) < cutoff);
+		for (const item of expired) {
+			removeNode(item);
+		}
+		if (expired.length > 0) {
+			recordActivity(root, undefined, {
+				operation: "purgeExpiredItems",
+				after: `${expired.length} deleted`,
+			});
+		}
+		return expired.length;
+	});
+}
+
+export function getTrashRetentionDays(root: AppModel): number {
+	return root.trashRetentionDays ?? defaultTrashRetentionDays;
+}
+
+export function setTrashRetentionDays(tree: StarterTreeView, days: number, author?: string): void {
+	if (!Number.isInteger(days) || days < 1) {
+		throw new Error(`Invalid retention period ${days}; expected a whole number of days`);
+	}
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		if (root.trashRetentionDays !== days) {
+			recordActivity(root, author, {
+				operation: "setTrashRetentionDays",
+				before: `${getTrashRetentionDays(root)} days`,
+				after: `${days} days`,
+			});
+			root.trashRetentionDays = days;
+		}
+	});
+}
+
+export function isTrashed(item: Item): boolean {
+	return item.deletedAt !== undefined;
+}
+
+/**
+ * The list's trashed items, most recently deleted first. Subtasks that went to the trash with
+ * their parent are not listed separately; they come back when the parent is restored.
+ */
+export function getTrashedItems(list: Checklist): Item[] {
+	const trashed: Item[] = [];
+	const walk = (items: Iterable<Item>) => {
+		for (const item of items) {
+			if (isTrashed(item)) {
+				trashed.push(item);
+			} else if (item.children) {
+				walk(item.children);
+			}
+		}
 	};
+	walk(list.items);
+	return trashed.sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+}
+
+export function editItemText(
+	tree: StarterTreeView,
+	id: string,
+	text: string,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, id)?.item;
+		if (!item || item.text === text) {
+			return;
+		}
+		const before = item.text;
+		item.text = text;
+		stamp(item, author);
+		logItem(root, author, "editItemText", item, { before, after: text });
+	});
+}
+
+/** Sets or clears (with `undefined`) the item's `YYYY-MM-DD` due date. */
+export function setItemDueDate(
+	tree: StarterTreeView,
+	id: string,
+	dueDate: string | undefined,
+	author?: string
+): void {
+	if (dueDate !== undefined && !isIsoDate(dueDate)) {
+		throw new Error(`Invalid due date "${dueDate}"; expected YYYY-MM-DD`);
+	}
+	updateItemField(tree, id, "dueDate", dueDate, author);
+}
+
+export function setItemPriority(
+	tree: StarterTreeView,
+	id: string,
+	priority: Priority | undefined,
+	author?: string
+): void {
+	if (priority !== undefined && !priorities.includes(priority)) {
+		throw new Error(`Unknown priority "${priority}"`);
+	}
+	updateItemField(tree, id, "priority", priority, author);
+}
+
+export function setItemAssignee(
+	tree: StarterTreeView,
+	id: string,
+	assigneeId: string | undefined,
+	author?: string
+): void {
+	updateItemField(tree, id, "assigneeId", assigneeId, author);
+}
+
+/** Reads the item's priority, ignoring values written by versions with other priorities. */
+export function getItemPriority(item: { priority?: string }): Priority | undefined {
+	return priorities.find((priority) => priority === item.priority);
+}
+
+export function isOverdue(item: Item, today: string = todayIsoDate()): boolean {
+	return !item.done && item.dueDate !== undefined && item.dueDate < today;
+}
+
+export type CommentAuthor = { id: string; name?: string };
+
+/**
+ * Starts a new thread on the item, or replies to `parentCommentId` when given.
+ * @returns The id of the new comment, or undefined if the item or parent was not found.
+ */
+export function addComment(
+	tree: StarterTreeView,
+	itemId: string,
+	author: CommentAuthor,
+	body: string,
+	parentCommentId?: string
+): string | undefined {
+	const text = requireCommentBody(body);
+	const root = requireRoot(tree);
+	return runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		if (!item) {
+			return undefined;
+		}
+		let thread: Comments;
+		if (parentCommentId === undefined) {
+			// Items created before comments existed have no array yet; see `addItem`.
+			if (item.comments === undefined) {
+				item.comments = new Comments([]);
+			}
+			thread = item.comments;
+		} else {
+			const parent = findComment(item.comments ?? [], parentCommentId);
+			if (!parent) {
+				return undefined;
+			}
+			thread = parent.replies;
+		}
+		const comment = new Comment({
+			id: crypto.randomUUID(),
+			authorId: author.id,
+			authorName: author.name,
+			body: text,
+			createdAt: Date.now(),
+			resolved: false,
+			replies: new Comments([]),
+		});
+		thread.insertAtEnd(comment);
+		logItem(root, author.name, "addComment", item, { after: text });
+		return comment.id;
+	});
+}
+
+/** Rewrites a comment's body. Only its author may edit it; other edits are ignored. */
+export function editComment(
+	tree: StarterTreeView,
+	itemId: string,
+	commentId: string,
+	editorId: string,
+	body: string,
+	author?: string
+): void {
+	const text = requireCommentBody(body);
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		const comment = item && findComment(item.comments ?? [], commentId);
+		if (!item || !comment || comment.authorId !== editorId || comment.body === text) {
+			return;
+		}
+		logItem(root, author, "editComment", item, { before: comment.body, after: text });
+		comment.body = text;
+		comment.editedAt = Date.now();
+	});
+}
+
+/** Resolves or reopens the thread that `commentId` starts. */
+export function resolveThread(
+	tree: StarterTreeView,
+	itemId: string,
+	commentId: string,
+	resolved = true,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		const thread = item?.comments?.find((comment) => comment.id === commentId);
+		if (item && thread && thread.resolved !== resolved) {
+			thread.resolved = resolved;
+			logItem(root, author, "resolveThread", item, {
+				after: resolved ? "resolved" : "reopened",
+			});
+		}
+	});
+}
+
+/** Every comment on the item, replies included, in thread order. */
+export function flattenComments(comments: Iterable<Comment>): Comment[] {
+	const result: Comment[] = [];
+	for (const comment of comments) {
+		result.push(comment);
+		result.push(...flattenComments(comment.replies));
+	}
+	return result;
+}
+
+/**
+ * Comments on open threads that `userId` has not seen: written by someone else after
+ * `lastReadAt`. Resolved threads never count as unread.
+ */
+export function getUnreadCommentCount(
+	item: Item,
+	userId: string,
+	lastReadAt: number | undefined
+): number {
+	return (item.comments ?? [])
+		.filter((thread) => !thread.resolved)
+		.flatMap((thread) => flattenComments([thread]))
+		.filter((comment) => comment.authorId !== userId && comment.createdAt > (lastReadAt ?? 0))
+		.length;
+}
+
+export type AttachmentInput = {
+	name: string;
+	mimeType: string;
+	size: number;
+	blob: IFluidHandle<ArrayBufferLike>;
+};
+
+/**
+ * Records an already uploaded blob as an attachment of the item; see `attachments.ts` for the
+ * upload itself.
+ * @returns The id of the attachment, or undefined if the item was not found.
+ */
+export function addAttachment(
+	tree: StarterTreeView,
+	itemId: string,
+	input: AttachmentInput,
+	author?: string
+): string | undefined {
+	const root = requireRoot(tree);
+	return runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		if (!item) {
+			return undefined;
+		}
+		// Items created before attachments existed have no array yet; see `addItem`.
+		if (item.attachments === undefined) {
+			item.attachments = new Attachments([]);
+		}
+		const attachment = new Attachment({
+			id: crypto.randomUUID(),
+			...input,
+			uploadedBy: author,
+			uploadedAt: Date.now(),
+		});
+		item.attachments.insertAtEnd(attachment);
+		stamp(item, author);
+		logItem(root, author, "addAttachment", item, { after: input.name });
+		return attachment.id;
+	});
+}
+
+/**
+ * Detaches a file from the item. The blob itself stays in storage until the service collects
+ * it, so undo can bring the attachment back.
+ */
+export function removeAttachment(
+	tree: StarterTreeView,
+	itemId: string,
+	attachmentId: string,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		const index =
+			item?.attachments?.findIndex((attachment) => attachment.id === attachmentId) ?? -1;
+		if (!item?.attachments || index === -1) {
+			return;
+		}
+		logItem(root, author, "removeAttachment", item, {
+			before: item.attachments[index].name,
+		});
+		item.attachments.removeAt(index);
+		stamp(item, author);
+	});
+}
+
+/**
+ * Records that `itemId` cannot start until `blockerId` is complete. Dependencies may cross lists.
+ *
+ * Cycles are rejected here, but two clients can still close one with concurrent edits; readers
+ * therefore never assume the dependency graph is acyclic.
+ * @throws If either item does not exist, or if `blockerId` already (transitively) waits on
+ * `itemId`.
+ */
+export function addDependency(
+	tree: StarterTreeView,
+	itemId: string,
+	blockerId: string,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		const blocker = findInLists(root, blockerId)?.item;
+		if (!item || !blocker) {
+			throw new Error(`Cannot add a dependency between missing items`);
+		}
+		if (item.blockedBy?.includes(blockerId)) {
+			return;
+		}
+		if (wouldCreateCycle(root, itemId, blockerId)) {
+			throw new Error(
+				itemId === blockerId
+					? `"${item.text}" cannot wait on itself`
+					: `"${item.text}" cannot wait on "${blocker.text}", which already waits on it`
+			);
+		}
+		// Items created before dependencies existed have no array yet; see `addItem`.
+		if (item.blockedBy === undefined) {
+			item.blockedBy = new ItemIds([]);
+		}
+		item.blockedBy.insertAtEnd(blockerId);
+		stamp(item, author);
+		logItem(root, author, "addDependency", item, { after: blocker.text });
+	});
+}
+
+export function removeDependency(
+	tree: StarterTreeView,
+	itemId: string,
+	blockerId: string,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		const index = item?.blockedBy?.indexOf(blockerId) ?? -1;
+		if (!item?.blockedBy || index === -1) {
+			return;
+		}
+		item.blockedBy.removeAt(index);
+		stamp(item, author);
+		logItem(root, author, "removeDependency", item, {
+			before: findInLists(root, blockerId)?.item.text,
+		});
+	});
+}
+
+/** Whether making `itemId` wait on `blockerId` would close a loop of dependencies. */
+export function wouldCreateCycle(root: AppModel, itemId: string, blockerId: string): boolean {
+	// Trashed items count too: restoring one must not bring back a cycle.
+	const index = indexItems(allItems(root));
+	const visited = new Set<string>();
+	const pending = [blockerId];
+	while (pending.length > 0) {
+		const id = pending.pop() as string;
+		if (id === itemId) {
+			return true;
+		}
+		if (!visited.has(id)) {
+			visited.add(id);
+			pending.push(...(index.get(id)?.blockedBy ?? []));
+		}
+	}
+	return false;
+}
+
+/** The live items this item waits on, complete or not, in the order they were added. */
+export function getDependencies(root: AppModel, item: Item): Item[] {
+	return dependenciesOf(item, indexItems(liveItems(root)));
+}
+
+/** The dependencies of the item that are not complete yet. */
+export function getBlockers(root: AppModel, item: Item): Item[] {
+	return getDependencies(root, item).filter((dependency) => !dependency.done);
+}
+
+/** Ids of the live items that still wait on at least one incomplete dependency. */
+export function getBlockedItemIds(root: AppModel): Set<string> {
+	const index = indexItems(liveItems(root));
+	const blocked = new Set<string>();
+	for (const item of index.values()) {
+		if (dependenciesOf(item, index).some((dependency) => !dependency.done)) {
+			blocked.add(item.id);
+		}
+	}
+	return blocked;
+}
+
+/**
+ * Items that were in `previouslyBlocked` and became ready because their dependencies were
+ * completed. Items unblocked by removing the dependency, or by being trashed, are left out.
+ */
+export function getNewlyUnblockedItems(
+	root: AppModel,
+	previouslyBlocked: ReadonlySet<string>
+): Item[] {
+	const index = indexItems(liveItems(root));
+	return [...previouslyBlocked]
+		.map((id) => index.get(id))
+		.filter((item): item is Item => item !== undefined)
+		.filter((item) => {
+			const dependencies = dependenciesOf(item, index);
+			return dependencies.length > 0 && dependencies.every((dependency) => dependency.done);
+		});
+}
+
+/**
+ * Adds a tag to the document's catalog.
+ * @returns The id of the new tag.
+ * @throws If the name is empty or another tag already has it.
+ */
+export function addTag(
+	tree: StarterTreeView,
+	name: string,
+	color: string,
+	author?: string
+): string {
+	const root = requireRoot(tree);
+	return runLoggedTransaction(root, () => {
+		const tag = new Tag({ id: crypto.randomUUID(), name: requireTagName(root, name), color });
+		// Documents migrated concurrently with this edit may not have a catalog yet.
+		if (root.tags === undefined) {
+			root.tags = new Tags([]);
+		}
+		root.tags.insertAtEnd(tag);
+		recordActivity(root, author, { operation: "addTag", subject: tag.name });
+		return tag.id;
+	});
+}
+
+/**
+ * Renames or recolors a tag. Items reference tags by id, so they pick up the change as is.
+ * @throws If the new name is empty or another tag already has it.
+ */
+export function updateTag(
+	tree: StarterTreeView,
+	tagId: string,
+	changes: { name?: string; color?: string },
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const tag = findTag(root, tagId);
+		if (!tag) {
+			return;
+		}
+		const before = `${tag.name} (${tag.color})`;
+		if (changes.name !== undefined && changes.name.trim() !== tag.name) {
+			tag.name = requireTagName(root, changes.name, tagId);
+		}
+		if (changes.color !== undefined && changes.color !== tag.color) {
+			tag.color = changes.color;
+		}
+		const after = `${tag.name} (${tag.color})`;
+		if (after !== before) {
+			recordActivity(root, author, {
+				operation: "updateTag",
+				subject: tag.name,
+				before,
+				after,
+			});
+		}
+	});
+}
+
+/**
+ * Folds `sourceId` into `targetId`: every item tagged with the source ends up tagged with the
+ * target (once), and the source leaves the catalog. All in one transaction, so collaborators
+ * never see items pointing at a half-merged tag.
+ */
+export function mergeTags(
+	tree: StarterTreeView,
+	sourceId: string,
+	targetId: string,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const source = findTag(root, sourceId);
+		const target = findTag(root, targetId);
+		if (!source || !target || sourceId === targetId) {
+			return;
+		}
+		recordActivity(root, author, {
+			operation: "mergeTags",
+			subject: source.name,
+			after: `into ${target.name}`,
+		});
+		for (const item of allItems(root)) {
+			const index = item.tagIds?.indexOf(sourceId) ?? -1;
+			if (!item.tagIds || index === -1) {
+				continue;
+			}
+			if (item.tagIds.includes(targetId)) {
+				item.tagIds.removeAt(index);
+			} else {
+				item.tagIds.removeAt(index);
+				item.tagIds.insertAt(index, targetId);
+			}
+		}
+		root.tags?.removeAt(root.tags.indexOf(source));
+	});
+}
+
+/** Removes a tag from the catalog and from every item (trashed ones included) in one transaction. */
+export function deleteTag(tree: StarterTreeView, tagId: string, author?: string): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const tag = findTag(root, tagId);
+		if (!tag) {
+			return;
+		}
+		recordActivity(root, author, { operation: "deleteTag", subject: tag.name });
+		for (const item of allItems(root)) {
+			const index = item.tagIds?.indexOf(tagId) ?? -1;
+			if (index !== -1) {
+				item.tagIds?.removeAt(index);
+			}
+		}
+		root.tags?.removeAt(root.tags.indexOf(tag));
+	});
+}
+
+export function addItemTag(
+	tree: StarterTreeView,
+	itemId: string,
+	tagId: string,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		const tag = findTag(root, tagId);
+		if (!item || !tag || item.tagIds?.includes(tagId)) {
+			return;
+		}
+		// Items created before tags existed have no array yet; see `addItem`.
+		if (item.tagIds === undefined) {
+			item.tagIds = new TagIds([]);
+		}
+		item.tagIds.insertAtEnd(tagId);
+		stamp(item, author);
+		logItem(root, author, "addItemTag", item, { after: tag.name });
+	});
+}
+
+export function removeItemTag(
+	tree: StarterTreeView,
+	itemId: string,
+	tagId: string,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		const index = item?.tagIds?.indexOf(tagId) ?? -1;
+		if (!item?.tagIds || index === -1) {
+			return;
+		}
+		item.tagIds.removeAt(index);
+		stamp(item, author);
+		logItem(root, author, "removeItemTag", item, { before: findTag(root, tagId)?.name });
+	});
+}
+
+/** The item's tags in the order they were added; ids missing from the catalog are skipped. */
+export function getItemTags(root: AppModel, item: Item): Tag[] {
+	return [...(item.tagIds ?? [])]
+		.map((id) => findTag(root, id))
+		.filter((tag): tag is Tag => tag !== undefined);
+}
+
+/** Whether the item carries any (or, with `"all"`, every one) of the given tags. */
+export function hasTags(
+	item: Item,
+	tagIds: readonly string[],
+	match: "any" | "all" = "any"
+): boolean {
+	const own = new Set(item.tagIds ?? []);
+	return match === "all" ? tagIds.every((id) => own.has(id)) : tagIds.some((id) => own.has(id));
+}
+
+/**
+ * The live items that match `predicate` or have a live subtask that does, in order. Ancestors of
+ * matching subtasks are kept so the hierarchy stays readable.
+ */
+export function filterItems(items: Iterable<Item>, predicate: (item: Item) => boolean): Item[] {
+	return visibleItems(items).filter(
+		(item) => predicate(item) || filterItems(item.children ?? [], predicate).length > 0
+	);
+}
+
+/**
+ * Adds or withdraws the user's up-vote. Votes are keyed by user id, so a user has at most one per
+ * item however many clients they vote from. Votes are not edits of the item and do not change its
+ * author or timestamp.
+ * @returns Whether the user now votes for the item.
+ */
+export function toggleVote(
+	tree: StarterTreeView,
+	itemId: string,
+	userId: string,
+	author?: string
+): boolean {
+	const root = requireRoot(tree);
+	return runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		if (!item) {
+			return false;
+		}
+		// Items created before votes existed have no map yet; see `createItem`.
+		if (item.votes === undefined) {
+			item.votes = new Votes({});
+		}
+		const voted = !item.votes.has(userId);
+		if (voted) {
+			item.votes.set(userId, Date.now());
+		} else {
+			item.votes.delete(userId);
+		}
+		logItem(root, author, "toggleVote", item, {
+			before: voted ? "not voted" : "voted",
+			after: voted ? "voted" : "not voted",
+		});
+		return voted;
+	});
+}
+
+export function getVoteCount(item: Item): number {
+	return item.votes?.size ?? 0;
+}
+
+export function hasVoted(item: Item, userId: string): boolean {
+	return item.votes?.has(userId) ?? false;
+}
+
+/** The items ordered by vote count, most first; ties keep their order. */
+export function sortByVotes(items: Iterable<Item>): Item[] {
+	return [...items].sort((a, b) => getVoteCount(b) - getVoteCount(a));
+}
+
+/** Ids of the users who voted for at least one live item of the list, subtasks included. */
+export function getVoterIds(list: Checklist): Set<string> {
+	return new Set(flattenItems(list.items).flatMap((item) => [...(item.votes?.keys() ?? [])]));
+}
+
+/**
+ * Adds the user's reaction to the item, or removes it if they already reacted with that emoji.
+ * @throws If the emoji is not one of `reactionEmojis`.
+ */
+export function toggleReaction(
+	tree: StarterTreeView,
+	itemId: string,
+	userId: string,
+	emoji: string,
+	author?: string
+): void {
+	if (!(reactionEmojis as readonly string[]).includes(emoji)) {
+		throw new Error(`Unsupported reaction ${emoji}`);
+	}
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		if (!item) {
+			return;
+		}
+		if (item.reactions === undefined) {
+			item.reactions = new Reactions({});
+		}
+		const own = item.reactions.get(userId);
+		const reacted = !own?.has(emoji);
+		if (own === undefined) {
+			item.reactions.set(userId, new UserReactions({ [emoji]: Date.now() }));
+		} else if (reacted) {
+			own.set(emoji, Date.now());
+		} else {
+			own.delete(emoji);
+		}
+		logItem(root, author, "toggleReaction", item, {
+			before: reacted ? "none" : emoji,
+			after: reacted ? emoji : "none",
+		});
+	});
+}
+
+export type ReactionSummary = { emoji: string; userIds: string[] };
+
+/**
+ * The item's reactions grouped by emoji: those from `reactionEmojis` in that order, then any
+ * others (from newer versions) in order of first use. Emoji nobody reacted with are left out.
+ */
+export function getReactions(item: Item): ReactionSummary[] {
+	const byEmoji = new Map<string, { userIds: string[]; firstAt: number }>();
+	for (const [userId, own] of item.reactions ?? []) {
+		for (const [emoji, at] of own) {
+			const entry = byEmoji.get(emoji) ?? { userIds: [], firstAt: at };
+			entry.userIds.push(userId);
+			entry.firstAt = Math.min(entry.firstAt, at);
+			byEmoji.set(emoji, entry);
+		}
+	}
+	const rank = (emoji: string) => {
+		const index = (reactionEmojis as readonly string[]).indexOf(emoji);
+		return index === -1 ? reactionEmojis.length : index;
+	};
+	return [...byEmoji]
+		.sort(([a, x], [b, y]) => rank(a) - rank(b) || x.firstAt - y.firstAt)
+		.map(([emoji, { userIds }]) => ({ emoji, userIds }));
+}
+
+/**
+ * Sets the expected effort for the item, or clears it with undefined.
+ * @throws If the estimate is negative or not a finite number.
+ */
+export function setItemEstimate(
+	tree: StarterTreeView,
+	id: string,
+	minutes: number | undefined,
+	author?: string
+): void {
+	if (minutes !== undefined && !(Number.isFinite(minutes) && minutes >= 0)) {
+		throw new Error("Estimate must be zero or more minutes");
+	}
+	updateItemField(tree, id, "estimateMinutes", minutes, author);
+}
+
+export type TimeEntryInput = { userId: string; userName?: string; minutes: number; note?: string };
+
+/**
+ * Logs time spent on the item, for example when a timer is stopped.
+ * @returns The id of the entry, or undefined if the item was not found.
+ * @throws If the duration is not a positive number of minutes.
+ */
+export function logTime(
+	tree: StarterTreeView,
+	itemId: string,
+	input: TimeEntryInput
+): string | undefined {
+	if (!(Number.isFinite(input.minutes) && input.minutes > 0)) {
+		throw new Error("Logged time must be more than zero minutes");
+	}
+	const root = requireRoot(tree);
+	return runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		if (!item) {
+			return undefined;
+		}
+		// Items created before time tracking existed have no array yet; see `createItem`.
+		if (item.timeEntries === undefined) {
+			item.timeEntries = new TimeEntries([]);
+		}
+		const entry = new TimeEntry({
+			id: crypto.randomUUID(),
+			userId: input.userId,
+			userName: input.userName,
+			minutes: input.minutes,
+			note: input.note?.trim() || undefined,
+			loggedAt: Date.now(),
+		});
+		item.timeEntries.insertAtEnd(entry);
+		logItem(root, input.userName, "logTime", item, { after: `${entry.minutes} min` });
+		return entry.id;
+	});
+}
+
+export function removeTimeEntry(
+	tree: StarterTreeView,
+	itemId: string,
+	entryId: string,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, itemId)?.item;
+		const entries = item?.timeEntries;
+		const index = entries?.findIndex((entry) => entry.id === entryId) ?? -1;
+		if (item && entries && index !== -1) {
+			logItem(root, author, "removeTimeEntry", item, {
+				before: `${entries[index].minutes} min`,
+			});
+			entries.removeAt(index);
+		}
+	});
+}
+
+export function getLoggedMinutes(item: Item): number {
+	return (item.timeEntries ?? []).reduce((sum, entry) => sum + entry.minutes, 0);
+}
+
+export type TimeTotals = { estimatedMinutes: number; loggedMinutes: number };
+
+/** Estimated and logged time over the list's live items, subtasks included. */
+export function getTimeTotals(list: Checklist): TimeTotals {
+	const totals: TimeTotals = { estimatedMinutes: 0, loggedMinutes: 0 };
+	for (const item of flattenItems(list.items)) {
+		totals.estimatedMinutes += item.estimateMinutes ?? 0;
+		totals.loggedMinutes += getLoggedMinutes(item);
+	}
+	return totals;
+}
+
+/**
+ * Where to move an item: an absolute final index among its current siblings, or directly
+ * before/after another item (which may live under a different parent).
+ */
+export type ItemPlacement = { index: number } | { before: string } | { after: string };
+
+export function moveItem(
+	tree: StarterTreeView,
+	id: string,
+	placement: ItemPlacement,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const source = findInLists(root, id);
+		if (!source) {
+			return;
+		}
+
+		// `moveToIndex` takes a gap in the destination array as it was before the move.
+		let destination = source.parent;
+		let gap: number;
+		if ("index" in placement) {
+			const target = Math.max(0, Math.min(placement.index, destination.length - 1));
+			gap = target > source.index ? target + 1 : target;
+		} else {
+			const anchorId = "before" in placement ? placement.before : placement.after;
+			const anchor = findInLists(root, anchorId);
+			if (!anchor || anchorId === id || isDescendant(anchor.item, source.item)) {
+				return;
+			}
+			destination = anchor.parent;
+			gap = "before" in placement ? anchor.index : anchor.index + 1;
+		}
+
+		if (destination === source.parent && (gap === source.index || gap === source.index + 1)) {
+			return;
+		}
+		destination.moveToIndex(gap, source.index, source.parent);
+		stamp(source.item, author);
+		logItem(root, author, "moveItem", source.item);
+	});
+}
+
+/**
+ * Makes the item the last subtask of its previous (live) sibling. No-op for a first child.
+ */
+export function indentItem(tree: StarterTreeView, id: string, author?: string): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const source = findInLists(root, id);
+		const newParent = source && visibleItems(source.parent.slice(0, source.index)).at(-1);
+		if (!source || !newParent) {
+			return;
+		}
+		childrenOf(newParent).moveToEnd(source.index, source.parent);
+		stamp(source.item, author);
+		logItem(root, author, "indentItem", source.item, { after: `under ${newParent.text}` });
+	});
+}
+
+/**
+ * Moves a subtask out of its parent, placing it directly after that parent.
+ * No-op for top-level items.
+ */
+export function outdentItem(tree: StarterTreeView, id: string, author?: string): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const source = findInLists(root, id);
+		const parentItem = source && parentItemOf(source.parent);
+		if (!source || !parentItem) {
+			return;
+		}
+		const grandparent = Tree.parent(parentItem) as Items;
+		grandparent.moveToIndex(grandparent.indexOf(parentItem) + 1, source.index, source.parent);
+		stamp(source.item, author);
+		logItem(root, author, "outdentItem", source.item, { before: `under ${parentItem.text}` });
+	});
+}
+
+/**
+ * Moves the item under `parentId` at `index` (defaults to the end). Pass `undefined` as the
+ * parent to move it to the top level of its list. Moving an item under itself or its own
+ * subtasks is ignored.
+ */
+export function moveItemUnder(
+	tree: StarterTreeView,
+	id: string,
+	parentId: string | undefined,
+	index?: number,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const source = findInLists(root, id);
+		if (!source) {
+			return;
+		}
+		let destination = listOf(source.item).items;
+		if (parentId !== undefined) {
+			const parent = findInLists(root, parentId);
+			if (!parent || parent.item === source.item || isDescendant(parent.item, source.item)) {
+				return;
+			}
+			destination = childrenOf(parent.item);
+		}
+		const gap = Math.max(0, Math.min(index ?? destination.length, destination.length));
+		destination.moveToIndex(gap, source.index, source.parent);
+		stamp(source.item, author);
+		const parent = parentItemOf(destination);
+		logItem(root, author, "moveItemUnder", source.item, {
+			after: parent ? `under ${parent.text}` : "to the top level",
+		});
+	});
+}
+
+/**
+ * Inserts a copy of the item (including a copy of its subtasks) directly after the original.
+ * @returns The id of the copy, or undefined if the item was not found.
+ */
+export function duplicateItem(
+	tree: StarterTreeView,
+	id: string,
+	author?: string
+): string | undefined {
+	const root = requireRoot(tree);
+	return runLoggedTransaction(root, () => {
+		const location = findInLists(root, id);
+		if (!location) {
+			return undefined;
+		}
+		const copy = cloneItem(location.item, author);
+		location.parent.insertAt(location.index + 1, copy);
+		logItem(root, author, "duplicateItem", location.item);
+		return copy.id;
+	});
+}
+
+/**
+ * Moves the list's completed items to the trash in one transaction. A completed item with
+ * subtasks that are not complete stays, so no open work disappears along with its parent; its
+ * completed subtasks are cleared individually.
+ * @returns How many items (not counting subtasks trashed with their parent) were cleared.
+ */
+export function clearCompleted(tree: StarterTreeView, listId: string, author?: string): number {
+	const root = requireRoot(tree);
+	return runLoggedTransaction(root, () => {
+		const list = root.lists?.find((candidate) => candidate.id === listId);
+		if (!list) {
+			return 0;
+		}
+		const cleared: Item[] = [];
+		const walk = (items: Iterable<Item>) => {
+			for (const item of visibleItems(items)) {
+				if (item.done && flattenItems(item.children ?? []).every((child) => child.done)) {
+					cleared.push(item);
+				} else {
+					walk(item.children ?? []);
+				}
+			}
+		};
+		walk(list.items);
+		const now = Date.now();
+		for (const item of cleared) {
+			item.deletedAt = now;
+			item.deletedBy = author;
+		}
+		if (cleared.length > 0) {
+			recordActivity(root, author, {
+				operation: "clearCompleted",
+				subject: list.title,
+				after: `${cleared.length} trashed`,
+			});
+		}
+		return cleared.length;
+	});
+}
+
+/**
+ * Checks or unchecks every live item of the list, subtasks included, in one transaction. Recurring
+ * items spawn their next occurrence as with `toggleItem`; if another client completes one of them
+ * first, the whole edit is dropped rather than spawning it twice.
+ * @returns How many items changed.
+ */
+export function setAllDone(
+	tree: StarterTreeView,
+	listId: string,
+	done: boolean,
+	author?: string
+): number {
+	const root = requireRoot(tree);
+	const list = root.lists?.find((candidate) => candidate.id === listId);
+	const targets = list ? flattenItems(list.items).filter((item) => item.done !== done) : [];
+	const preconditions = done
+		? targets.flatMap((item) => recurrencePreconditions(item) ?? [])
+		: [];
+	return runLoggedTransaction(
+		root,
+		() => {
+			if (!list) {
+				return 0;
+			}
+			const status = statusForDone(root.workflow ?? [], done);
+			const changed = flattenItems(list.items).filter((item) => item.done !== done);
+			for (const item of changed) {
+				if (status) {
+					applyStatus(item, status, author);
+				} else {
+					item.done = done;
+					stamp(item, author);
+				}
+				if (done) {
+					spawnNextOccurrence(root, item, author);
+				}
+			}
+			if (changed.length > 0) {
+				recordActivity(root, author, {
+					operation: "setAllDone",
+					subject: list.title,
+					after: status?.name ?? (done ? "done" : "not done"),
+				});
+			}
+			return changed.length;
+		},
+		preconditions.length > 0 ? preconditions : undefined
+	);
+}
+
+export const itemSortKeys = ["text", "author", "updatedAt", "dueDate"] as const;
+
+export type ItemSortKey = (typeof itemSortKeys)[number];
+
+/**
+ * Reorders the list's items, and each item's subtasks among themselves, in one transaction:
+ * alphabetically by text or author, most recently updated first, or soonest due first. Items
+ * without a value go last; ties keep their order. Nodes are moved rather than recreated, so
+ * concurrent edits to the items survive.
+ */
+export function sortItems(
+	tree: StarterTreeView,
+	listId: string,
+	key: ItemSortKey,
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const list = root.lists?.find((candidate) => candidate.id === listId);
+		if (!list) {
+			return;
+		}
+		if (sortSiblings(list.items, compareItems(key))) {
+			recordActivity(root, author, {
+				operation: "sortItems",
+				subject: list.title,
+				after: `by ${key}`,
+			});
+		}
+	});
+}
+
+/**
+ * The order `sortItems` uses for `key`: text and author alphabetically, most recently updated
+ * first, soonest due first, with missing values last.
+ */
+export function compareItems(key: ItemSortKey): (a: Item, b: Item) => number {
+	return itemComparators[key];
+}
+
+export type DuplicateMode = "exact" | "near";
+
+/**
+ * Groups of the list's live items that duplicate each other, each in document order. `exact`
+ * matches text ignoring case and surrounding whitespace; `near` also ignores punctuation and
+ * tolerates small typos (an edit distance of up to 15% of the length). Items with live subtasks
+ * are left out, so removing duplicates never takes other work with it.
+ */
+export function findDuplicates(list: Checklist, mode: DuplicateMode): Item[][] {
+	const normalize = mode === "exact" ? exactKey : nearKey;
+	const groups: { key: string; items: Item[] }[] = [];
+	for (const item of flattenItems(list.items)) {
+		if (visibleItems(item.children ?? []).length > 0) {
+			continue;
+		}
+		const key = normalize(item.text);
+		const group = groups.find(
+			(candidate) =>
+				candidate.key === key || (mode === "near" && isNearMatch(candidate.key, key))
+		);
+		if (group) {
+			group.items.push(item);
+		} else {
+			groups.push({ key, items: [item] });
+		}
+	}
+	return groups.filter((group) => group.items.length > 1).map((group) => group.items);
+}
+
+/**
+ * Moves every duplicate but the first of each group (see `findDuplicates`) to the trash in one
+ * transaction.
+ * @returns How many items were trashed.
+ */
+export function removeDuplicates(
+	tree: StarterTreeView,
+	listId: string,
+	mode: DuplicateMode,
+	author?: string
+): number {
+	const root = requireRoot(tree);
+	return runLoggedTransaction(root, () => {
+		const list = root.lists?.find((candidate) => candidate.id === listId);
+		const extras = list ? findDuplicates(list, mode).flatMap((group) => group.slice(1)) : [];
+		const now = Date.now();
+		for (const item of extras) {
+			item.deletedAt = now;
+			item.deletedBy = author;
+		}
+		if (list && extras.length > 0) {
+			recordActivity(root, author, {
+				operation: "removeDuplicates",
+				subject: list.title,
+				after: `${extras.length} trashed`,
+			});
+		}
+		return extras.length;
+	});
+}
+
+/** Completion of an item's direct subtasks, e.g. `{ done: 3, total: 5 }`. */
+export function getChildProgress(item: Item): { done: number; total: number } {
+	const children = visibleItems(item.children ?? []);
+	return {
+		done: children.filter((child) => child.done).length,
+		total: children.length,
+	};
+}
+
+/**
+ * All items in document order, parents before their subtasks. Trashed items (and everything
+ * under them) are skipped unless `includeTrashed` is set.
+ */
+export function flattenItems(
+	items: Iterable<Item>,
+	options: { includeTrashed?: boolean } = {}
+): Item[] {
+	const result: Item[] = [];
+	for (const item of items) {
+		if (isTrashed(item) && !options.includeTrashed) {
+			continue;
+		}
+		result.push(item);
+		if (item.children) {
+			result.push(...flattenItems(item.children, options));
+		}
+	}
+	return result;
+}
+
+/** The items that are not in the trash, in order. */
+export function visibleItems(items: Iterable<Item>): Item[] {
+	return [...items].filter((item) => !isTrashed(item));
+}
+
+/**
+ * Makes the list's live items match `items` (content and order) while keeping existing nodes,
+ * matched by id, in place. Only changed fields are written, so concurrent edits to untouched
+ * fields survive. Items left out are moved to the trash; items already there are not touched.
+ */
+export function replaceItems(
+	tree: StarterTreeView,
+	listId: string,
+	items: Item[],
+	author?: string
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const list = root.lists?.find((candidate) => candidate.id === listId);
+		const target = list?.items;
+		if (!list || !target) {
+			return;
+		}
+		recordActivity(root, author, {
+			operation: "replaceItems",
+			subject: list.title,
+			after: `${items.length} items`,
+		});
+		const wanted = new Set(items.map((item) => item.id));
+		for (const item of visibleItems(target)) {
+			if (!wanted.has(item.id)) {
+				item.deletedAt = Date.now();
+				item.deletedBy = author;
+			}
+		}
+
+		items.forEach((next, index) => {
+			// Positions are among live items; trashed ones keep their place around them.
+			const live = visibleItems(target);
+			const gap = index < live.length ? target.indexOf(live[index]) : target.length;
+			const currentIndex = live.findIndex((item, i) => i >= index && item.id === next.id);
+			if (currentIndex === -1) {
+				target.insertAt(gap, next);
+				return;
+			}
+			const existing = live[currentIndex];
+			if (currentIndex !== index) {
+				target.moveToIndex(gap, target.indexOf(existing));
+			}
+			let changed = false;
+			if (existing.text !== next.text) {
+				existing.text = next.text;
+				changed = true;
+			}
+			if (existing.done !== next.done) {
+				existing.done = next.done;
+				existing.statusId = statusForDone(root.workflow ?? [], next.done)?.id;
+				changed = true;
+			}
+			if (changed) {
+				stamp(existing, next.author);
+			}
+		});
+	});
+}
+
+/**
+ * The list as plain data (see `snapshot.ts`), safe to keep or send anywhere while the tree
+ * changes underneath.
+ * @throws If the list does not exist.
+ */
+export function getSnapshot(tree: StarterTreeView, listId: string): ListSnapshot {
+	const list = findList(tree, listId);
+	if (!list) {
+		throw new Error(`List ${listId} not found`);
+	}
+	return toListSnapshot(list);
+}
+
+function updateItemField<K extends "dueDate" | "priority" | "assigneeId" | "estimateMinutes">(
+	tree: StarterTreeView,
+	id: string,
+	field: K,
+	value: Item[K],
+	author: string | undefined
+): void {
+	const root = requireRoot(tree);
+	runLoggedTransaction(root, () => {
+		const item = findInLists(root, id)?.item;
+		if (!item || item[field] === value) {
+			return;
+		}
+		logItem(root, author, fieldOperations[field], item, {
+			before: item[field] === undefined ? undefined : String(item[field]),
+			after: value === undefined ? undefined : String(value),
+		});
+		item[field] = value;
+		stamp(item, author);
+	});
+}
+
+const fieldOperations = {
+	dueDate: "setItemDueDate",
+	priority: "setItemPriority",
+	assigneeId: "setItemAssignee",
+	estimateMinutes: "setItemEstimate",
+} as const satisfies Record<string, ActivityOperation>;
+
+function logItem(
+	root: AppModel,
+	author: string | undefined,
+	operation: ActivityOperation,
+	item: Item,
+	change: { before?: string; after?: string } = {}
+): void {
+	recordActivity(root, author, { operation, itemId: item.id, subject: item.text, ...change });
+}
+
+function describeStatus(status: WorkflowStatus): string {
+	return `${status.name} (${status.color}${status.countsAsComplete ? ", complete" : ""})`;
+}
+
+function advanceDate(rule: RecurrenceRule, from: string): string {
+	switch (rule.frequency) {
+		case "daily":
+			return addDays(from, 1);
+		case "interval":
+			return addDays(from, rule.days);
+		case "monthly":
+			return addMonths(from, 1);
+		case "weekly": {
+			let next = addDays(from, 1);
+			while (!rule.weekdays.includes(weekdayOf(next))) {
+				next = addDays(next, 1);
+			}
+			return next;
+		}
+	}
+}
+
+function toRecurrence(rule: RecurrenceRule): Recurrence {
+	return new Recurrence({
+		frequency: rule.frequency,
+		weekdays:
+			rule.frequency === "weekly"
+				? new Weekdays([...new Set(rule.weekdays)].sort((a, b) => a - b))
+				: undefined,
+		intervalDays: rule.frequency === "interval" ? rule.days : undefined,
+	});
+}
+
+/** Guards the completion of a recurring item; see `toggleItem`. */
+function recurrencePreconditions(item: Item | undefined): TransactionConstraint[] | undefined {
+	return item?.recurrence ? [{ type: "nodeInDocument", node: item.recurrence }] : undefined;
+}
+
+/**
+ * Takes the rule off a just-completed item and inserts its next occurrence after it: same text,
+ * priority, assignee and (unchecked) subtasks, due on the rule's next date.
+ */
+function spawnNextOccurrence(root: AppModel, item: Item, author: string | undefined): void {
+	const rule = getRecurrenceRule(item);
+	if (!rule) {
+		return;
+	}
+	const parent = Tree.parent(item) as Items;
+	const incomplete = statusForDone(root.workflow ?? [], false);
+	const reset = (source: Item): Item =>
+		createItem({
+			text: source.text,
+			statusId: incomplete?.id,
+			author: author ?? source.author,
+			priority: source.priority,
+			assigneeId: source.assigneeId,
+			estimateMinutes: source.estimateMinutes,
+			tagIds: source.tagIds,
+			children: source.children && visibleItems(source.children).map(reset),
+		});
+	const next = reset(item);
+	next.dueDate = getNextDueDate(rule, item.dueDate);
+	next.recurrence = toRecurrence(rule);
+	item.recurrence = undefined;
+	parent.insertAt(parent.indexOf(item) + 1, next);
+}
+
+function applyStatus(item: Item, status: WorkflowStatus, author: string | undefined): void {
+	item.statusId = status.id;
+	item.done = status.countsAsComplete;
+	stamp(item, author);
+}
+
+/** The first incomplete status, or the last complete one when `done`. */
+export function statusForDone(
+	workflow: Iterable<WorkflowStatus>,
+	done: boolean
+): WorkflowStatus | undefined {
+	const statuses = [...workflow];
+	if (done) {
+		statuses.reverse();
+	}
+	return statuses.find((status) => status.countsAsComplete === done);
+}
+
+function getWorkflow(tree: StarterTreeView): Workflow {
+	const root = requireRoot(tree);
+	if (!root.workflow) {
+		throw new Error("Document has not been migrated to a workflow");
+	}
+	return root.workflow;
+}
+
+/** Every item of every list, trashed ones included. */
+function allItems(root: AppModel): Item[] {
+	return (root.lists ?? []).flatMap((list) => flattenItems(list.items, { includeTrashed: true }));
+}
+
+/** Every item of every list that is not in the trash, directly or through a parent. */
+function liveItems(root: AppModel): Item[] {
+	return (root.lists ?? []).flatMap((list) => flattenItems(list.items));
+}
+
+function indexItems(items: Iterable<Item>): Map<string, Item> {
+	return new Map([...items].map((item) => [item.id, item]));
+}
+
+/** The item's dependencies found in `index`; purged or filtered-out ids are skipped. */
+function dependenciesOf(item: Item, index: ReadonlyMap<string, Item>): Item[] {
+	return [...(item.blockedBy ?? [])]
+		.map((id) => index.get(id))
+		.filter((dependency): dependency is Item => dependency !== undefined);
+}
+
+function findTag(root: AppModel, id: string): Tag | undefined {
+	return root.tags?.find((tag) => tag.id === id);
+}
+
+function requireTagName(root: AppModel, name: string, exceptId?: string): string {
+	const text = name.trim();
+	if (!text) {
+		throw new Error("Tag name cannot be empty");
+	}
+	const clash = root.tags?.find(
+		(tag) => tag.id !== exceptId && tag.name.toLowerCase() === text.toLowerCase()
+	);
+	if (clash) {
+		throw new Error(`A tag named "${clash.name}" already exists`);
+	}
+	return text;
+}
+
+/** Sorts the items and, recursively, their subtasks. @returns Whether anything moved. */
+function sortSiblings(items: Items, compare: (a: Item, b: Item) => number): boolean {
+	let moved = false;
+	[...items].sort(compare).forEach((item, index) => {
+		const current = items.indexOf(item);
+		if (current !== index) {
+			items.moveToIndex(index, current);
+			moved = true;
+		}
+	});
+	for (const item of items) {
+		if (item.children && sortSiblings(item.children, compare)) {
+			moved = true;
+		}
+	}
+	return moved;
+}
+
+function compareMissingLast<T>(
+	a: T | undefined,
+	b: T | undefined,
+	compare: (a: T, b: T) => number
+): number {
+	if (a === undefined || b === undefined) {
+		return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+	}
+	return compare(a, b);
+}
+
+const compareText = (a: string, b: string) =>
+	a.localeCompare(b, undefined, { sensitivity: "base", numeric: true });
+
+const itemComparators: Record<ItemSortKey, (a: Item, b: Item) => number> = {
+	text: (a, b) => compareText(a.text, b.text),
+	author: (a, b) => compareMissingLast(a.author, b.author, compareText),
+	updatedAt: (a, b) => compareMissingLast(a.updatedAt, b.updatedAt, (x, y) => y - x),
+	dueDate: (a, b) => compareMissingLast(a.dueDate, b.dueDate, (x, y) => x.localeCompare(y)),
+};
+
+function exactKey(text: string): string {
+	return text.trim().toLocaleLowerCase();
+}
+
+function nearKey(text: string): string {
+	return exactKey(text)
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.trim();
+}
+
+function isNearMatch(a: string, b: string): boolean {
+	const allowed = Math.floor(Math.max(a.length, b.length) * 0.15);
+	return allowed > 0 && Math.abs(a.length - b.length) <= allowed && editDistance(a, b) <= allowed;
+}
+
+function removeNode(item: Item): void {
+	const parent = Tree.parent(item) as Items;
+	parent.removeAt(parent.indexOf(item));
+}
+
+function findComment(comments: Iterable<Comment>, id: string): Comment | undefined {
+	return flattenComments(comments).find((comment) => comment.id === id);
+}
+
+function requireCommentBody(body: string): string {
+	const text = body.trim();
+	if (!text) {
+		throw new Error("Comment cannot be empty");
+	}
+	return text;
+}
+
+type ItemLocation = { item: Item; parent: Items; index: number };
+
+function findInLists(root: AppModel, id: string): ItemLocation | undefined {
+	for (const list of root.lists ?? []) {
+		const location = findItem(list.items, id);
+		if (location) {
+			return location;
+		}
+	}
+	return undefined;
+}
+
+function findItem(items: Items, id: string): ItemLocation | undefined {
+	for (let index = 0; index < items.length; index++) {
+		const item = items[index];
+		if (item.id === id) {
+			return { item, parent: items, index };
+		}
+		if (item.children) {
+			const nested = findItem(item.children, id);
+			if (nested) {
+				return nested;
+			}
+		}
+	}
+	return undefined;
+}
+
+function childrenOf(item: Item): Items {
+	if (item.children === undefined) {
+		item.children = new Items([]);
+	}
+	return item.children;
+}
+
+function parentItemOf(items: Items): Item | undefined {
+	const parent = Tree.parent(items);
+	return Tree.is(parent, Item) ? parent : undefined;
+}
+
+function listOf(item: Item): Checklist {
+	let node = Tree.parent(item);
+	while (node && !Tree.is(node, Checklist)) {
+		node = Tree.parent(node);
+	}
+	if (!node) {
+		throw new Error("Item is not in a list");
+	}
+	return node;
+}
+
+function isDescendant(candidate: Item, ancestor: Item): boolean {
+	for (let parent = parentItemOf(Tree.parent(candidate) as Items); parent; ) {
+		if (parent === ancestor) {
+			return true;
+		}
+		parent = parentItemOf(Tree.parent(parent) as Items);
+	}
+	return false;
+}
+
+function cloneItem(item: Item, author: string | undefined): Item {
+	return createItem({
+		text: item.text,
+		done: item.done,
+		statusId: item.statusId,
+		author: author ?? item.author,
+		dueDate: item.dueDate,
+		priority: item.priority,
+		assigneeId: item.assigneeId,
+		estimateMinutes: item.estimateMinutes,
+		blockedBy: item.blockedBy,
+		tagIds: item.tagIds,
+		attachments: (item.attachments ?? []).map(
+			(attachment) =>
+				new Attachment({
+					id: crypto.randomUUID(),
+					name: attachment.name,
+					mimeType: attachment.mimeType,
+					size: attachment.size,
+					blob: attachment.blob,
+					uploadedBy: attachment.uploadedBy,
+					uploadedAt: attachment.uploadedAt,
+				})
+		),
+		children:
+			item.children && visibleItems(item.children).map((child) => cloneItem(child, author)),
+	});
+}
+
+function stamp(item: Item, author: string | undefined): void {
+	item.updatedAt = Date.now();
+	if (author !== undefined) {
+		item.author = author;
+	}
 }
 
 function requireRoot(tree: StarterTreeView) {
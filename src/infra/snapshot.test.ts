@@ -0,0 +1,276 @@
+import { describe, expect, it } from "vitest";
+import type { IFluidHandle } from "fluid-framework";
+import { independentView, TreeAlpha } from "@fluidframework/tree/alpha";
+import {
+	AppModel,
+	getDefaultStarterContent,
+	starterSchemaVersion,
+	starterTreeConfiguration,
+} from "../schema/starterSchema.js";
+import { addItem, editItemText, getSnapshot } from "./sharedTreeClient.js";
+import {
+	CommentSnapshot,
+	DocumentSnapshot,
+	fromListSnapshot,
+	fromSnapshot,
+	getAttachmentBlobs,
+	ItemSnapshot,
+	ListSnapshot,
+	snapshotVersion,
+	toListSnapshot,
+	toSnapshot,
+	withoutAttachments,
+} from "./snapshot.js";
+
+const fluidHandleSymbol = Symbol.for("FluidHandle-3978c7cf-4675-49ba-a20c-bf35efbf43da");
+
+/** Minimal in-memory handle; the tree only checks the handle marker before storing it. */
+function createHandle(): IFluidHandle {
+	const handle = { isAttached: false, get: async () => undefined, [fluidHandleSymbol]: {} };
+	handle[fluidHandleSymbol] = handle;
+	return handle as unknown as IFluidHandle;
+}
+
+function attach(root: AppModel) {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(root);
+	return tree;
+}
+
+/** Small seeded PRNG (mulberry32), so a failing case can be reproduced from its seed. */
+function createRandom(seed: number) {
+	let state = seed;
+	const next = () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = Math.imul(state ^ (state >>> 15), 1 | state);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+	const int = (max: number) => Math.floor(next() * max);
+	const chance = (p = 0.5) => next() < p;
+	const pick = <T>(values: readonly T[]) => values[int(values.length)];
+	const alphabet = ["a", "B", " ", "é", '"', ",", "\n", "😄", "-", "=", "ß", "\\"];
+	const text = () => Array.from({ length: int(8) }, () => pick(alphabet)).join("");
+	const maybe = <T>(value: () => T) => (chance() ? value() : undefined);
+	const list = <T>(max: number, value: () => T) => Array.from({ length: int(max + 1) }, value);
+	return { int, chance, pick, text, maybe, list };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+/** Drops undefined fields, as snapshots do. */
+function compact<T extends object>(value: T): T {
+	return Object.fromEntries(
+		Object.entries(value).filter(([, field]) => field !== undefined)
+	) as T;
+}
+
+function randomComment(random: Random, depth: number): CommentSnapshot {
+	return compact({
+		id: random.text(),
+		authorId: random.text(),
+		authorName: random.maybe(random.text),
+		body: random.text(),
+		createdAt: random.int(1e12),
+		editedAt: random.maybe(() => random.int(1e12)),
+		resolved: random.chance(),
+		replies: depth < 2 ? random.list(2, () => randomComment(random, depth + 1)) : [],
+	});
+}
+
+function randomItem(random: Random, blobs: Map<string, IFluidHandle>, depth: number): ItemSnapshot {
+	const record = <T>(value: () => T) =>
+		random.maybe(() => Object.fromEntries(random.list(3, () => [random.text(), value()])));
+	return compact({
+		id: crypto.randomUUID(),
+		text: random.text(),
+		done: random.chance(),
+		statusId: random.maybe(() => random.pick(["todo", "done", "gone"])),
+		author: random.maybe(random.text),
+		updatedAt: random.maybe(() => random.int(1e12)),
+		children:
+			depth < 3
+				? random.maybe(() => random.list(3, () => randomItem(random, blobs, depth + 1)))
+				: undefined,
+		dueDate: random.maybe(() => `2026-0${1 + random.int(9)}-1${random.int(10)}`),
+		priority: random.maybe(() => random.pick(["low", "urgent", "unknown"])),
+		assigneeId: random.maybe(random.text),
+		deletedAt: random.maybe(() => random.int(1e12)),
+		deletedBy: random.maybe(random.text),
+		comments: random.maybe(() => random.list(2, () => randomComment(random, 0))),
+		attachments: random.maybe(() =>
+			random.list(2, () => {
+				const id = crypto.randomUUID();
+				blobs.set(id, createHandle());
+				return compact({
+					id,
+					name: random.text(),
+					mimeType: random.pick(["", "image/png"]),
+					size: random.int(1e6),
+					uploadedBy: random.maybe(random.text),
+					uploadedAt: random.int(1e12),
+				});
+			})
+		),
+		blockedBy: random.maybe(() => random.list(2, random.text)),
+		recurrence: random.maybe(() =>
+			compact({
+				frequency: random.pick(["daily", "weekly", "yearly"]),
+				weekdays: random.maybe(() => random.list(3, () => random.int(7))),
+				intervalDays: random.maybe(() => 1 + random.int(30)),
+			})
+		),
+		tagIds: random.maybe(() => random.list(2, random.text)),
+		votes: record(() => random.int(1e12)),
+		reactions: record(() =>
+			Object.fromEntries([[random.pick(["👍", "🎉"]), random.int(1e12)]])
+		),
+		estimateMinutes: random.maybe(() => random.int(600)),
+		timeEntries: random.maybe(() =>
+			random.list(2, () =>
+				compact({
+					id: random.text(),
+					userId: random.text(),
+					userName: random.maybe(random.text),
+					minutes: 1 + random.int(100),
+					note: random.maybe(random.text),
+					loggedAt: random.int(1e12),
+				})
+			)
+		),
+	});
+}
+
+function randomDocument(seed: number): {
+	snapshot: DocumentSnapshot;
+	blobs: Map<string, IFluidHandle>;
+} {
+	const random = createRandom(seed);
+	const blobs = new Map<string, IFluidHandle>();
+	const items = () => random.list(4, () => randomItem(random, blobs, 0));
+	const snapshot: DocumentSnapshot = compact({
+		version: snapshotVersion,
+		schemaVersion: starterSchemaVersion,
+		title: random.text(),
+		items: items(),
+		lists: random.maybe(() =>
+			random.list(3, () => ({
+				id: crypto.randomUUID(),
+				title: random.text(),
+				items: items(),
+			}))
+		),
+		workflow: random.maybe(() =>
+			random.list(3, () => ({
+				id: random.text(),
+				name: random.text(),
+				color: "#38bdf8",
+				countsAsComplete: random.chance(),
+			}))
+		),
+		tags: random.maybe(() =>
+			random.list(3, () => ({ id: random.text(), name: random.text(), color: "#f00" }))
+		),
+		activity: random.maybe(() =>
+			random.list(3, () =>
+				compact({
+					id: random.text(),
+					at: random.int(1e12),
+					actor: random.maybe(random.text),
+					operation: random.pick(["addItem", "futureOperation"]),
+					itemId: random.maybe(random.text),
+					subject: random.maybe(random.text),
+					before: random.maybe(random.text),
+					after: random.maybe(random.text),
+				})
+			)
+		),
+		trashRetentionDays: random.maybe(() => random.int(90)),
+	});
+	return { snapshot, blobs };
+}
+
+describe("snapshot", () => {
+	it("round-trips random documents: fromSnapshot(toSnapshot(x)) equals x", () => {
+		for (let seed = 1; seed <= 60; seed++) {
+			const { snapshot, blobs } = randomDocument(seed);
+			const x = attach(fromSnapshot(snapshot, blobs)).root;
+
+			const taken = toSnapshot(x);
+			expect(taken, `seed ${seed}`).toEqual(snapshot);
+			const y = attach(fromSnapshot(taken, getAttachmentBlobs(x))).root;
+			expect(TreeAlpha.exportConcise(y), `seed ${seed}`).toEqual(TreeAlpha.exportConcise(x));
+			expect(JSON.parse(JSON.stringify(taken)), `seed ${seed}`).toEqual(taken);
+		}
+	});
+
+	it("round-trips the default document and edits made through the client", () => {
+		const tree = attach(getDefaultStarterContent());
+		const listId = tree.root.lists?.[0].id ?? "";
+		const parent = addItem(tree, listId, "parent", "ana") ?? "";
+		addItem(tree, listId, "child", "ben", parent);
+
+		const copy = attach(
+			fromSnapshot(toSnapshot(tree.root), getAttachmentBlobs(tree.root))
+		).root;
+		expect(TreeAlpha.exportConcise(copy)).toEqual(TreeAlpha.exportConcise(tree.root));
+	});
+
+	it("is plain data that later edits do not change", () => {
+		const tree = attach(getDefaultStarterContent());
+		const listId = tree.root.lists?.[0].id ?? "";
+		const id = addItem(tree, listId, "draft", "ana") ?? "";
+		const snapshot = getSnapshot(tree, listId);
+		editItemText(tree, id, "final");
+
+		expect(snapshot.version).toBe(snapshotVersion);
+		expect(snapshot.items[0].text).toBe("draft");
+		expect(Object.getPrototypeOf(snapshot.items[0])).toBe(Object.prototype);
+		expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+	});
+
+	it("round-trips a list snapshot under a new id", () => {
+		for (let seed = 1; seed <= 20; seed++) {
+			const { snapshot, blobs } = randomDocument(seed);
+			const source = attach(fromSnapshot(snapshot, blobs)).root;
+			for (const list of source.lists ?? []) {
+				const taken = toListSnapshot(list);
+				const copy = fromListSnapshot(taken, getAttachmentBlobs(source));
+				expect(toListSnapshot(copy), `seed ${seed}`).toEqual(taken);
+				expect(copy.id).not.toBe(list.id);
+			}
+		}
+	});
+
+	it("rejects attachments whose blob is unknown unless they are left out", () => {
+		const { snapshot } = randomDocument(7);
+		const withAttachment: DocumentSnapshot = {
+			...snapshot,
+			items: [
+				{
+					id: "a",
+					text: "a",
+					done: false,
+					attachments: [{ id: "f", name: "f", mimeType: "", size: 1, uploadedAt: 0 }],
+				},
+			],
+		};
+		expect(() => fromSnapshot(withAttachment, new Map())).toThrow('No blob for attachment "f"');
+		const restored = fromSnapshot(withoutAttachments(withAttachment), new Map());
+		expect(restored.items[0].attachments).toBeUndefined();
+		expect(withAttachment.items[0].attachments).toHaveLength(1);
+	});
+
+	it("rejects newer versions", () => {
+		const { snapshot } = randomDocument(7);
+		expect(() =>
+			fromSnapshot({ ...snapshot, version: 2 } as unknown as DocumentSnapshot, new Map())
+		).toThrow("Snapshot version 2 is newer");
+		expect(() =>
+			fromListSnapshot(
+				{ version: 2, title: "", items: [] } as unknown as ListSnapshot,
+				new Map()
+			)
+		).toThrow("Snapshot version 2 is newer");
+	});
+});
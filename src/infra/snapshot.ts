@@ -0,0 +1,445 @@
+import type { IFluidHandle } from "fluid-framework";
+import {
+	ActivityEntry,
+	ActivityLog,
+	AppModel,
+	Attachment,
+	Attachments,
+	Checklist,
+	Checklists,
+	Comment,
+	Comments,
+	Item,
+	ItemIds,
+	Items,
+	Reactions,
+	Recurrence,
+	starterSchemaVersion,
+	Tag,
+	TagIds,
+	Tags,
+	TimeEntries,
+	TimeEntry,
+	UserReactions,
+	Votes,
+	Weekdays,
+	Workflow,
+	WorkflowStatus,
+} from "../schema/starterSchema.js";
+
+/**
+ * Version of the snapshot format. Bump it when a snapshot type changes in a way older readers
+ * would misread; `fromSnapshot` refuses snapshots newer than this.
+ */
+export const snapshotVersion = 1;
+
+/*
+ * Plain-data mirrors of the schema nodes: JSON-safe (no handles, maps or class instances), with
+ * absent optional fields left out rather than set to undefined. Collections that can be absent
+ * in the tree (an item that never had subtasks) stay absent here, so the distinction survives a
+ * round trip. Unknown fields written by newer schema versions are not captured.
+ */
+
+export type CommentSnapshot = {
+	id: string;
+	authorId: string;
+	authorName?: string;
+	body: string;
+	createdAt: number;
+	editedAt?: number;
+	resolved: boolean;
+	replies: CommentSnapshot[];
+};
+
+/** An attachment's metadata. Blob handles are not data; see `getAttachmentBlobs`. */
+export type AttachmentSnapshot = {
+	id: string;
+	name: string;
+	mimeType: string;
+	size: number;
+	uploadedBy?: string;
+	uploadedAt: number;
+};
+
+export type TimeEntrySnapshot = {
+	id: string;
+	userId: string;
+	userName?: string;
+	minutes: number;
+	note?: string;
+	loggedAt: number;
+};
+
+export type RecurrenceSnapshot = {
+	frequency: string;
+	weekdays?: number[];
+	intervalDays?: number;
+};
+
+export type ItemSnapshot = {
+	id: string;
+	text: string;
+	done: boolean;
+	statusId?: string;
+	author?: string;
+	updatedAt?: number;
+	children?: ItemSnapshot[];
+	dueDate?: string;
+	priority?: string;
+	assigneeId?: string;
+	deletedAt?: number;
+	deletedBy?: string;
+	comments?: CommentSnapshot[];
+	attachments?: AttachmentSnapshot[];
+	blockedBy?: string[];
+	recurrence?: RecurrenceSnapshot;
+	tagIds?: string[];
+	/** When each user voted, by user id. */
+	votes?: Record<string, number>;
+	/** When each user added each emoji, by user id and then emoji. */
+	reactions?: Record<string, Record<string, number>>;
+	estimateMinutes?: number;
+	timeEntries?: TimeEntrySnapshot[];
+};
+
+export type ChecklistSnapshot = { id: string; title: string; items: ItemSnapshot[] };
+
+export type WorkflowStatusSnapshot = {
+	id: string;
+	name: string;
+	color: string;
+	countsAsComplete: boolean;
+};
+
+export type TagSnapshot = { id: string; name: string; color: string };
+
+export type ActivityEntrySnapshot = {
+	id: string;
+	at: number;
+	actor?: string;
+	operation: string;
+	itemId?: string;
+	subject?: string;
+	before?: string;
+	after?: string;
+};
+
+/** A whole document as data. */
+export type DocumentSnapshot = {
+	version: typeof snapshotVersion;
+	/** `starterSchemaVersion` of the client that took the snapshot. */
+	schemaVersion: number;
+	title: string;
+	items: ItemSnapshot[];
+	lists?: ChecklistSnapshot[];
+	workflow?: WorkflowStatusSnapshot[];
+	tags?: TagSnapshot[];
+	activity?: ActivityEntrySnapshot[];
+	trashRetentionDays?: number;
+};
+
+/** One list as data, e.g. for exporting it or sending it to the LLM. Its id is not included. */
+export type ListSnapshot = {
+	version: typeof snapshotVersion;
+	title: string;
+	/** Every item, trashed ones included (they carry `deletedAt`). */
+	items: ItemSnapshot[];
+};
+
+/** Drops undefined fields so snapshots compare and serialize without them. */
+function compact<T extends object>(value: T): T {
+	for (const key of Object.keys(value) as (keyof T)[]) {
+		if (value[key] === undefined) {
+			delete value[key];
+		}
+	}
+	return value;
+}
+
+function toRecord<V, R>(entries: Iterable<[string, V]>, map: (value: V) => R): Record<string, R> {
+	const record: Record<string, R> = {};
+	for (const [key, value] of entries) {
+		record[key] = map(value);
+	}
+	return record;
+}
+
+export function toCommentSnapshot(comment: Comment): CommentSnapshot {
+	return compact({
+		id: comment.id,
+		authorId: comment.authorId,
+		authorName: comment.authorName,
+		body: comment.body,
+		createdAt: comment.createdAt,
+		editedAt: comment.editedAt,
+		resolved: comment.resolved,
+		replies: [...comment.replies].map(toCommentSnapshot),
+	});
+}
+
+export function toItemSnapshot(item: Item): ItemSnapshot {
+	return compact({
+		id: item.id,
+		text: item.text,
+		done: item.done,
+		statusId: item.statusId,
+		author: item.author,
+		updatedAt: item.updatedAt,
+		children: item.children && [...item.children].map(toItemSnapshot),
+		dueDate: item.dueDate,
+		priority: item.priority,
+		assigneeId: item.assigneeId,
+		deletedAt: item.deletedAt,
+		deletedBy: item.deletedBy,
+		comments: item.comments && [...item.comments].map(toCommentSnapshot),
+		attachments:
+			item.attachments &&
+			[...item.attachments].map((attachment) =>
+				compact({
+					id: attachment.id,
+					name: attachment.name,
+					mimeType: attachment.mimeType,
+					size: attachment.size,
+					uploadedBy: attachment.uploadedBy,
+					uploadedAt: attachment.uploadedAt,
+				})
+			),
+		blockedBy: item.blockedBy && [...item.blockedBy],
+		recurrence:
+			item.recurrence &&
+			compact({
+				frequency: item.recurrence.frequency,
+				weekdays: item.recurrence.weekdays && [...item.recurrence.weekdays],
+				intervalDays: item.recurrence.intervalDays,
+			}),
+		tagIds: item.tagIds && [...item.tagIds],
+		votes: item.votes && toRecord(item.votes.entries(), (at) => at),
+		reactions:
+			item.reactions &&
+			toRecord(item.reactions.entries(), (emoji) => toRecord(emoji.entries(), (at) => at)),
+		estimateMinutes: item.estimateMinutes,
+		timeEntries:
+			item.timeEntries &&
+			[...item.timeEntries].map((entry) =>
+				compact({
+					id: entry.id,
+					userId: entry.userId,
+					userName: entry.userName,
+					minutes: entry.minutes,
+					note: entry.note,
+					loggedAt: entry.loggedAt,
+				})
+			),
+	});
+}
+
+export function toListSnapshot(list: Checklist): ListSnapshot {
+	return {
+		version: snapshotVersion,
+		title: list.title,
+		items: [...list.items].map(toItemSnapshot),
+	};
+}
+
+/** The whole document as plain, JSON-safe data that no later edit can change. */
+export function toSnapshot(root: AppModel): DocumentSnapshot {
+	return compact({
+		version: snapshotVersion,
+		schemaVersion: starterSchemaVersion,
+		title: root.title,
+		items: [...root.items].map(toItemSnapshot),
+		lists:
+			root.lists &&
+			[...root.lists].map((list) => ({
+				id: list.id,
+				title: list.title,
+				items: [...list.items].map(toItemSnapshot),
+			})),
+		workflow:
+			root.workflow &&
+			[...root.workflow].map((status) => ({
+				id: status.id,
+				name: status.name,
+				color: status.color,
+				countsAsComplete: status.countsAsComplete,
+			})),
+		tags:
+			root.tags &&
+			[...root.tags].map((tag) => ({ id: tag.id, name: tag.name, color: tag.color })),
+		activity:
+			root.activity &&
+			[...root.activity].map((entry) =>
+				compact({
+					id: entry.id,
+					at: entry.at,
+					actor: entry.actor,
+					operation: entry.operation,
+					itemId: entry.itemId,
+					subject: entry.subject,
+					before: entry.before,
+					after: entry.after,
+				})
+			),
+		trashRetentionDays: root.trashRetentionDays,
+	});
+}
+
+/** The blob handle of every attachment in the document, by attachment id, for `fromSnapshot`. */
+export function getAttachmentBlobs(root: AppModel): Map<string, IFluidHandle> {
+	const blobs = new Map<string, IFluidHandle>();
+	const visit = (items: Iterable<Item>) => {
+		for (const item of items) {
+			for (const attachment of item.attachments ?? []) {
+				blobs.set(attachment.id, attachment.blob);
+			}
+			visit(item.children ?? []);
+		}
+	};
+	visit(root.items);
+	for (const list of root.lists ?? []) {
+		visit(list.items);
+	}
+	return blobs;
+}
+
+function fromCommentSnapshot(comment: CommentSnapshot): Comment {
+	return new Comment({
+		...comment,
+		replies: new Comments(comment.replies.map(fromCommentSnapshot)),
+	});
+}
+
+function fromItemSnapshot(item: ItemSnapshot, blobs: ReadonlyMap<string, IFluidHandle>): Item {
+	return new Item({
+		id: item.id,
+		text: item.text,
+		done: item.done,
+		statusId: item.statusId,
+		author: item.author,
+		updatedAt: item.updatedAt,
+		children:
+			item.children &&
+			new Items(item.children.map((child) => fromItemSnapshot(child, blobs))),
+		dueDate: item.dueDate,
+		priority: item.priority,
+		assigneeId: item.assigneeId,
+		deletedAt: item.deletedAt,
+		deletedBy: item.deletedBy,
+		comments: item.comments && new Comments(item.comments.map(fromCommentSnapshot)),
+		attachments:
+			item.attachments &&
+			new Attachments(
+				item.attachments.map((attachment) => {
+					const blob = blobs.get(attachment.id);
+					if (!blob) {
+						throw new Error(
+							`No blob for attachment "${attachment.name}" (${attachment.id})`
+						);
+					}
+					return new Attachment({ ...attachment, blob });
+				})
+			),
+		blockedBy: item.blockedBy && new ItemIds(item.blockedBy),
+		recurrence:
+			item.recurrence &&
+			new Recurrence({
+				frequency: item.recurrence.frequency,
+				weekdays: item.recurrence.weekdays && new Weekdays(item.recurrence.weekdays),
+				intervalDays: item.recurrence.intervalDays,
+			}),
+		tagIds: item.tagIds && new TagIds(item.tagIds),
+		votes: item.votes && new Votes(Object.entries(item.votes)),
+		reactions:
+			item.reactions &&
+			new Reactions(
+				Object.entries(item.reactions).map(([userId, emoji]) => [
+					userId,
+					new UserReactions(Object.entries(emoji)),
+				])
+			),
+		estimateMinutes: item.estimateMinutes,
+		timeEntries:
+			item.timeEntries &&
+			new TimeEntries(item.timeEntries.map((entry) => new TimeEntry(entry))),
+	});
+}
+
+function checkVersion(snapshot: { version: number }): void {
+	if (snapshot.version > snapshotVersion) {
+		throw new Error(
+			`Snapshot version ${snapshot.version} is newer than this app supports (${snapshotVersion})`
+		);
+	}
+}
+
+/**
+ * Builds an unattached document from a snapshot, e.g. to initialize a new tree with it. Blob
+ * handles are not part of snapshots: attachments are restored from `blobs` (see
+ * `getAttachmentBlobs`). Use `withoutAttachments` to restore a snapshot without them.
+ * @throws If the snapshot was written by a newer, unknown snapshot version, or `blobs` lacks the
+ * blob of one of its attachments.
+ */
+export function fromSnapshot(
+	snapshot: DocumentSnapshot,
+	blobs: ReadonlyMap<string, IFluidHandle>
+): AppModel {
+	checkVersion(snapshot);
+	const items = (source: readonly ItemSnapshot[]) =>
+		new Items(source.map((item) => fromItemSnapshot(item, blobs)));
+	return new AppModel({
+		title: snapshot.title,
+		items: items(snapshot.items),
+		lists:
+			snapshot.lists &&
+			new Checklists(
+				snapshot.lists.map(
+					(list) =>
+						new Checklist({ id: list.id, title: list.title, items: items(list.items) })
+				)
+			),
+		workflow:
+			snapshot.workflow &&
+			new Workflow(snapshot.workflow.map((status) => new WorkflowStatus(status))),
+		tags: snapshot.tags && new Tags(snapshot.tags.map((tag) => new Tag(tag))),
+		activity:
+			snapshot.activity &&
+			new ActivityLog(snapshot.activity.map((entry) => new ActivityEntry(entry))),
+		trashRetentionDays: snapshot.trashRetentionDays,
+	});
+}
+
+/**
+ * Builds an unattached list from a list snapshot, under a new id since list snapshots carry none.
+ * Attachments are restored from `blobs` as in `fromSnapshot`.
+ * @throws If the snapshot was written by a newer, unknown snapshot version, or `blobs` lacks the
+ * blob of one of its attachments.
+ */
+export function fromListSnapshot(
+	snapshot: ListSnapshot,
+	blobs: ReadonlyMap<string, IFluidHandle>
+): Checklist {
+	checkVersion(snapshot);
+	return new Checklist({
+		id: crypto.randomUUID(),
+		title: snapshot.title,
+		items: new Items(snapshot.items.map((item) => fromItemSnapshot(item, blobs))),
+	});
+}
+
+/**
+ * The snapshot with every attachment left out, for restoring it where the blobs are not
+ * available, e.g. offline.
+ */
+export function withoutAttachments(snapshot: DocumentSnapshot): DocumentSnapshot {
+	const strip = (items: readonly ItemSnapshot[]): ItemSnapshot[] =>
+		items.map((item) => {
+			const copy = { ...item, children: item.children && strip(item.children) };
+			delete copy.attachments;
+			return compact(copy);
+		});
+	return compact({
+		...snapshot,
+		items: strip(snapshot.items),
+		lists: snapshot.lists?.map((list) => ({ ...list, items: strip(list.items) })),
+	});
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { independentView } from "@fluidframework/tree/alpha";
+import { starterTreeConfiguration } from "../schema/starterSchema.js";
+import {
+	addItem,
+	flattenItems,
+	removeItem,
+	setItemPriority,
+	toggleItem,
+} from "./sharedTreeClient.js";
+import { createTemplate, createTemplateLibrary, getTemplateContent } from "./templates.js";
+
+function createStorage() {
+	const values = new Map<string, string>();
+	return {
+		getItem: (key: string) => values.get(key) ?? null,
+		setItem: (key: string, value: string) => void values.set(key, value),
+	};
+}
+
+function createOnboardingTree() {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(
+		getTemplateContent({
+			id: "seed",
+			name: "seed",
+			createdAt: 0,
+			title: "Onboarding",
+			items: [],
+		})
+	);
+	const listId = tree.root.lists?.[0].id ?? "";
+	const laptop = addItem(tree, listId, "Order laptop", "ana") ?? "";
+	addItem(tree, listId, "Install tools", "ana", laptop);
+	const badge = addItem(tree, listId, "Print badge", "ben") ?? "";
+	const stale = addItem(tree, listId, "Old step", "ben") ?? "";
+	setItemPriority(tree, laptop, "high");
+	toggleItem(tree, badge);
+	removeItem(tree, stale);
+	return tree;
+}
+
+describe("templates", () => {
+	it("captures a list without completion state or authors", () => {
+		const list = createOnboardingTree().root.lists?.[0];
+		const template = createTemplate("  New hire  ", list!);
+
+		expect(template.name).toBe("New hire");
+		expect(template.title).toBe("Onboarding");
+		expect(template.items).toEqual([
+			{
+				text: "Order laptop",
+				priority: "high",
+				children: [{ text: "Install tools", priority: undefined, children: [] }],
+			},
+			{ text: "Print badge", priority: undefined, children: [] },
+		]);
+		expect(() => createTemplate(" ", list!)).toThrow("Template name cannot be empty");
+	});
+
+	it("initializes a new document from a template", () => {
+		const template = createTemplate("New hire", createOnboardingTree().root.lists![0]);
+		const tree = independentView(starterTreeConfiguration, {});
+		tree.initialize(getTemplateContent(template, "carol"));
+
+		const [list] = tree.root.lists ?? [];
+		expect(list.title).toBe("Onboarding");
+		const items = flattenItems(list.items);
+		expect(items.map((item) => [item.text, item.done, item.statusId, item.author])).toEqual([
+			["Order laptop", false, "todo", "carol"],
+			["Install tools", false, "todo", "carol"],
+			["Print badge", false, "todo", "carol"],
+		]);
+		expect(items[0].priority).toBe("high");
+		expect(tree.root.tags?.length).toBe(0);
+	});
+
+	it("keeps a library of templates in storage", () => {
+		const storage = createStorage();
+		const library = createTemplateLibrary(storage);
+		let changes = 0;
+		library.events.on("changed", () => changes++);
+		const list = createOnboardingTree().root.lists![0];
+		const first = { ...createTemplate("First", list), createdAt: 1 };
+		const second = { ...createTemplate("Second", list), createdAt: 2 };
+
+		library.save(first);
+		library.save(second);
+		library.save({ ...first, name: "First (renamed)" });
+		const reopened = createTemplateLibrary(storage);
+		expect(reopened.list().map((template) => template.name)).toEqual([
+			"Second",
+			"First (renamed)",
+		]);
+		expect(reopened.get(second.id)?.items).toEqual(second.items);
+
+		library.remove(second.id);
+		expect(reopened.list().map((template) => template.name)).toEqual(["First (renamed)"]);
+		expect(changes).toBe(4);
+	});
+
+	it("ignores malformed storage", () => {
+		const storage = createStorage();
+		storage.setItem("list-templates", '[{"id": 1}]');
+		expect(createTemplateLibrary(storage).list()).toEqual([]);
+		storage.setItem("list-templates", "not json");
+		expect(createTemplateLibrary(storage).list()).toEqual([]);
+	});
+});
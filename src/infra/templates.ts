@@ -0,0 +1,151 @@
+import type { Listenable } from "fluid-framework";
+import { z } from "zod";
+import {
+	AppModel,
+	Checklist,
+	Checklists,
+	getDefaultStarterContent,
+	Item,
+	Items,
+	priorities,
+	Priority,
+} from "../schema/starterSchema.js";
+import { createEmitter } from "../utils/emitter.js";
+import { createItem, getItemPriority, visibleItems } from "./sharedTreeClient.js";
+
+/** An item of a template: what to do, without who did it or whether it is done. */
+export type TemplateItem = {
+	text: string;
+	priority?: Priority;
+	children: TemplateItem[];
+};
+
+export type ListTemplate = {
+	id: string;
+	name: string;
+	createdAt: number;
+	title: string;
+	items: TemplateItem[];
+};
+
+export type TemplateLibraryEvents = {
+	/** Fired when a template is saved or removed. */
+	changed(): void;
+};
+
+/**
+ * Named list templates, kept in local storage so they can seed documents that do not exist yet.
+ * They are personal to the browser profile rather than shared through any one document.
+ */
+export interface TemplateLibrary {
+	readonly events: Listenable<TemplateLibraryEvents>;
+	/** Saved templates, newest first. */
+	list(): readonly ListTemplate[];
+	get(id: string): ListTemplate | undefined;
+	save(template: ListTemplate): void;
+	remove(id: string): void;
+}
+
+const templateItemSchema: z.ZodType<TemplateItem> = z.lazy(() =>
+	z.object({
+		text: z.string(),
+		priority: z.enum(priorities).optional(),
+		children: z.array(templateItemSchema),
+	})
+);
+
+const templatesSchema = z.array(
+	z.object({
+		id: z.string(),
+		name: z.string(),
+		createdAt: z.number(),
+		title: z.string(),
+		items: z.array(templateItemSchema),
+	})
+);
+
+const storageKey = "list-templates";
+
+export function createTemplateLibrary(
+	storage: Pick<Storage, "getItem" | "setItem"> = window.localStorage
+): TemplateLibrary {
+	const events = createEmitter<TemplateLibraryEvents>();
+
+	// Read on every access so templates saved from other tabs show up.
+	const load = (): ListTemplate[] => {
+		try {
+			const parsed = templatesSchema.safeParse(
+				JSON.parse(storage.getItem(storageKey) ?? "[]")
+			);
+			return parsed.success ? parsed.data : [];
+		} catch {
+			return [];
+		}
+	};
+	const store = (templates: readonly ListTemplate[]) => {
+		storage.setItem(storageKey, JSON.stringify(templates));
+		events.emit("changed");
+	};
+
+	return {
+		events,
+		list: () => load().sort((a, b) => b.createdAt - a.createdAt),
+		get: (id) => load().find((template) => template.id === id),
+		save(template) {
+			store([...load().filter((existing) => existing.id !== template.id), template]);
+		},
+		remove(id) {
+			store(load().filter((template) => template.id !== id));
+		},
+	};
+}
+
+/**
+ * Captures a list as a template: its title and live items with their subtasks and priorities.
+ * Completion, authors, dates, assignees and discussion are left behind.
+ * @throws If the name is empty.
+ */
+export function createTemplate(name: string, list: Checklist): ListTemplate {
+	const trimmed = name.trim();
+	if (!trimmed) {
+		throw new Error("Template name cannot be empty");
+	}
+	const toTemplateItem = (item: Item): TemplateItem => ({
+		text: item.text,
+		priority: getItemPriority(item),
+		children: visibleItems(item.children ?? []).map(toTemplateItem),
+	});
+	return {
+		id: crypto.randomUUID(),
+		name: trimmed,
+		createdAt: Date.now(),
+		title: list.title,
+		items: visibleItems(list.items).map(toTemplateItem),
+	};
+}
+
+/**
+ * Initial content for a new document made from the template: the default document with its one
+ * list replaced by the template's, every item in the first incomplete status.
+ */
+export function getTemplateContent(template: ListTemplate, author?: string): AppModel {
+	const content = getDefaultStarterContent();
+	const status = [...(content.workflow ?? [])].find((candidate) => !candidate.countsAsComplete);
+	const toItem = (source: TemplateItem): Item =>
+		createItem({
+			text: source.text,
+			statusId: status?.id,
+			author,
+			priority: source.priority,
+			children: source.children.length > 0 ? source.children.map(toItem) : undefined,
+		});
+	content.title = template.title;
+	content.lists = new Checklists([
+		new Checklist({
+			id: crypto.randomUUID(),
+			title: template.title,
+			items: new Items(template.items.map(toItem)),
+		}),
+	]);
+	return content;
+}
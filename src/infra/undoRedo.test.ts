@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { asTreeViewAlpha, independentView } from "@fluidframework/tree/alpha";
+import {
+	starterTreeConfiguration,
+	getDefaultStarterContent,
+	StarterTreeView,
+	Items,
+} from "../schema/starterSchema.js";
+import {
+	addItem,
+	editItemText,
+	purgeExpiredItems,
+	removeItem,
+	toggleItem,
+} from "./sharedTreeClient.js";
+import { createUndoRedo, runUntracked } from "./undoRedo.js";
+
+function createTree(): StarterTreeView {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	return tree;
+}
+
+function items(tree: StarterTreeView): Items {
+	const list = tree.root.lists?.[0];
+	if (!list) {
+		throw new Error("Tree has no lists");
+	}
+	return list.items;
+}
+
+function listId(tree: StarterTreeView): string {
+	return tree.root.lists?.[0]?.id ?? "";
+}
+
+function texts(tree: StarterTreeView): string[] {
+	return items(tree).map((item) => item.text);
+}
+
+describe("undoRedo", () => {
+	it("undoes and redoes local commits in order", () => {
+		const tree = createTree();
+		const undoRedo = createUndoRedo(tree);
+		expect(undoRedo.canUndo()).toBe(false);
+
+		addItem(tree, listId(tree), "a");
+		addItem(tree, listId(tree), "b");
+		undoRedo.undo();
+		expect(texts(tree)).toEqual(["a"]);
+		expect(undoRedo.canRedo()).toBe(true);
+
+		undoRedo.redo();
+		expect(texts(tree)).toEqual(["a", "b"]);
+
+		undoRedo.undo();
+		undoRedo.undo();
+		expect(texts(tree)).toEqual([]);
+		expect(undoRedo.canUndo()).toBe(false);
+	});
+
+	it("clears the redo stack after a new edit", () => {
+		const tree = createTree();
+		const undoRedo = createUndoRedo(tree);
+		addItem(tree, listId(tree), "a");
+		undoRedo.undo();
+		addItem(tree, listId(tree), "b");
+		expect(undoRedo.canRedo()).toBe(false);
+		undoRedo.redo();
+		expect(texts(tree)).toEqual(["b"]);
+	});
+
+	it("keeps untracked housekeeping out of the history", () => {
+		const tree = createTree();
+		const undoRedo = createUndoRedo(tree);
+		const id = addItem(tree, listId(tree), "old") ?? "";
+		removeItem(tree, id);
+		addItem(tree, listId(tree), "a");
+		undoRedo.undo();
+
+		const nextYear = Date.now() + 365 * 24 * 60 * 60 * 1000;
+		expect(runUntracked(tree, () => purgeExpiredItems(tree, nextYear))).toBe(1);
+		expect(undoRedo.canRedo()).toBe(true);
+		undoRedo.redo();
+		expect(texts(tree)).toEqual(["a"]);
+
+		// Undo goes back through the user's own edits; the purged item stays gone.
+		undoRedo.undo();
+		undoRedo.undo();
+		expect(texts(tree)).toEqual([]);
+	});
+
+	it("skips remote edits and reverts local ones over them", () => {
+		// The main view plays the remote client; its commits reach the local fork by rebasing,
+		// which is how sequenced remote ops arrive.
+		const remote = createTree();
+		addItem(remote, listId(remote), "shared");
+		const local = asTreeViewAlpha(remote).fork();
+		const undoRedo = createUndoRedo(local);
+
+		toggleItem(local, items(local)[0].id);
+		editItemText(remote, items(remote)[0].id, "shared (remote edit)");
+		addItem(remote, listId(remote), "remote only");
+		local.rebaseOnto(asTreeViewAlpha(remote));
+
+		undoRedo.undo();
+		expect(undoRedo.canUndo()).toBe(false);
+		expect(texts(local)).toEqual(["shared (remote edit)", "remote only"]);
+		expect(items(local)[0].done).toBe(false);
+	});
+});
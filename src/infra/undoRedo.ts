@@ -0,0 +1,164 @@
+import { CommitKind, Revertible, RevertibleStatus } from "fluid-framework";
+import type { Listenable } from "fluid-framework";
+import type { ActivityEntry, StarterTreeView } from "../schema/starterSchema.js";
+import { createEmitter } from "../utils/emitter.js";
+import { getAppendingActivity, recordActivity } from "./activityLog.js";
+
+export type UndoRedoEvents = {
+	/** Fired whenever the undo or redo stack changes. */
+	stackChanged(): void;
+};
+
+/**
+ * Per-client undo/redo over SharedTree revertibles. Only commits made by this client are
+ * recorded; remote edits are never undone, and reverting a local commit rebases cleanly over
+ * any remote changes that landed since. The activity log's own commits are not recorded, so an
+ * undo leaves the log alone and adds an entry for itself instead.
+ */
+export interface UndoRedo {
+	readonly events: Listenable<UndoRedoEvents>;
+	canUndo(): boolean;
+	canRedo(): boolean;
+	undo(): void;
+	redo(): void;
+	/** Forgets all history, e.g. after a document migration that must not be undone. */
+	clear(): void;
+	dispose(): void;
+}
+
+const defaultMaxDepth = 100;
+
+/** Trees whose current edit is running through `runUntracked`. */
+const untracked = new WeakSet<StarterTreeView>();
+
+/**
+ * Applies `edit` without recording it in the tree's undo/redo history and without clearing the
+ * redo stack, for housekeeping the user did not ask for, such as purging expired trash.
+ */
+export function runUntracked<T>(tree: StarterTreeView, edit: () => T): T {
+	untracked.add(tree);
+	try {
+		return edit();
+	} finally {
+		untracked.delete(tree);
+	}
+}
+
+/** Whether an edit made through `runUntracked` is being applied to `tree` right now. */
+export function isUntracked(tree: StarterTreeView): boolean {
+	return untracked.has(tree);
+}
+
+/** A commit that can be reverted, and the first activity entry it was logged with. */
+type Step = {
+	revertible: Revertible;
+	activity?: Pick<ActivityEntry, "operation" | "itemId" | "subject">;
+};
+
+/**
+ * @param actor - Who undoes and redoes, for the activity log.
+ */
+export function createUndoRedo(
+	tree: StarterTreeView,
+	actor?: string,
+	maxDepth = defaultMaxDepth
+): UndoRedo {
+	const events = createEmitter<UndoRedoEvents>();
+	const undoStack: Step[] = [];
+	const redoStack: Step[] = [];
+	// The step whose activity entries are still to be appended, right after its own commit.
+	let awaitingActivity: Step | undefined;
+
+	const push = (stack: Step[], step: Step) => {
+		stack.push(step);
+		if (stack.length > maxDepth) {
+			stack.shift()?.revertible.dispose();
+		}
+	};
+
+	const clear = (stack: Step[]) => {
+		for (const step of stack.splice(0)) {
+			step.revertible.dispose();
+		}
+	};
+
+	const popValid = (stack: Step[]): Step | undefined => {
+		let step = stack.pop();
+		while (step && step.revertible.status === RevertibleStatus.Disposed) {
+			step = stack.pop();
+		}
+		return step;
+	};
+
+	const offCommit = tree.events.on("commitApplied", (commit, getRevertible) => {
+		const [entry] = getAppendingActivity() ?? [];
+		if (entry !== undefined && awaitingActivity !== undefined) {
+			const { operation, itemId, subject } = entry;
+			awaitingActivity.activity = { operation, itemId, subject };
+		}
+		awaitingActivity = undefined;
+		// Remote commits never come with a revertible factory.
+		if (
+			!commit.isLocal ||
+			getRevertible === undefined ||
+			untracked.has(tree) ||
+			entry !== undefined
+		) {
+			return;
+		}
+		const step: Step = { revertible: getRevertible() };
+		if (commit.kind === CommitKind.Undo) {
+			push(redoStack, step);
+		} else {
+			if (commit.kind === CommitKind.Default) {
+				clear(redoStack);
+				awaitingActivity = step;
+			}
+			push(undoStack, step);
+		}
+		events.emit("stackChanged");
+	});
+
+	const revert = (stack: Step[], operation: "undo" | "redo") => {
+		const step = popValid(stack);
+		if (!step) {
+			return;
+		}
+		// Reverting produces a new local commit, which the listener above files on the
+		// opposite stack.
+		step.revertible.revert();
+		const opposite = operation === "undo" ? redoStack : undoStack;
+		const reverted = opposite.at(-1);
+		if (reverted !== undefined) {
+			reverted.activity = step.activity;
+		}
+		if (step.activity !== undefined) {
+			recordActivity(tree.root, actor, {
+				operation,
+				itemId: step.activity.itemId,
+				subject: step.activity.subject,
+				after: step.activity.operation,
+			});
+		}
+		events.emit("stackChanged");
+	};
+
+	return {
+		events,
+		canUndo: () => undoStack.some((step) => step.revertible.status === RevertibleStatus.Valid),
+		canRedo: () => redoStack.some((step) => step.revertible.status === RevertibleStatus.Valid),
+		undo: () => revert(undoStack, "undo"),
+		redo: () => revert(redoStack, "redo"),
+		clear: () => {
+			clear(undoStack);
+			clear(redoStack);
+			events.emit("stackChanged");
+		},
+		dispose: () => {
+			offCommit();
+			clear(undoStack);
+			clear(redoStack);
+			events.emit("stackChanged");
+		},
+	};
+}
@@ -0,0 +1,35 @@
+/**
+ * TimerManager Interface
+ *
+ * Defines the contract for sharing time-tracking timers across clients. Each client runs at most
+ * one timer, against a single item; its running state is broadcast so collaborators can see who
+ * is working on what. The logged time itself is written to the document when the timer stops.
+ */
+
+import { PresenceManager } from "./PresenceManager.js";
+
+/**
+ * Shared state describing a running timer.
+ */
+export interface TimerState {
+	itemId: string;
+	/** Epoch milliseconds when the timer was started. */
+	startedAt: number;
+}
+
+/**
+ * Presence manager contract for broadcasting running timers.
+ */
+export interface TimerManager<TState extends TimerState | null = TimerState | null>
+	extends PresenceManager<TState> {
+	/**
+	 * Start timing the item for the local client, replacing any timer already running.
+	 */
+	startTimer(itemId: string): void;
+
+	/**
+	 * Stop the local timer.
+	 * @returns The timer that was running, or null if there was none.
+	 */
+	stopTimer(): TimerState | null;
+}
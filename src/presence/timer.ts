@@ -0,0 +1,76 @@
+/* eslint-disable @typescript-eslint/no-empty-object-type */
+
+/**
+ * Timer Manager Implementation
+ *
+ * Broadcasts each client's running time-tracking timer using the Fluid presence API, so the UI
+ * can show who is working on which item while the time is still being counted.
+ */
+
+import {
+	StateFactory,
+	StatesWorkspace,
+	Latest,
+	LatestEvents,
+	StateSchemaValidator,
+} from "@fluidframework/presence/beta";
+import { Listenable } from "fluid-framework";
+import { TimerManager, TimerState } from "./Interfaces/TimerManager.js";
+import { z } from "zod";
+
+const TimerStateSchema: z.ZodType<TimerState> = z
+	.object({
+		itemId: z.string(),
+		startedAt: z.number().finite(),
+	})
+	.strict();
+
+const validateTimerState: StateSchemaValidator<TimerState | null> = (value) => {
+	if (value === null) {
+		return null;
+	}
+	const result = TimerStateSchema.safeParse(value);
+	return result.success ? result.data : undefined;
+};
+
+export function createTimerManager(props: {
+	workspace: StatesWorkspace<{}>;
+	name: string;
+}): TimerManager<TimerState | null> {
+	const { workspace, name } = props;
+
+	class TimerManagerImpl implements TimerManager<TimerState | null> {
+		state: Latest<TimerState | null>;
+
+		constructor(id: string, ws: StatesWorkspace<{}>) {
+			ws.add(
+				id,
+				StateFactory.latest<TimerState | null>({
+					local: null,
+					validator: validateTimerState,
+				})
+			);
+			this.state = ws.states[id];
+		}
+
+		public get attendees() {
+			return this.state.presence.attendees;
+		}
+
+		public get events(): Listenable<LatestEvents<TimerState | null>> {
+			return this.state.events;
+		}
+
+		public startTimer(itemId: string): void {
+			this.state.local = { itemId, startedAt: Date.now() };
+		}
+
+		public stopTimer(): TimerState | null {
+			const running = this.state.local;
+			this.state.local = null;
+			return running;
+		}
+	}
+
+	return new TimerManagerImpl(name, workspace);
+}
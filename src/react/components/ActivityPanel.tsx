@@ -0,0 +1,96 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import {
+	describeActivity,
+	getActivity,
+	getActivityActors,
+	getActivityItems,
+	groupActivity,
+} from "../../infra/activityLog.js";
+
+const actionClass =
+	"rounded-md px-1.5 py-0.5 text-[11px] text-slate-300 transition hover:bg-white/10 hover:text-white";
+
+const selectClass =
+	"min-w-0 flex-1 rounded-lg border border-white/15 bg-white/10 px-2 py-1.5 text-xs text-white outline-none focus:border-cyan-300 [color-scheme:dark]";
+
+/**
+ * Side panel with the document's activity log, newest first, filterable by who made the edit and
+ * which item it touched. Bursts of edits to the same value show as one row. Only the most recent
+ * edits are kept; see `activityLog.ts`.
+ */
+export function ActivityPanel(props: { onClose: () => void }) {
+	const { onClose } = props;
+	const { tree } = useFluidRuntime();
+	const [actor, setActor] = React.useState("");
+	const [itemId, setItemId] = React.useState("");
+
+	const entries = groupActivity(
+		getActivity(tree.root, {
+			actor: actor || undefined,
+			itemId: itemId || undefined,
+		})
+	);
+
+	return (
+		<aside
+			aria-label="Activity"
+			className="fixed inset-y-0 right-0 z-20 flex w-full max-w-sm flex-col gap-4 border-l border-white/10 bg-slate-900/95 p-5 text-slate-50 shadow-2xl shadow-black/50 backdrop-blur"
+		>
+			<div className="flex items-start justify-between gap-3">
+				<p className="text-xs uppercase tracking-wide text-slate-300">Activity</p>
+				<button aria-label="Close activity" className={actionClass} onClick={onClose}>
+					✕
+				</button>
+			</div>
+			<div className="flex gap-2">
+				<select
+					aria-label="Filter by person"
+					className={selectClass}
+					value={actor}
+					onChange={(e) => setActor(e.target.value)}
+				>
+					<option value="">Everyone</option>
+					{getActivityActors(tree.root).map((name) => (
+						<option key={name} value={name}>
+							{name}
+						</option>
+					))}
+				</select>
+				<select
+					aria-label="Filter by item"
+					className={selectClass}
+					value={itemId}
+					onChange={(e) => setItemId(e.target.value)}
+				>
+					<option value="">All items</option>
+					{getActivityItems(tree.root).map((item) => (
+						<option key={item.id} value={item.id}>
+							{item.subject || "Untitled item"}
+						</option>
+					))}
+				</select>
+			</div>
+			<ol className="flex min-h-0 flex-1 flex-col gap-2 overflow-y-auto">
+				{entries.map((entry) => (
+					<li
+						key={entry.id}
+						data-activity-id={entry.id}
+						className="rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm"
+					>
+						<span className="font-semibold text-white">{entry.actor ?? "Someone"}</span>{" "}
+						<span className="break-words text-slate-200">
+							{describeActivity(entry)}
+						</span>
+						<span className="block text-[11px] text-slate-400">
+							{new Date(entry.at).toLocaleString()}
+						</span>
+					</li>
+				))}
+				{entries.length === 0 && (
+					<li className="text-sm text-slate-400">No matching activity.</li>
+				)}
+			</ol>
+		</aside>
+	);
+}
@@ -0,0 +1,186 @@
+import React from "react";
+import { Tree } from "fluid-framework";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { usePresenceUsers, useRemoteDrags } from "../../infra/presenceClient.js";
+import {
+	flattenItems,
+	getBlockedItemIds,
+	getItemPriority,
+	getItemStatus,
+	isOverdue,
+	setItemStatus,
+} from "../../infra/sharedTreeClient.js";
+import { Checklist, Item, WorkflowStatus } from "../../schema/starterSchema.js";
+
+/**
+ * Board of the list's items (subtasks included), one column per workflow status. Cards are moved
+ * between columns by drag and drop; while a card is in flight its position is shared through the
+ * drag presence manager so collaborators see it before the status change lands.
+ *
+ * Drag positions are relative to the board: `x` as a fraction of its width, so columns line up
+ * across screen sizes, and `y` in pixels from its top.
+ */
+export function BoardView(props: {
+	list: Checklist;
+	workflow: readonly WorkflowStatus[];
+	filter?: (item: Item) => boolean;
+}) {
+	const { list, workflow, filter } = props;
+	const { tree, presence, me } = useFluidRuntime();
+	const boardRef = React.useRef<HTMLDivElement>(null);
+	const [dragging, setDragging] = React.useState<string | null>(null);
+	const [hoverStatus, setHoverStatus] = React.useState<string | null>(null);
+	const remoteDrags = useRemoteDrags(presence.drag);
+	const users = usePresenceUsers(presence.users, "all");
+
+	const items = flattenItems(list.items).filter((item) => !filter || filter(item));
+	const itemsById = new Map(items.map((item) => [item.id, item]));
+	const blockedIds = getBlockedItemIds(tree.root);
+	const names = new Map(users.map((user) => [user.client.attendeeId, user.value.name]));
+	const columns = workflow.map((status) => ({
+		status,
+		items: items.filter((item) => getItemStatus(workflow, item) === status),
+	}));
+
+	const shareDragPosition = (id: string, clientX: number, clientY: number) => {
+		const board = boardRef.current?.getBoundingClientRect();
+		if (!board || board.width === 0) return;
+		presence.drag.setDragging({
+			id,
+			x: (clientX - board.left) / board.width,
+			y: clientY - board.top,
+			rotation: 0,
+			branch: false,
+		});
+	};
+
+	const endDrag = () => {
+		setDragging(null);
+		setHoverStatus(null);
+		presence.drag.clearDragging();
+	};
+
+	const handleDrop = (e: React.DragEvent, status: WorkflowStatus) => {
+		e.preventDefault();
+		const id = e.dataTransfer.getData("text/plain") || dragging;
+		if (id) {
+			setItemStatus(tree, id, status.id, me.name);
+		}
+		endDrag();
+	};
+
+	return (
+		<div
+			ref={boardRef}
+			className="relative flex gap-3 overflow-x-auto pb-2"
+			onDragOver={(e) => dragging && shareDragPosition(dragging, e.clientX, e.clientY)}
+		>
+			{columns.map(({ status, items: columnItems }) => (
+				<div
+					key={status.id}
+					data-status-id={status.id}
+					className={`flex w-56 shrink-0 flex-col gap-2 rounded-xl border p-3 transition ${
+						hoverStatus === status.id
+							? "border-cyan-300/50 bg-cyan-400/10"
+							: "border-white/10 bg-white/5"
+					}`}
+					onDragOver={(e) => {
+						e.preventDefault();
+						setHoverStatus(status.id);
+					}}
+					onDragLeave={() => setHoverStatus(null)}
+					onDrop={(e) => handleDrop(e, status)}
+				>
+					<p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-200">
+						<span
+							className="h-2 w-2 rounded-full"
+							style={{ backgroundColor: status.color }}
+						/>
+						{status.name}
+						<span className="ml-auto text-slate-400">{columnItems.length}</span>
+					</p>
+					{columnItems.map((item) => {
+						const mover = remoteDrags.find((drag) => drag.id === item.id);
+						return (
+							<BoardCard
+								key={item.id}
+								item={item}
+								blocked={blockedIds.has(item.id)}
+								movedBy={mover && (names.get(mover.attendeeId) ?? "Someone")}
+								onDragStart={(e) => {
+									e.dataTransfer.setData("text/plain", item.id);
+									e.dataTransfer.effectAllowed = "move";
+									setDragging(item.id);
+									shareDragPosition(item.id, e.clientX, e.clientY);
+								}}
+								onDragEnd={endDrag}
+							/>
+						);
+					})}
+					{columnItems.length === 0 && (
+						<p className="rounded-lg border border-dashed border-white/15 px-2 py-4 text-center text-xs text-slate-400">
+							Drop items here
+						</p>
+					)}
+				</div>
+			))}
+			{remoteDrags.map((drag) => {
+				const item = itemsById.get(drag.id);
+				const width = boardRef.current?.clientWidth ?? 0;
+				if (!item) return null;
+				return (
+					<div
+						key={drag.attendeeId}
+						className="pointer-events-none absolute z-10 w-52 -translate-x-1/2 -translate-y-1/2 rounded-lg border border-cyan-300/60 bg-slate-800/90 px-3 py-2 text-sm text-white shadow-xl shadow-black/40"
+						style={{ left: drag.x * width, top: drag.y }}
+					>
+						{item.text}
+						<span className="mt-1 block text-[11px] text-cyan-200">
+							{names.get(drag.attendeeId) ?? "Someone"} is moving this
+						</span>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
+
+function BoardCard(props: {
+	item: Item;
+	blocked: boolean;
+	movedBy: string | undefined;
+	onDragStart: (e: React.DragEvent) => void;
+	onDragEnd: () => void;
+}) {
+	const { item, blocked, movedBy, onDragStart, onDragEnd } = props;
+	const siblings = Tree.parent(item);
+	const parent = siblings && Tree.parent(siblings);
+	const priority = getItemPriority(item);
+
+	return (
+		<div
+			draggable
+			data-item-id={item.id}
+			onDragStart={onDragStart}
+			onDragEnd={onDragEnd}
+			className={`cursor-grab rounded-lg border px-3 py-2 text-sm shadow-sm shadow-black/10 active:cursor-grabbing ${
+				isOverdue(item)
+					? "border-rose-400/40 bg-rose-500/10"
+					: "border-white/10 bg-white/10"
+			} ${movedBy ? "opacity-40" : blocked ? "opacity-60" : ""}`}
+		>
+			{Tree.is(parent, Item) && (
+				<span className="block truncate text-[11px] text-slate-400">↳ {parent.text}</span>
+			)}
+			<span className={item.done ? "text-slate-400 line-through" : "text-white"}>
+				{item.text}
+			</span>
+			<span className="mt-1 flex flex-wrap gap-2 text-[11px] text-slate-400">
+				{priority && <span className="capitalize">{priority}</span>}
+				{item.dueDate && <span>Due {item.dueDate}</span>}
+				{blocked && <span className="text-amber-200">Waiting</span>}
+				{movedBy && <span className="text-cyan-200">{movedBy} is moving this</span>}
+			</span>
+		</div>
+	);
+}
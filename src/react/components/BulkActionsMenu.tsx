@@ -0,0 +1,123 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import {
+	clearCompleted,
+	findDuplicates,
+	flattenItems,
+	ItemSortKey,
+	removeDuplicates,
+	setAllDone,
+	sortItems,
+} from "../../infra/sharedTreeClient.js";
+import type { Checklist } from "../../schema/starterSchema.js";
+
+const itemClass =
+	"block w-full rounded-md px-3 py-1.5 text-left text-xs text-slate-200 transition hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500 disabled:hover:bg-transparent";
+
+const sortLabels: Record<ItemSortKey, string> = {
+	text: "Sort by text",
+	author: "Sort by author",
+	updatedAt: "Sort by last updated",
+	dueDate: "Sort by due date",
+};
+
+/**
+ * Toolbar menu of whole-list edits: clearing completed items, checking or unchecking everything,
+ * sorting and removing duplicates. Each action is one transaction, so one undo reverts it.
+ */
+export function BulkActionsMenu(props: { list: Checklist }) {
+	const { list } = props;
+	const { tree, me } = useFluidRuntime();
+	const [open, setOpen] = React.useState(false);
+
+	const items = flattenItems(list.items);
+	const completed = items.filter((item) => item.done).length;
+	const duplicates = (mode: "exact" | "near") =>
+		findDuplicates(list, mode).reduce((count, group) => count + group.length - 1, 0);
+	const exact = open ? duplicates("exact") : 0;
+	const near = open ? duplicates("near") : 0;
+
+	const run = (action: () => void) => {
+		action();
+		setOpen(false);
+	};
+
+	return (
+		<div
+			className="relative ml-3 inline-block"
+			onBlur={(e) => {
+				if (!e.currentTarget.contains(e.relatedTarget)) setOpen(false);
+			}}
+		>
+			<button
+				aria-haspopup="menu"
+				aria-expanded={open}
+				className="rounded-lg border border-white/10 bg-white/5 px-3 py-1.5 text-xs font-medium text-slate-300 transition hover:text-white"
+				onClick={() => setOpen(!open)}
+			>
+				Bulk actions ▾
+			</button>
+			{open && (
+				<div
+					role="menu"
+					aria-label="Bulk actions"
+					className="absolute left-0 z-10 mt-1 w-56 rounded-xl border border-white/10 bg-slate-900/95 p-1 shadow-2xl shadow-black/50 backdrop-blur"
+				>
+					<button
+						role="menuitem"
+						className={itemClass}
+						disabled={completed === 0}
+						onClick={() => run(() => clearCompleted(tree, list.id, me.name))}
+					>
+						Clear completed ({completed})
+					</button>
+					<button
+						role="menuitem"
+						className={itemClass}
+						disabled={items.every((item) => item.done)}
+						onClick={() => run(() => setAllDone(tree, list.id, true, me.name))}
+					>
+						Mark all done
+					</button>
+					<button
+						role="menuitem"
+						className={itemClass}
+						disabled={completed === 0}
+						onClick={() => run(() => setAllDone(tree, list.id, false, me.name))}
+					>
+						Mark all not done
+					</button>
+					<hr className="my-1 border-white/10" />
+					{(Object.keys(sortLabels) as ItemSortKey[]).map((key) => (
+						<button
+							key={key}
+							role="menuitem"
+							className={itemClass}
+							onClick={() => run(() => sortItems(tree, list.id, key, me.name))}
+						>
+							{sortLabels[key]}
+						</button>
+					))}
+					<hr className="my-1 border-white/10" />
+					<button
+						role="menuitem"
+						className={itemClass}
+						disabled={exact === 0}
+						onClick={() => run(() => removeDuplicates(tree, list.id, "exact", me.name))}
+					>
+						Remove duplicates ({exact})
+					</button>
+					<button
+						role="menuitem"
+						className={itemClass}
+						disabled={near === 0}
+						title="Also matches items that differ in punctuation or by a small typo"
+						onClick={() => run(() => removeDuplicates(tree, list.id, "near", me.name))}
+					>
+						Remove near-duplicates ({near})
+					</button>
+				</div>
+			)}
+		</div>
+	);
+}
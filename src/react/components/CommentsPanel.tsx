@@ -0,0 +1,206 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import {
+	addComment,
+	editComment,
+	flattenComments,
+	resolveThread,
+} from "../../infra/sharedTreeClient.js";
+import type { Comment, Item } from "../../schema/starterSchema.js";
+
+const actionClass =
+	"rounded-md px-1.5 py-0.5 text-[11px] text-slate-300 transition hover:bg-white/10 hover:text-white";
+
+const inputClass =
+	"w-full rounded-lg border border-white/15 bg-white/10 px-3 py-2 text-sm text-white outline-none focus:border-cyan-300";
+
+/**
+ * Side panel with an item's comment threads: start a thread, reply, edit your own comments and
+ * resolve or reopen threads. Everything on the item counts as read while the panel is open.
+ */
+export function CommentsPanel(props: { item: Item; onClose: () => void }) {
+	const { item, onClose } = props;
+	const { tree, me, commentReads } = useFluidRuntime();
+	const [draft, setDraft] = React.useState("");
+	const [showResolved, setShowResolved] = React.useState(false);
+
+	const threads = [...(item.comments ?? [])];
+	const open = threads.filter((thread) => !thread.resolved);
+	const resolved = threads.filter((thread) => thread.resolved);
+	const latest = Math.max(0, ...flattenComments(threads).map((comment) => comment.createdAt));
+
+	React.useEffect(() => {
+		// Another client's clock may run ahead of ours; never mark read before its comments.
+		commentReads.markRead(item.id, Math.max(Date.now(), latest));
+	}, [commentReads, item.id, latest]);
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!draft.trim()) return;
+		addComment(tree, item.id, me, draft);
+		setDraft("");
+	};
+
+	return (
+		<aside
+			aria-label="Comments"
+			className="fixed inset-y-0 right-0 z-20 flex w-full max-w-sm flex-col gap-4 border-l border-white/10 bg-slate-900/95 p-5 text-slate-50 shadow-2xl shadow-black/50 backdrop-blur"
+		>
+			<div className="flex items-start justify-between gap-3">
+				<div className="min-w-0">
+					<p className="text-xs uppercase tracking-wide text-slate-300">Comments</p>
+					<p className="truncate font-semibold text-white">{item.text}</p>
+				</div>
+				<button aria-label="Close comments" className={actionClass} onClick={onClose}>
+					✕
+				</button>
+			</div>
+			<div className="flex min-h-0 flex-1 flex-col gap-3 overflow-y-auto">
+				{open.map((thread) => (
+					<Thread key={thread.id} item={item} thread={thread} />
+				))}
+				{open.length === 0 && (
+					<p className="text-sm text-slate-400">No open threads on this item.</p>
+				)}
+				{resolved.length > 0 && (
+					<button
+						className="self-start text-xs text-slate-300 hover:text-white"
+						onClick={() => setShowResolved(!showResolved)}
+					>
+						{showResolved ? "Hide" : "Show"} {resolved.length} resolved
+					</button>
+				)}
+				{showResolved &&
+					resolved.map((thread) => (
+						<Thread key={thread.id} item={item} thread={thread} />
+					))}
+			</div>
+			<form onSubmit={handleSubmit} className="flex flex-col gap-2">
+				<textarea
+					aria-label="New comment"
+					className={`${inputClass} min-h-20`}
+					value={draft}
+					onChange={(e) => setDraft(e.target.value)}
+					placeholder="Start a thread"
+				/>
+				<button
+					type="submit"
+					disabled={!draft.trim()}
+					className="self-end rounded-lg bg-cyan-500 px-3 py-2 text-xs font-semibold text-slate-900 transition hover:bg-cyan-400 disabled:cursor-not-allowed disabled:opacity-40"
+				>
+					Comment
+				</button>
+			</form>
+		</aside>
+	);
+}
+
+function Thread(props: { item: Item; thread: Comment }) {
+	const { item, thread } = props;
+	const { tree, me } = useFluidRuntime();
+	const [reply, setReply] = React.useState<string | null>(null);
+
+	const submitReply = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (reply?.trim()) {
+			addComment(tree, item.id, me, reply, thread.id);
+		}
+		setReply(null);
+	};
+
+	return (
+		<div
+			data-comment-id={thread.id}
+			className={`flex flex-col gap-2 rounded-xl border border-white/10 p-3 ${
+				thread.resolved ? "bg-white/[0.02] opacity-70" : "bg-white/5"
+			}`}
+		>
+			<CommentBody item={item} comment={thread} />
+			{thread.replies.length > 0 && (
+				<div className="ml-3 flex flex-col gap-2 border-l border-white/10 pl-3">
+					{flattenComments(thread.replies).map((comment) => (
+						<CommentBody key={comment.id} item={item} comment={comment} />
+					))}
+				</div>
+			)}
+			{reply !== null ? (
+				<form onSubmit={submitReply}>
+					<input
+						autoFocus
+						aria-label="Reply"
+						className={inputClass}
+						value={reply}
+						onChange={(e) => setReply(e.target.value)}
+						onKeyDown={(e) => e.key === "Escape" && setReply(null)}
+						placeholder="Reply"
+					/>
+				</form>
+			) : (
+				<div className="flex gap-1">
+					{!thread.resolved && (
+						<button className={actionClass} onClick={() => setReply("")}>
+							Reply
+						</button>
+					)}
+					<button
+						className={actionClass}
+						onClick={() =>
+							resolveThread(tree, item.id, thread.id, !thread.resolved, me.name)
+						}
+					>
+						{thread.resolved ? "Reopen" : "Resolve"}
+					</button>
+				</div>
+			)}
+		</div>
+	);
+}
+
+function CommentBody(props: { item: Item; comment: Comment }) {
+	const { item, comment } = props;
+	const { tree, me } = useFluidRuntime();
+	const [draft, setDraft] = React.useState<string | null>(null);
+
+	const commit = () => {
+		if (draft?.trim()) {
+			editComment(tree, item.id, comment.id, me.id, draft, me.name);
+		}
+		setDraft(null);
+	};
+
+	return (
+		<div className="flex flex-col gap-1 text-sm">
+			<p className="flex items-center gap-2 text-xs text-slate-400">
+				<span className="font-medium text-slate-200">
+					{comment.authorId === me.id ? "You" : (comment.authorName ?? "Someone")}
+				</span>
+				{new Date(comment.createdAt).toLocaleString()}
+				{comment.editedAt !== undefined && <span>(edited)</span>}
+				{comment.authorId === me.id && draft === null && (
+					<button
+						className={`${actionClass} ml-auto`}
+						onClick={() => setDraft(comment.body)}
+					>
+						Edit
+					</button>
+				)}
+			</p>
+			{draft === null ? (
+				<p className="whitespace-pre-wrap text-slate-100">{comment.body}</p>
+			) : (
+				<input
+					autoFocus
+					aria-label="Edit comment"
+					className={inputClass}
+					value={draft}
+					onChange={(e) => setDraft(e.target.value)}
+					onBlur={commit}
+					onKeyDown={(e) => {
+						if (e.key === "Enter") commit();
+						if (e.key === "Escape") setDraft(null);
+					}}
+				/>
+			)}
+		</div>
+	);
+}
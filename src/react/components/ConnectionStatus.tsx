@@ -0,0 +1,42 @@
+import React from "react";
+import { useOfflineStatus } from "../hooks/useOfflineStatus.js";
+
+function changes(count: number): string {
+	return `${count} ${count === 1 ? "change" : "changes"}`;
+}
+
+/**
+ * Header pill showing whether edits are reaching the service: offline with the number of edits
+ * waiting to be sent, syncing while the service has not acknowledged them all, or saved. Edits
+ * the offline copy cannot keep are called out, since closing the page would lose them.
+ */
+export function ConnectionStatus() {
+	const { connected, pending, unqueued } = useOfflineStatus();
+	const offlineLabel = [
+		"Offline",
+		...(pending > 0 ? [`${changes(pending)} pending`] : []),
+		...(unqueued > 0 ? [`${unqueued} not saved offline`] : []),
+	].join(" · ");
+	const [dot, label] = !connected
+		? ["bg-amber-400", offlineLabel]
+		: pending + unqueued > 0
+			? ["bg-cyan-300 animate-pulse", `Syncing ${changes(pending + unqueued)}…`]
+			: ["bg-emerald-400", "Saved"];
+	return (
+		<div
+			role="status"
+			data-testid="connection-status"
+			title={
+				connected
+					? undefined
+					: unqueued > 0
+						? "Some edits (due dates, tags, moves…) cannot be kept in this browser: keep this page open until the connection returns"
+						: "Edits are kept in this browser and sent when the connection returns"
+			}
+			className="flex items-center gap-2 rounded-full border border-white/10 bg-white/10 px-3 py-2 text-xs text-slate-200"
+		>
+			<span className={`h-2 w-2 rounded-full ${dot}`} />
+			{label}
+		</div>
+	);
+}
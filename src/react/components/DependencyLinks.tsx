@@ -0,0 +1,62 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { useConnectionDrags, usePresenceUsers } from "../../infra/presenceClient.js";
+
+/**
+ * Overlay for the dependency links being drawn, locally and by collaborators: a dashed line from
+ * the item's link side to the shared cursor position. Render it inside the `[data-link-surface]`
+ * element the positions are relative to (see `useDependencyLink`).
+ */
+export function DependencyLinks() {
+	const { presence } = useFluidRuntime();
+	const svgRef = React.useRef<SVGSVGElement>(null);
+	const drags = useConnectionDrags(presence.connectionDrag);
+	const users = usePresenceUsers(presence.users, "all");
+	const names = new Map(users.map((user) => [user.client.attendeeId, user.value.name]));
+
+	const surface = svgRef.current?.parentElement;
+	const bounds = surface?.getBoundingClientRect();
+	const lines = drags.flatMap((drag) => {
+		const from = surface?.querySelector(`[data-item-id="${CSS.escape(drag.fromItemId)}"]`);
+		if (!bounds || !from) return [];
+		const row = from.getBoundingClientRect();
+		const x = drag.fromSide === "left" ? row.left : row.right;
+		return [
+			{
+				key: drag.attendeeId,
+				x1: x - bounds.left,
+				y1: row.top + row.height / 2 - bounds.top,
+				x2: drag.cursorX * bounds.width,
+				y2: drag.cursorY,
+				label: drag.local ? undefined : (names.get(drag.attendeeId) ?? "Someone"),
+			},
+		];
+	});
+
+	return (
+		<svg
+			ref={svgRef}
+			className="pointer-events-none absolute inset-0 z-10 h-full w-full overflow-visible"
+		>
+			{lines.map((line) => (
+				<g key={line.key}>
+					<line
+						x1={line.x1}
+						y1={line.y1}
+						x2={line.x2}
+						y2={line.y2}
+						stroke="#fcd34d"
+						strokeWidth={2}
+						strokeDasharray="6 4"
+					/>
+					<circle cx={line.x2} cy={line.y2} r={4} fill="#fcd34d" />
+					{line.label && (
+						<text x={line.x2 + 8} y={line.y2 - 8} fill="#fde68a" fontSize={11}>
+							{line.label} is linking
+						</text>
+					)}
+				</g>
+			))}
+		</svg>
+	);
+}
@@ -0,0 +1,23 @@
+import React from "react";
+import type { TextRange } from "../../infra/itemQuery.js";
+
+/** Renders `text` with the given ranges marked, e.g. the matches of a search. */
+export function HighlightedText(props: { text: string; ranges?: readonly TextRange[] }) {
+	const { text, ranges = [] } = props;
+	if (ranges.length === 0) {
+		return <>{text}</>;
+	}
+	const parts: React.ReactNode[] = [];
+	let cursor = 0;
+	for (const { start, end } of ranges) {
+		parts.push(text.slice(cursor, start));
+		parts.push(
+			<mark key={start} className="rounded-sm bg-amber-300/30 text-inherit">
+				{text.slice(start, end)}
+			</mark>
+		);
+		cursor = end;
+	}
+	parts.push(text.slice(cursor));
+	return <>{parts}</>;
+}
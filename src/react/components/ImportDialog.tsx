@@ -0,0 +1,134 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import {
+	countImportedItems,
+	ImportedItem,
+	ImportedList,
+	ImportFormat,
+	importFormats,
+	importItems,
+	parseImport,
+} from "../../infra/importExport.js";
+import type { Checklist } from "../../schema/starterSchema.js";
+
+const formatLabels: Record<ImportFormat, string> = {
+	json: "JSON",
+	markdown: "Markdown",
+	csv: "CSV",
+};
+
+/**
+ * Previews a checklist file (or pasted text) before adding its items to the list. Nothing is
+ * written until the import is confirmed, and then everything is added in one transaction.
+ */
+export function ImportDialog(props: {
+	list: Checklist;
+	initialText: string;
+	initialFormat: ImportFormat;
+	onClose: () => void;
+}) {
+	const { list, initialText, initialFormat, onClose } = props;
+	const { tree, me } = useFluidRuntime();
+	const [text, setText] = React.useState(initialText);
+	const [format, setFormat] = React.useState(initialFormat);
+
+	let preview: ImportedList | undefined;
+	let error: string | undefined;
+	try {
+		preview = parseImport(text, format);
+	} catch (caught) {
+		error = caught instanceof Error ? caught.message : String(caught);
+	}
+	const count = preview ? countImportedItems(preview.items) : 0;
+
+	const handleImport = () => {
+		if (!preview) return;
+		importItems(tree, list.id, preview.items, me.name);
+		onClose();
+	};
+
+	return (
+		<div
+			className="fixed inset-0 z-30 flex items-center justify-center bg-slate-950/70 p-6"
+			onKeyDown={(e) => e.key === "Escape" && onClose()}
+		>
+			<div
+				role="dialog"
+				aria-modal="true"
+				aria-label="Import items"
+				className="flex max-h-full w-full max-w-2xl flex-col gap-4 rounded-2xl border border-white/10 bg-slate-900 p-6 text-slate-50 shadow-2xl shadow-black/50"
+			>
+				<div className="flex items-center justify-between gap-3">
+					<p className="text-xs uppercase tracking-wide text-slate-300">
+						Import into {list.title}
+					</p>
+					<select
+						aria-label="Import format"
+						className="rounded-lg border border-white/15 bg-white/10 px-2 py-1 text-xs text-white outline-none [color-scheme:dark]"
+						value={format}
+						onChange={(e) => setFormat(e.target.value as ImportFormat)}
+					>
+						{importFormats.map((option) => (
+							<option key={option} value={option}>
+								{formatLabels[option]}
+							</option>
+						))}
+					</select>
+				</div>
+				<textarea
+					aria-label="Import text"
+					className="h-32 shrink-0 rounded-lg border border-white/15 bg-white/5 p-3 font-mono text-xs text-slate-200 outline-none focus:border-cyan-300"
+					value={text}
+					onChange={(e) => setText(e.target.value)}
+					placeholder="- [ ] Paste a task list, CSV or JSON export"
+				/>
+				<div className="min-h-0 flex-1 overflow-y-auto rounded-lg border border-white/10 bg-white/5 p-3">
+					{preview ? (
+						<PreviewItems items={preview.items} />
+					) : (
+						<p role="alert" className="text-sm text-rose-300">
+							{error}
+						</p>
+					)}
+				</div>
+				<div className="flex justify-end gap-2">
+					<button
+						className="rounded-lg px-3 py-2 text-sm text-slate-300 hover:bg-white/10 hover:text-white"
+						onClick={onClose}
+					>
+						Cancel
+					</button>
+					<button
+						disabled={!preview}
+						className="rounded-lg bg-cyan-500 px-3 py-2 text-sm font-semibold text-slate-900 transition hover:bg-cyan-400 disabled:opacity-40"
+						onClick={handleImport}
+					>
+						Add {count} {count === 1 ? "item" : "items"}
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+function PreviewItems(props: { items: readonly ImportedItem[] }) {
+	return (
+		<ul className="flex flex-col gap-1 text-sm">
+			{props.items.map((item, index) => (
+				<li key={index}>
+					<span className={item.done ? "text-slate-400 line-through" : "text-white"}>
+						{item.done ? "☑" : "☐"} {item.text}
+					</span>
+					{item.status && (
+						<span className="ml-2 text-xs text-slate-400">{item.status}</span>
+					)}
+					{item.children.length > 0 && (
+						<div className="ml-5 mt-1">
+							<PreviewItems items={item.children} />
+						</div>
+					)}
+				</li>
+			))}
+		</ul>
+	);
+}
@@ -0,0 +1,104 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import {
+	detectFormat,
+	exportCsv,
+	exportFileName,
+	exportJson,
+	exportMarkdown,
+	exportMimeType,
+	ImportFormat,
+} from "../../infra/importExport.js";
+import { getSnapshot } from "../../infra/sharedTreeClient.js";
+import type { Checklist } from "../../schema/starterSchema.js";
+import { ImportDialog } from "./ImportDialog.js";
+
+const actionClass =
+	"rounded-md px-2 py-1 text-xs text-slate-300 transition hover:bg-white/10 hover:text-white";
+
+/**
+ * Downloads the active list as JSON, a Markdown task list or CSV, and imports any of those into
+ * it through a preview dialog.
+ */
+export function ImportExportPanel(props: { list: Checklist }) {
+	const { list } = props;
+	const { tree } = useFluidRuntime();
+	const fileInputRef = React.useRef<HTMLInputElement>(null);
+	const [importing, setImporting] = React.useState<{
+		text: string;
+		format: ImportFormat;
+	} | null>(null);
+
+	const download = (format: ImportFormat) => {
+		const snapshot = getSnapshot(tree, list.id);
+		const workflow = tree.root.workflow ?? [];
+		const text =
+			format === "json"
+				? exportJson(snapshot, workflow)
+				: format === "csv"
+					? exportCsv(snapshot, workflow)
+					: exportMarkdown(snapshot);
+		const link = document.createElement("a");
+		link.href = URL.createObjectURL(new Blob([text], { type: exportMimeType(format) }));
+		link.download = exportFileName(list.title, format);
+		link.click();
+		URL.revokeObjectURL(link.href);
+	};
+
+	const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (file) {
+			setImporting({ text: await file.text(), format: detectFormat(file.name) });
+		}
+	};
+
+	return (
+		<aside className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 shadow-xl shadow-black/20 backdrop-blur">
+			<p className="text-xs uppercase tracking-wide text-slate-300">Import & export</p>
+			<div className="flex flex-wrap items-center gap-1">
+				<span className="mr-1 text-xs text-slate-400">Export</span>
+				<button className={actionClass} onClick={() => download("json")}>
+					JSON
+				</button>
+				<button className={actionClass} onClick={() => download("markdown")}>
+					Markdown
+				</button>
+				<button className={actionClass} onClick={() => download("csv")}>
+					CSV
+				</button>
+			</div>
+			<div className="flex gap-1">
+				<button
+					className={actionClass}
+					onClick={() => fileInputRef.current?.click()}
+					title="Import a JSON, Markdown or CSV file"
+				>
+					Import file…
+				</button>
+				<button
+					className={actionClass}
+					onClick={() => setImporting({ text: "", format: "markdown" })}
+				>
+					Paste…
+				</button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept=".json,.md,.markdown,.txt,.csv"
+					className="hidden"
+					aria-label="Import file"
+					onChange={(e) => void handleFile(e)}
+				/>
+			</div>
+			{importing && (
+				<ImportDialog
+					list={list}
+					initialText={importing.text}
+					initialFormat={importing.format}
+					onClose={() => setImporting(null)}
+				/>
+			)}
+		</aside>
+	);
+}
@@ -0,0 +1,96 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { formatBytes, isImageAttachment, readAttachment } from "../../infra/attachments.js";
+import { removeAttachment } from "../../infra/sharedTreeClient.js";
+import type { Attachment, Item } from "../../schema/starterSchema.js";
+
+/**
+ * An item's attached files: thumbnails for images, download chips for everything else.
+ */
+export function ItemAttachments(props: { item: Item }) {
+	const { item } = props;
+	const attachments = [...(item.attachments ?? [])];
+	if (attachments.length === 0) {
+		return null;
+	}
+	return (
+		<div className="mt-2 flex flex-wrap gap-2">
+			{attachments.map((attachment) => (
+				<AttachmentChip key={attachment.id} item={item} attachment={attachment} />
+			))}
+		</div>
+	);
+}
+
+function AttachmentChip(props: { item: Item; attachment: Attachment }) {
+	const { item, attachment } = props;
+	const { tree, me } = useFluidRuntime();
+	const image = isImageAttachment(attachment);
+	const url = useAttachmentUrl(attachment, image);
+
+	const download = async () => {
+		const blob = await readAttachment(attachment);
+		const link = document.createElement("a");
+		link.href = URL.createObjectURL(blob);
+		link.download = attachment.name;
+		link.click();
+		URL.revokeObjectURL(link.href);
+	};
+
+	return (
+		<div
+			data-attachment-id={attachment.id}
+			className="group relative flex items-center gap-2 rounded-lg border border-white/10 bg-white/5 p-1 pr-2 text-xs text-slate-200"
+		>
+			{image && url ? (
+				<img src={url} alt={attachment.name} className="h-12 w-12 rounded object-cover" />
+			) : (
+				<span className="flex h-8 w-8 items-center justify-center rounded bg-white/10">
+					📄
+				</span>
+			)}
+			<button
+				className="flex max-w-40 flex-col text-left hover:text-white"
+				title={`Download ${attachment.name}`}
+				onClick={() => {
+					download().catch((error) => console.error("Download failed", error));
+				}}
+			>
+				<span className="truncate">{attachment.name}</span>
+				<span className="text-[11px] text-slate-400">{formatBytes(attachment.size)}</span>
+			</button>
+			<button
+				aria-label={`Remove ${attachment.name}`}
+				className="rounded px-1 text-slate-400 opacity-0 transition hover:text-rose-200 group-hover:opacity-100"
+				onClick={() => removeAttachment(tree, item.id, attachment.id, me.name)}
+			>
+				✕
+			</button>
+		</div>
+	);
+}
+
+/** Object URL for an attachment's contents while the component is mounted. */
+function useAttachmentUrl(attachment: Attachment, enabled: boolean): string | undefined {
+	const [url, setUrl] = React.useState<string | undefined>(undefined);
+
+	React.useEffect(() => {
+		if (!enabled) return;
+		let objectUrl: string | undefined;
+		let cancelled = false;
+		readAttachment(attachment)
+			.then((blob) => {
+				if (!cancelled) {
+					objectUrl = URL.createObjectURL(blob);
+					setUrl(objectUrl);
+				}
+			})
+			.catch((error) => console.error("Could not load attachment", error));
+		return () => {
+			cancelled = true;
+			if (objectUrl) URL.revokeObjectURL(objectUrl);
+		};
+	}, [attachment, enabled]);
+
+	return url;
+}
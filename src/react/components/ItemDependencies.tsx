@@ -0,0 +1,43 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { getDependencies, removeDependency } from "../../infra/sharedTreeClient.js";
+import type { Item } from "../../schema/starterSchema.js";
+
+/** What the item waits on: open dependencies first, completed ones struck through. */
+export function ItemDependencies(props: { item: Item }) {
+	const { item } = props;
+	const { tree, me } = useFluidRuntime();
+	const dependencies = getDependencies(tree.root, item).sort(
+		(a, b) => Number(a.done) - Number(b.done)
+	);
+	if (dependencies.length === 0) {
+		return null;
+	}
+	const open = dependencies.filter((dependency) => !dependency.done).length;
+
+	return (
+		<div className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+			<span className={open > 0 ? "text-amber-200" : "text-slate-400"}>
+				{open > 0 ? "Waiting on" : "Was waiting on"}
+			</span>
+			{dependencies.map((dependency) => (
+				<span
+					key={dependency.id}
+					data-dependency-id={dependency.id}
+					className="inline-flex items-center gap-1 rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-slate-200"
+				>
+					<span className={dependency.done ? "text-slate-400 line-through" : ""}>
+						{dependency.text}
+					</span>
+					<button
+						aria-label={`Stop waiting on ${dependency.text}`}
+						className="text-slate-400 hover:text-rose-200"
+						onClick={() => removeDependency(tree, item.id, dependency.id, me.name)}
+					>
+						✕
+					</button>
+				</span>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,116 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { usePresenceUsers } from "../../infra/presenceClient.js";
+import {
+	getItemPriority,
+	getItemStatus,
+	isOverdue,
+	setItemAssignee,
+	setItemDueDate,
+	setItemPriority,
+	setItemStatus,
+} from "../../infra/sharedTreeClient.js";
+import { AppModel, Item, Priority, priorities } from "../../schema/starterSchema.js";
+import { RecurrenceEditor } from "./RecurrenceEditor.js";
+
+const fieldClass =
+	"rounded-md border border-white/10 bg-white/5 px-1.5 py-0.5 text-xs text-slate-200 outline-none focus:border-cyan-300 [color-scheme:dark]";
+
+const priorityClass: Record<Priority, string> = {
+	low: "text-slate-300",
+	medium: "text-sky-300",
+	high: "text-amber-300",
+	urgent: "text-rose-300",
+};
+
+/**
+ * Inline editors for an item's status, due date, recurrence, priority and assignee.
+ */
+export function ItemDetails(props: { item: Item }) {
+	const { item } = props;
+	const { tree, presence, me } = useFluidRuntime();
+	const users = usePresenceUsers(presence.users, "all");
+	const workflow = [...((tree.root as AppModel).workflow ?? [])];
+	const status = getItemStatus(workflow, item);
+	const priority = getItemPriority(item);
+	const overdue = isOverdue(item);
+
+	// Presence only knows users seen this session; keep a stale assignee selectable by id.
+	const assignees = new Map(users.map((user) => [user.value.id, user.value.name]));
+	if (item.assigneeId !== undefined && !assignees.has(item.assigneeId)) {
+		assignees.set(item.assigneeId, "Former collaborator");
+	}
+
+	return (
+		<div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+			{workflow.length > 0 && (
+				<select
+					aria-label="Status"
+					className={fieldClass}
+					style={{ color: status?.color }}
+					value={status?.id ?? ""}
+					onChange={(e) => setItemStatus(tree, item.id, e.target.value, me.name)}
+				>
+					{workflow.map((option) => (
+						<option key={option.id} value={option.id}>
+							{option.name}
+						</option>
+					))}
+				</select>
+			)}
+			<label className="flex items-center gap-1 text-slate-400">
+				Due
+				<input
+					type="date"
+					aria-label="Due date"
+					className={`${fieldClass} ${overdue ? "border-rose-400/60 text-rose-200" : ""}`}
+					value={item.dueDate ?? ""}
+					onChange={(e) =>
+						setItemDueDate(tree, item.id, e.target.value || undefined, me.name)
+					}
+				/>
+			</label>
+			{overdue && (
+				<span className="rounded-full bg-rose-500/20 px-2 py-0.5 font-semibold text-rose-200">
+					Overdue
+				</span>
+			)}
+			<RecurrenceEditor item={item} />
+			<select
+				aria-label="Priority"
+				className={`${fieldClass} ${priority ? priorityClass[priority] : ""}`}
+				value={priority ?? ""}
+				onChange={(e) =>
+					setItemPriority(
+						tree,
+						item.id,
+						(e.target.value || undefined) as Priority | undefined,
+						me.name
+					)
+				}
+			>
+				<option value="">No priority</option>
+				{priorities.map((value) => (
+					<option key={value} value={value}>
+						{value[0].toUpperCase() + value.slice(1)}
+					</option>
+				))}
+			</select>
+			<select
+				aria-label="Assignee"
+				className={fieldClass}
+				value={item.assigneeId ?? ""}
+				onChange={(e) =>
+					setItemAssignee(tree, item.id, e.target.value || undefined, me.name)
+				}
+			>
+				<option value="">Unassigned</option>
+				{[...assignees].map(([id, name]) => (
+					<option key={id} value={id}>
+						{id === me.id ? `${name} (me)` : name}
+					</option>
+				))}
+			</select>
+		</div>
+	);
+}
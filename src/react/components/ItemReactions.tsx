@@ -0,0 +1,91 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { usePresenceUsers } from "../../infra/presenceClient.js";
+import {
+	getReactions,
+	getVoteCount,
+	hasVoted,
+	toggleReaction,
+	toggleVote,
+} from "../../infra/sharedTreeClient.js";
+import { reactionEmojis, type Item } from "../../schema/starterSchema.js";
+
+const chipClass =
+	"inline-flex items-center gap-1 rounded-full border px-2 py-0.5 transition hover:bg-white/10";
+
+/**
+ * The item's up-vote button and emoji reactions. Both are keyed by the presence user id, so each
+ * user has one vote and one of each reaction per item. Hovering a chip lists who reacted.
+ */
+export function ItemReactions(props: { item: Item }) {
+	const { item } = props;
+	const { tree, presence, me } = useFluidRuntime();
+	const [picking, setPicking] = React.useState(false);
+	const users = usePresenceUsers(presence.users, "all");
+
+	const names = new Map(users.map((user) => [user.value.id, user.value.name]));
+	const nameOf = (userId: string) =>
+		userId === me.id ? "You" : (names.get(userId) ?? "Someone who left");
+	const voted = hasVoted(item, me.id);
+	const votes = getVoteCount(item);
+
+	return (
+		<div className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+			<button
+				aria-label={voted ? "Remove vote" : "Vote"}
+				aria-pressed={voted}
+				title={[...(item.votes?.keys() ?? [])].map(nameOf).join(", ") || undefined}
+				className={`${chipClass} ${
+					voted
+						? "border-cyan-300/60 bg-cyan-400/15 text-cyan-100"
+						: "border-white/15 text-slate-300"
+				}`}
+				onClick={() => toggleVote(tree, item.id, me.id, me.name)}
+			>
+				▲ {votes}
+			</button>
+			{getReactions(item).map(({ emoji, userIds }) => {
+				const mine = userIds.includes(me.id);
+				return (
+					<button
+						key={emoji}
+						aria-label={`${emoji} ${userIds.length}`}
+						aria-pressed={mine}
+						title={userIds.map(nameOf).join(", ")}
+						className={`${chipClass} ${
+							mine ? "border-amber-300/60 bg-amber-300/15" : "border-white/15"
+						} text-slate-100`}
+						onClick={() => toggleReaction(tree, item.id, me.id, emoji, me.name)}
+					>
+						{emoji} {userIds.length}
+					</button>
+				);
+			})}
+			<button
+				aria-label="Add reaction"
+				aria-expanded={picking}
+				className="rounded-full border border-dashed border-white/20 px-2 py-0.5 text-slate-400 hover:border-white/40 hover:text-white"
+				onClick={() => setPicking(!picking)}
+			>
+				☺+
+			</button>
+			{picking && (
+				<span role="group" aria-label="Reactions" className="flex gap-0.5">
+					{reactionEmojis.map((emoji) => (
+						<button
+							key={emoji}
+							aria-label={`React ${emoji}`}
+							className="rounded-md px-1 py-0.5 hover:bg-white/10"
+							onClick={() => {
+								toggleReaction(tree, item.id, me.id, emoji, me.name);
+								setPicking(false);
+							}}
+						>
+							{emoji}
+						</button>
+					))}
+				</span>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,366 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { useDependencyLink } from "../hooks/useDependencyLink.js";
+import { useLastReadAt } from "../hooks/useLastReadAt.js";
+import { getBlobUploader, uploadAttachment } from "../../infra/attachments.js";
+import {
+	addItem,
+	duplicateItem,
+	editItemText,
+	filterItems,
+	flattenComments,
+	getBlockers,
+	getChildProgress,
+	getUnreadCommentCount,
+	indentItem,
+	isOverdue,
+	moveItem,
+	outdentItem,
+	removeItem,
+	toggleItem,
+	visibleItems,
+} from "../../infra/sharedTreeClient.js";
+import type { TextRange } from "../../infra/itemQuery.js";
+import type { Item } from "../../schema/starterSchema.js";
+import { HighlightedText } from "./HighlightedText.js";
+import { ItemAttachments } from "./ItemAttachments.js";
+import { ItemDependencies } from "./ItemDependencies.js";
+import { ItemDetails } from "./ItemDetails.js";
+import { ItemReactions } from "./ItemReactions.js";
+import { ItemTags } from "./ItemTags.js";
+import { ItemTime } from "./ItemTime.js";
+
+const actionClass =
+	"rounded-lg px-2 py-1 text-xs font-medium text-slate-300 transition hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+/**
+ * A single shared checklist row: toggle, inline text editing, reordering, nesting, duplicate
+ * and delete. Subtasks render recursively below the row and can be collapsed locally. Files
+ * dropped on the row, or picked with the attach button, are uploaded as attachments. Items with
+ * open dependencies are dimmed; dragging the link handle onto another row adds a dependency.
+ * With a `filter`, only subtasks that match it (or contain a match) are shown; `highlights`
+ * marks search matches in the text, by item id. Votes and reactions sit below the details.
+ */
+export function ItemRow(props: {
+	item: Item;
+	listId: string;
+	previousId?: string;
+	nextId?: string;
+	depth?: number;
+	filter?: (item: Item) => boolean;
+	highlights?: ReadonlyMap<string, readonly TextRange[]>;
+	onOpenComments: (itemId: string) => void;
+}) {
+	const {
+		item,
+		listId,
+		previousId,
+		nextId,
+		depth = 0,
+		filter,
+		highlights,
+		onOpenComments,
+	} = props;
+	const { container, tree, me } = useFluidRuntime();
+	const fileInputRef = React.useRef<HTMLInputElement>(null);
+	const [uploading, setUploading] = React.useState(false);
+	const [uploadError, setUploadError] = React.useState<string | null>(null);
+	const [draft, setDraft] = React.useState<string | null>(null);
+	// Set when the text edit is cancelled: unmounting the input blurs it, and that blur would
+	// still commit the old draft.
+	const draftCancelled = React.useRef(false);
+	const [subtaskDraft, setSubtaskDraft] = React.useState<string | null>(null);
+	// Set once the open subtask draft is committed or cancelled: closing the input blurs it, and
+	// that blur still sees the old draft.
+	const subtaskClosed = React.useRef(false);
+	const [collapsed, setCollapsed] = React.useState(false);
+	const lastReadAt = useLastReadAt(item.id);
+
+	const children = filter
+		? filterItems(item.children ?? [], filter)
+		: visibleItems(item.children ?? []);
+	const progress = getChildProgress(item);
+	const commentCount = flattenComments(item.comments ?? []).length;
+	const unread = getUnreadCommentCount(item, me.id, lastReadAt);
+	const blocked = getBlockers(tree.root, item).length > 0;
+	const { startLink, linkError, clearLinkError } = useDependencyLink(item.id);
+
+	const openDraft = () => {
+		draftCancelled.current = false;
+		setDraft(item.text);
+	};
+
+	const commitDraft = () => {
+		if (draft === null || draftCancelled.current) return;
+		const text = draft.trim();
+		if (text) {
+			editItemText(tree, item.id, text, me.name);
+		}
+		setDraft(null);
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === "Enter") {
+			commitDraft();
+		} else if (e.key === "Escape") {
+			draftCancelled.current = true;
+			setDraft(null);
+		}
+	};
+
+	const openSubtask = () => {
+		subtaskClosed.current = false;
+		setSubtaskDraft("");
+	};
+
+	const closeSubtask = () => {
+		subtaskClosed.current = true;
+		setSubtaskDraft(null);
+	};
+
+	const commitSubtask = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (subtaskClosed.current) return;
+		const text = subtaskDraft?.trim();
+		closeSubtask();
+		if (text) {
+			addItem(tree, listId, text, me.name, item.id);
+			setCollapsed(false);
+		}
+	};
+
+	const attachFiles = async (files: readonly File[]) => {
+		setUploadError(null);
+		setUploading(true);
+		try {
+			const uploader = getBlobUploader(container);
+			for (const file of files) {
+				await uploadAttachment(tree, uploader, item.id, file, me.name);
+			}
+		} catch (error) {
+			setUploadError(error instanceof Error ? error.message : String(error));
+		} finally {
+			setUploading(false);
+		}
+	};
+
+	const handleDrop = (e: React.DragEvent) => {
+		if (e.dataTransfer.files.length === 0) return;
+		e.preventDefault();
+		void attachFiles([...e.dataTransfer.files]);
+	};
+
+	return (
+		<div className="space-y-2">
+			<div
+				data-item-id={item.id}
+				onDragOver={(e) => e.dataTransfer.types.includes("Files") && e.preventDefault()}
+				onDrop={handleDrop}
+				data-blocked={blocked || undefined}
+				className={`flex items-center justify-between gap-3 rounded-xl border px-4 py-3 shadow-sm shadow-black/10 ${
+					isOverdue(item)
+						? "border-rose-400/40 bg-rose-500/10"
+						: "border-white/10 bg-white/5"
+				} ${blocked ? "opacity-60" : ""}`}
+			>
+				<div className="flex min-w-0 flex-1 items-center gap-3">
+					<button
+						aria-label={collapsed ? "Expand subtasks" : "Collapse subtasks"}
+						aria-expanded={!collapsed}
+						className={`w-4 text-xs text-slate-300 ${children.length === 0 ? "invisible" : ""}`}
+						onClick={() => setCollapsed(!collapsed)}
+					>
+						{collapsed ? "▸" : "▾"}
+					</button>
+					<input
+						type="checkbox"
+						checked={item.done}
+						onChange={() => toggleItem(tree, item.id, me.name)}
+						className="h-4 w-4 rounded border-white/40 bg-transparent text-emerald-400 focus:ring-emerald-300"
+					/>
+					<div className="flex min-w-0 flex-1 flex-col">
+						{draft === null ? (
+							<span
+								onDoubleClick={openDraft}
+								className={item.done ? "text-slate-400 line-through" : "text-white"}
+							>
+								<HighlightedText
+									text={item.text}
+									ranges={highlights?.get(item.id)}
+								/>
+							</span>
+						) : (
+							<input
+								autoFocus
+								aria-label="Edit item text"
+								className="rounded-lg border border-white/15 bg-white/10 px-2 py-1 text-white outline-none focus:border-emerald-300"
+								value={draft}
+								onChange={(e) => setDraft(e.target.value)}
+								onBlur={commitDraft}
+								onKeyDown={handleKeyDown}
+							/>
+						)}
+						<span className="flex gap-2 text-xs text-slate-400">
+							{progress.total > 0 && (
+								<span className="font-medium text-emerald-300">
+									{progress.done}/{progress.total} done
+								</span>
+							)}
+							{item.author && <span>by {item.author}</span>}
+						</span>
+						<ItemDetails item={item} />
+						<ItemTime item={item} />
+						<ItemTags item={item} />
+						<ItemDependencies item={item} />
+						<ItemAttachments item={item} />
+						<ItemReactions item={item} />
+						{(uploadError ?? linkError) && (
+							<span role="alert" className="mt-1 text-xs text-rose-300">
+								{uploadError ?? linkError}
+								<button
+									aria-label="Dismiss error"
+									className="ml-2 text-slate-400 hover:text-white"
+									onClick={() => {
+										setUploadError(null);
+										clearLinkError();
+									}}
+								>
+									✕
+								</button>
+							</span>
+						)}
+					</div>
+				</div>
+				<div className="flex shrink-0 items-center gap-1">
+					<button aria-label="Edit item" className={actionClass} onClick={openDraft}>
+						Edit
+					</button>
+					<button
+						aria-label="Move item up"
+						className={actionClass}
+						disabled={previousId === undefined}
+						onClick={() =>
+							previousId && moveItem(tree, item.id, { before: previousId }, me.name)
+						}
+					>
+						↑
+					</button>
+					<button
+						aria-label="Move item down"
+						className={actionClass}
+						disabled={nextId === undefined}
+						onClick={() =>
+							nextId && moveItem(tree, item.id, { after: nextId }, me.name)
+						}
+					>
+						↓
+					</button>
+					<button
+						aria-label="Outdent item"
+						className={actionClass}
+						disabled={depth === 0}
+						onClick={() => outdentItem(tree, item.id, me.name)}
+					>
+						←
+					</button>
+					<button
+						aria-label="Indent item"
+						className={actionClass}
+						disabled={previousId === undefined}
+						onClick={() => indentItem(tree, item.id, me.name)}
+					>
+						→
+					</button>
+					<button
+						aria-label={unread > 0 ? `Comments, ${unread} unread` : "Comments"}
+						className={`${actionClass} relative`}
+						onClick={() => onOpenComments(item.id)}
+					>
+						💬 {commentCount > 0 ? commentCount : ""}
+						{unread > 0 && (
+							<span className="absolute -right-0.5 -top-0.5 h-2 w-2 rounded-full bg-cyan-400" />
+						)}
+					</button>
+					<button
+						aria-label="Link dependency"
+						title="Drag onto the item this one waits on"
+						className={`${actionClass} cursor-crosshair touch-none`}
+						onPointerDown={startLink}
+					>
+						⛓
+					</button>
+					<button
+						aria-label="Attach file"
+						className={actionClass}
+						disabled={uploading}
+						onClick={() => fileInputRef.current?.click()}
+					>
+						{uploading ? "Uploading…" : "📎"}
+					</button>
+					<input
+						ref={fileInputRef}
+						type="file"
+						multiple
+						hidden
+						aria-label="Choose files to attach"
+						onChange={(e) => {
+							const files = [...(e.target.files ?? [])];
+							e.target.value = "";
+							if (files.length > 0) void attachFiles(files);
+						}}
+					/>
+					<button aria-label="Add subtask" className={actionClass} onClick={openSubtask}>
+						+ Subtask
+					</button>
+					<button
+						aria-label="Duplicate item"
+						className={actionClass}
+						onClick={() => duplicateItem(tree, item.id, me.name)}
+					>
+						Duplicate
+					</button>
+					<button
+						aria-label="Delete item"
+						title="Move to trash"
+						className={`${actionClass} hover:bg-rose-500/20 hover:text-rose-200`}
+						onClick={() => removeItem(tree, item.id, me.name)}
+					>
+						Delete
+					</button>
+				</div>
+			</div>
+			{(subtaskDraft !== null || (!collapsed && children.length > 0)) && (
+				<div className="ml-6 space-y-2 border-l border-white/10 pl-3">
+					{!collapsed &&
+						children.map((child, childIndex) => (
+							<ItemRow
+								key={child.id}
+								item={child}
+								listId={listId}
+								previousId={children[childIndex - 1]?.id}
+								nextId={children[childIndex + 1]?.id}
+								filter={filter}
+								highlights={highlights}
+								onOpenComments={onOpenComments}
+								depth={depth + 1}
+							/>
+						))}
+					{subtaskDraft !== null && (
+						<form onSubmit={commitSubtask}>
+							<input
+								autoFocus
+								aria-label="New subtask"
+								className="w-full rounded-lg border border-white/15 bg-white/10 px-3 py-2 text-sm text-white outline-none focus:border-emerald-300"
+								value={subtaskDraft}
+								onChange={(e) => setSubtaskDraft(e.target.value)}
+								onBlur={commitSubtask}
+								onKeyDown={(e) => e.key === "Escape" && closeSubtask()}
+								placeholder="Add a subtask"
+							/>
+						</form>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,95 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { addItemTag, addTag, getItemTags, removeItemTag } from "../../infra/sharedTreeClient.js";
+import type { Item } from "../../schema/starterSchema.js";
+
+/** Colors handed out to new tags in turn; each can be changed later in the tag manager. */
+export const tagPalette = ["#f472b6", "#a78bfa", "#60a5fa", "#2dd4bf", "#facc15", "#fb923c"];
+
+/**
+ * The item's tag chips plus an editor to add catalog tags to it, or create a new tag on the fly.
+ */
+export function ItemTags(props: { item: Item }) {
+	const { item } = props;
+	const { tree, me } = useFluidRuntime();
+	const [editing, setEditing] = React.useState(false);
+	const [draft, setDraft] = React.useState("");
+	const [error, setError] = React.useState<string | null>(null);
+
+	const tags = getItemTags(tree.root, item);
+	const catalog = [...(tree.root.tags ?? [])];
+	const available = catalog.filter((tag) => !tags.includes(tag));
+
+	const create = (e: React.FormEvent) => {
+		e.preventDefault();
+		const name = draft.trim();
+		if (!name) return;
+		const existing = catalog.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+		try {
+			const tagId =
+				existing?.id ??
+				addTag(tree, name, tagPalette[catalog.length % tagPalette.length], me.name);
+			addItemTag(tree, item.id, tagId, me.name);
+			setDraft("");
+			setError(null);
+		} catch (caught) {
+			setError(caught instanceof Error ? caught.message : String(caught));
+		}
+	};
+
+	return (
+		<div className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+			{tags.map((tag) => (
+				<span
+					key={tag.id}
+					data-tag-id={tag.id}
+					className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 font-medium text-slate-900"
+					style={{ backgroundColor: tag.color }}
+				>
+					{tag.name}
+					<button
+						aria-label={`Remove tag ${tag.name}`}
+						className="opacity-60 hover:opacity-100"
+						onClick={() => removeItemTag(tree, item.id, tag.id, me.name)}
+					>
+						✕
+					</button>
+				</span>
+			))}
+			<button
+				aria-label="Edit tags"
+				aria-expanded={editing}
+				className="rounded-full border border-dashed border-white/20 px-2 py-0.5 text-slate-400 hover:border-white/40 hover:text-white"
+				onClick={() => setEditing(!editing)}
+			>
+				{tags.length === 0 ? "+ Tag" : "+"}
+			</button>
+			{editing && (
+				<div className="flex basis-full flex-wrap items-center gap-1 pt-1">
+					{available.map((tag) => (
+						<button
+							key={tag.id}
+							className="rounded-full border px-2 py-0.5 text-slate-200 hover:bg-white/10"
+							style={{ borderColor: tag.color }}
+							onClick={() => addItemTag(tree, item.id, tag.id, me.name)}
+						>
+							{tag.name}
+						</button>
+					))}
+					<form onSubmit={create}>
+						<input
+							autoFocus
+							aria-label="New tag"
+							className="w-28 rounded-full border border-white/15 bg-white/10 px-2 py-0.5 text-white outline-none focus:border-cyan-300"
+							value={draft}
+							onChange={(e) => setDraft(e.target.value)}
+							onKeyDown={(e) => e.key === "Escape" && setEditing(false)}
+							placeholder="New tag"
+						/>
+					</form>
+					{error && <span className="text-rose-300">{error}</span>}
+				</div>
+			)}
+		</div>
+	);
+}
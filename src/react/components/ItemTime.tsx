@@ -0,0 +1,176 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { useNow, useTimer } from "../hooks/useTimer.js";
+import { usePresenceUsers } from "../../infra/presenceClient.js";
+import {
+	getLoggedMinutes,
+	logTime,
+	removeTimeEntry,
+	setItemEstimate,
+} from "../../infra/sharedTreeClient.js";
+import type { Item } from "../../schema/starterSchema.js";
+import { formatElapsed, formatMinutes, parseDuration } from "../../utils/durations.js";
+
+const fieldClass =
+	"rounded-md border border-white/10 bg-white/5 px-1.5 py-0.5 text-xs text-slate-200 outline-none focus:border-cyan-300";
+
+/**
+ * Time tracking for an item: its estimate, the time logged against it and a start/stop timer.
+ * Running timers are shared through the timer presence manager, so collaborators see who is
+ * working on the item while the time is still being counted. Expanding the entries lists each
+ * logged duration and allows logging time by hand.
+ */
+export function ItemTime(props: { item: Item }) {
+	const { item } = props;
+	const { tree, presence, me } = useFluidRuntime();
+	const { timers, running, start, stop } = useTimer();
+	const users = usePresenceUsers(presence.users, "all");
+	const [estimateDraft, setEstimateDraft] = React.useState<string | null>(null);
+	const [expanded, setExpanded] = React.useState(false);
+	const [entryDraft, setEntryDraft] = React.useState({ duration: "", note: "" });
+	const [error, setError] = React.useState<string | null>(null);
+
+	const mine = running?.itemId === item.id ? running : undefined;
+	const others = timers.filter((timer) => !timer.local && timer.itemId === item.id);
+	const now = useNow(mine !== undefined);
+	const names = new Map(users.map((user) => [user.client.attendeeId, user.value.name]));
+	const logged = getLoggedMinutes(item);
+	const entries = [...(item.timeEntries ?? [])];
+
+	const commitEstimate = () => {
+		if (estimateDraft === null) return;
+		const text = estimateDraft.trim();
+		const minutes = text === "" ? undefined : parseDuration(text);
+		if (text !== "" && minutes === undefined) {
+			setError(`"${text}" is not a duration; try 90, 45m or 1h 30m`);
+		} else {
+			setItemEstimate(tree, item.id, minutes, me.name);
+			setError(null);
+		}
+		setEstimateDraft(null);
+	};
+
+	const logEntry = (e: React.FormEvent) => {
+		e.preventDefault();
+		const minutes = parseDuration(entryDraft.duration);
+		if (!minutes) {
+			setError(`"${entryDraft.duration}" is not a duration; try 90, 45m or 1h 30m`);
+			return;
+		}
+		logTime(tree, item.id, {
+			userId: me.id,
+			userName: me.name,
+			minutes,
+			note: entryDraft.note,
+		});
+		setEntryDraft({ duration: "", note: "" });
+		setError(null);
+	};
+
+	return (
+		<div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+			<label className="flex items-center gap-1">
+				Estimate
+				<input
+					aria-label="Estimate"
+					className={`${fieldClass} w-16`}
+					value={
+						estimateDraft ??
+						(item.estimateMinutes === undefined
+							? ""
+							: formatMinutes(item.estimateMinutes))
+					}
+					placeholder="—"
+					onFocus={(e) => setEstimateDraft(e.target.value)}
+					onChange={(e) => setEstimateDraft(e.target.value)}
+					onBlur={commitEstimate}
+					onKeyDown={(e) => {
+						if (e.key === "Enter") e.currentTarget.blur();
+						if (e.key === "Escape") setEstimateDraft(null);
+					}}
+				/>
+			</label>
+			<button
+				aria-label="Time entries"
+				aria-expanded={expanded}
+				className={`rounded-md px-1.5 py-0.5 hover:bg-white/10 hover:text-white ${
+					item.estimateMinutes !== undefined && logged > item.estimateMinutes
+						? "text-amber-200"
+						: ""
+				}`}
+				onClick={() => setExpanded(!expanded)}
+			>
+				{formatMinutes(logged)} logged
+			</button>
+			<button
+				aria-label={mine ? "Stop timer" : "Start timer"}
+				className={`rounded-md px-1.5 py-0.5 font-medium transition ${
+					mine
+						? "bg-emerald-400/20 text-emerald-200 hover:bg-emerald-400/30"
+						: "text-slate-300 hover:bg-white/10 hover:text-white"
+				}`}
+				onClick={() => (mine ? stop() : start(item.id))}
+			>
+				{mine ? `■ ${formatElapsed(now - mine.startedAt)}` : "▶ Timer"}
+			</button>
+			{others.map((timer) => (
+				<span key={timer.attendeeId} className="text-cyan-200">
+					{names.get(timer.attendeeId) ?? "Someone"} is working on this
+				</span>
+			))}
+			{error && (
+				<span role="alert" className="text-rose-300">
+					{error}
+				</span>
+			)}
+			{expanded && (
+				<div className="flex basis-full flex-col gap-1 pt-1">
+					{entries.map((entry) => (
+						<span key={entry.id} data-time-entry-id={entry.id} className="flex gap-2">
+							<span className="font-medium text-slate-200">
+								{formatMinutes(entry.minutes)}
+							</span>
+							<span>{entry.userName ?? "Someone"}</span>
+							{entry.note && <span className="text-slate-300">{entry.note}</span>}
+							{entry.userId === me.id && (
+								<button
+									aria-label="Delete time entry"
+									className="text-slate-500 hover:text-rose-200"
+									onClick={() =>
+										removeTimeEntry(tree, item.id, entry.id, me.name)
+									}
+								>
+									✕
+								</button>
+							)}
+						</span>
+					))}
+					<form onSubmit={logEntry} className="flex gap-1">
+						<input
+							aria-label="Time spent"
+							className={`${fieldClass} w-20`}
+							value={entryDraft.duration}
+							onChange={(e) =>
+								setEntryDraft({ ...entryDraft, duration: e.target.value })
+							}
+							placeholder="1h 30m"
+						/>
+						<input
+							aria-label="Time note"
+							className={`${fieldClass} min-w-0 flex-1`}
+							value={entryDraft.note}
+							onChange={(e) => setEntryDraft({ ...entryDraft, note: e.target.value })}
+							placeholder="What did you work on?"
+						/>
+						<button
+							type="submit"
+							className="rounded-md px-2 py-0.5 text-slate-200 hover:bg-white/10"
+						>
+							Log
+						</button>
+					</form>
+				</div>
+			)}
+		</div>
+	);
+}
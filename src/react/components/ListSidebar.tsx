@@ -0,0 +1,162 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import {
+	addList,
+	getListProgress,
+	moveList,
+	removeList,
+	renameList,
+} from "../../infra/sharedTreeClient.js";
+import type { Checklist } from "../../schema/starterSchema.js";
+
+const actionClass =
+	"rounded-md px-1.5 py-0.5 text-[11px] text-slate-300 transition hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+/**
+ * Sidebar of the document's named lists: select, create, rename, reorder and delete, with
+ * per-list progress.
+ */
+export function ListSidebar(props: {
+	lists: readonly Checklist[];
+	activeId: string | undefined;
+	onSelect: (listId: string) => void;
+}) {
+	const { lists, activeId, onSelect } = props;
+	const { tree, me } = useFluidRuntime();
+	const [newTitle, setNewTitle] = React.useState("");
+	const [renaming, setRenaming] = React.useState<{ id: string; title: string } | null>(null);
+
+	const handleCreate = (e: React.FormEvent) => {
+		e.preventDefault();
+		const title = newTitle.trim();
+		if (!title) return;
+		onSelect(addList(tree, title, undefined, me.name));
+		setNewTitle("");
+	};
+
+	const commitRename = () => {
+		if (!renaming) return;
+		const title = renaming.title.trim();
+		if (title) {
+			renameList(tree, renaming.id, title, me.name);
+		}
+		setRenaming(null);
+	};
+
+	return (
+		<aside className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 shadow-xl shadow-black/20 backdrop-blur">
+			<p className="text-xs uppercase tracking-wide text-slate-300">Lists</p>
+			<ul className="flex flex-col gap-1">
+				{lists.map((list, index) => {
+					const progress = getListProgress(list);
+					const active = list.id === activeId;
+					return (
+						<li
+							key={list.id}
+							data-list-id={list.id}
+							className={`group rounded-xl border px-3 py-2 transition ${
+								active
+									? "border-cyan-300/40 bg-cyan-400/10"
+									: "border-transparent hover:bg-white/5"
+							}`}
+						>
+							{renaming?.id === list.id ? (
+								<input
+									autoFocus
+									aria-label="List name"
+									className="w-full rounded-md border border-white/15 bg-white/10 px-2 py-1 text-sm text-white outline-none focus:border-cyan-300"
+									value={renaming.title}
+									onChange={(e) =>
+										setRenaming({ id: list.id, title: e.target.value })
+									}
+									onBlur={commitRename}
+									onKeyDown={(e) => {
+										if (e.key === "Enter") commitRename();
+										if (e.key === "Escape") setRenaming(null);
+									}}
+								/>
+							) : (
+								<button
+									className="flex w-full items-center justify-between gap-2 text-left"
+									onClick={() => onSelect(list.id)}
+									onDoubleClick={() =>
+										setRenaming({ id: list.id, title: list.title })
+									}
+								>
+									<span className="truncate text-sm font-medium text-white">
+										{list.title || "Untitled list"}
+									</span>
+									<span className="shrink-0 text-xs text-slate-300">
+										{progress.done}/{progress.total}
+									</span>
+								</button>
+							)}
+							<div className="mt-1 flex items-center gap-1">
+								<div className="h-1 flex-1 overflow-hidden rounded-full bg-white/10">
+									<div
+										className="h-full bg-emerald-400"
+										style={{
+											width: `${progress.total === 0 ? 0 : (progress.done / progress.total) * 100}%`,
+										}}
+									/>
+								</div>
+								<button
+									aria-label="Rename list"
+									className={actionClass}
+									onClick={() => setRenaming({ id: list.id, title: list.title })}
+								>
+									✎
+								</button>
+								<button
+									aria-label="Move list up"
+									className={actionClass}
+									disabled={index === 0}
+									onClick={() => moveList(tree, list.id, index - 1, me.name)}
+								>
+									↑
+								</button>
+								<button
+									aria-label="Move list down"
+									className={actionClass}
+									disabled={index === lists.length - 1}
+									onClick={() => moveList(tree, list.id, index + 1, me.name)}
+								>
+									↓
+								</button>
+								<button
+									aria-label="Delete list"
+									className={`${actionClass} hover:text-rose-200`}
+									disabled={lists.length <= 1}
+									onClick={() => {
+										if (
+											window.confirm(`Delete "${list.title}" and its items?`)
+										) {
+											removeList(tree, list.id, me.name);
+										}
+									}}
+								>
+									✕
+								</button>
+							</div>
+						</li>
+					);
+				})}
+			</ul>
+			<form onSubmit={handleCreate} className="flex gap-2">
+				<input
+					aria-label="New list name"
+					className="min-w-0 flex-1 rounded-lg border border-white/15 bg-white/10 px-3 py-2 text-sm text-white outline-none focus:border-cyan-300"
+					value={newTitle}
+					onChange={(e) => setNewTitle(e.target.value)}
+					placeholder="New list"
+				/>
+				<button
+					type="submit"
+					className="rounded-lg bg-cyan-500 px-3 py-2 text-xs font-semibold text-slate-900 transition hover:bg-cyan-400"
+				>
+					Add
+				</button>
+			</form>
+		</aside>
+	);
+}
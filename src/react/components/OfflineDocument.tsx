@@ -0,0 +1,144 @@
+import React from "react";
+import type { OfflineCopy } from "../../infra/offlineSync.js";
+import type { PresenceUser } from "../../infra/presenceClient.js";
+import {
+	addItem,
+	editItemText,
+	removeItem,
+	renameList,
+	toggleItem,
+	visibleItems,
+} from "../../infra/sharedTreeClient.js";
+import type { AppModel, Item } from "../../schema/starterSchema.js";
+import { useSharedTreeState } from "../hooks/useSharedTreeState.js";
+
+type OfflineRow = { id: string; text: string; done: boolean; depth: number };
+
+type OfflineList = { id: string; title: string; rows: OfflineRow[] };
+
+function readLists(root: AppModel): OfflineList[] {
+	const rows = (items: Iterable<Item>, depth: number): OfflineRow[] =>
+		visibleItems(items).flatMap((item) => [
+			{ id: item.id, text: item.text, done: item.done, depth },
+			...rows(item.children ?? [], depth + 1),
+		]);
+	return [...(root.lists ?? [])].map((list) => ({
+		id: list.id,
+		title: list.title,
+		rows: rows(list.items, 0),
+	}));
+}
+
+/**
+ * The document as this browser last saw it, shown while the live document cannot load. Only
+ * the basics can be edited here (titles, item text, completion, adding and removing items);
+ * those edits are queued and applied to the live document once it opens. `error` is set when
+ * loading failed for a reason other than the connection and will not be retried.
+ */
+export function OfflineDocument(props: { copy: OfflineCopy; me: PresenceUser; error?: string }) {
+	const { copy, me, error } = props;
+	const { tree } = copy;
+	const lists = useSharedTreeState(tree.root, readLists, "treeChanged");
+	const [pending, setPending] = React.useState(() => copy.pending().length);
+	const [drafts, setDrafts] = React.useState<Record<string, string>>({});
+
+	React.useEffect(
+		() => copy.events.on("changed", () => setPending(copy.pending().length)),
+		[copy]
+	);
+
+	const handleAdd = (listId: string) => {
+		const text = drafts[listId]?.trim();
+		if (!text) return;
+		addItem(tree, listId, text, me.name);
+		setDrafts({ ...drafts, [listId]: "" });
+	};
+
+	return (
+		<div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 text-slate-50">
+			<div className="mx-auto flex max-w-3xl flex-col gap-6 px-6 py-12">
+				<div
+					role="status"
+					data-testid="offline-banner"
+					className="flex flex-col gap-1 rounded-2xl border border-amber-300/30 bg-amber-400/10 p-4 text-sm text-amber-100"
+				>
+					<p className="font-semibold">
+						{error === undefined
+							? "Connecting… showing the copy saved in this browser."
+							: `The document could not be opened: ${error}`}
+					</p>
+					<p className="text-amber-100/80">
+						{pending > 0
+							? `${pending} ${pending === 1 ? "change" : "changes"} will be sent when the connection returns.`
+							: "Edits made here will be sent when the connection returns."}
+					</p>
+				</div>
+				{lists.map((list) => (
+					<section
+						key={list.id}
+						className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-6"
+					>
+						<input
+							aria-label="List title"
+							className="rounded-xl border border-white/15 bg-white/10 px-4 py-2 text-lg font-semibold text-slate-50 outline-none focus:border-cyan-300"
+							value={list.title}
+							onChange={(e) => renameList(tree, list.id, e.target.value, me.name)}
+						/>
+						<ul className="flex flex-col gap-1">
+							{list.rows.map((row) => (
+								<li
+									key={row.id}
+									data-item-id={row.id}
+									className="flex items-center gap-2"
+									style={{ paddingLeft: `${row.depth * 1.5}rem` }}
+								>
+									<input
+										type="checkbox"
+										aria-label="Done"
+										checked={row.done}
+										onChange={() => toggleItem(tree, row.id, me.name)}
+									/>
+									<input
+										aria-label="Item text"
+										className={`flex-1 rounded-lg bg-transparent px-2 py-1 text-sm outline-none focus:bg-white/10 ${row.done ? "text-slate-400 line-through" : "text-white"}`}
+										value={row.text}
+										onChange={(e) =>
+											editItemText(tree, row.id, e.target.value, me.name)
+										}
+									/>
+									<button
+										aria-label="Remove item"
+										className="rounded-md px-1.5 text-slate-400 hover:bg-white/10 hover:text-rose-200"
+										onClick={() => removeItem(tree, row.id, me.name)}
+									>
+										✕
+									</button>
+								</li>
+							))}
+						</ul>
+						<form
+							className="flex gap-2"
+							onSubmit={(e) => {
+								e.preventDefault();
+								handleAdd(list.id);
+							}}
+						>
+							<input
+								aria-label="New item"
+								className="flex-1 rounded-lg border border-white/15 bg-white/5 px-3 py-2 text-sm text-white outline-none focus:border-cyan-300"
+								value={drafts[list.id] ?? ""}
+								onChange={(e) =>
+									setDrafts({ ...drafts, [list.id]: e.target.value })
+								}
+								placeholder="Add an item"
+							/>
+							<button className="rounded-lg bg-cyan-500 px-3 py-2 text-sm font-semibold text-slate-900 hover:bg-cyan-400">
+								Add
+							</button>
+						</form>
+					</section>
+				))}
+			</div>
+		</div>
+	);
+}
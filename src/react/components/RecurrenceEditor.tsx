@@ -0,0 +1,135 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import {
+	getRecurrenceRule,
+	RecurrenceRule,
+	setItemRecurrence,
+} from "../../infra/sharedTreeClient.js";
+import type { Item } from "../../schema/starterSchema.js";
+import { todayIsoDate, weekdayOf } from "../../utils/dates.js";
+
+const fieldClass =
+	"rounded-md border border-white/10 bg-white/5 px-1.5 py-0.5 text-xs text-slate-200 outline-none focus:border-cyan-300 [color-scheme:dark]";
+
+const weekdayLabels = ["S", "M", "T", "W", "T", "F", "S"];
+const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** The rule each option of the frequency select switches to, seeded from the item's due date. */
+function defaultRule(frequency: RecurrenceRule["frequency"], dueDate?: string): RecurrenceRule {
+	switch (frequency) {
+		case "weekly":
+			return { frequency, weekdays: [weekdayOf(dueDate ?? todayIsoDate())] };
+		case "interval":
+			return { frequency, days: 2 };
+		default:
+			return { frequency };
+	}
+}
+
+/**
+ * Inline editor for how an item repeats: never, daily, weekly on chosen weekdays, monthly or
+ * every N days.
+ */
+export function RecurrenceEditor(props: { item: Item }) {
+	const { item } = props;
+	const { tree, me } = useFluidRuntime();
+	const rule = getRecurrenceRule(item);
+
+	const update = (next: RecurrenceRule | undefined) =>
+		setItemRecurrence(tree, item.id, next, me.name);
+
+	return (
+		<span className="flex items-center gap-1">
+			<select
+				aria-label="Repeats"
+				className={`${fieldClass} ${rule ? "text-violet-200" : ""}`}
+				value={rule?.frequency ?? ""}
+				onChange={(e) =>
+					update(
+						e.target.value
+							? defaultRule(
+									e.target.value as RecurrenceRule["frequency"],
+									item.dueDate
+								)
+							: undefined
+					)
+				}
+			>
+				<option value="">Does not repeat</option>
+				<option value="daily">↻ Daily</option>
+				<option value="weekly">↻ Weekly</option>
+				<option value="monthly">↻ Monthly</option>
+				<option value="interval">↻ Every N days</option>
+			</select>
+			{rule?.frequency === "weekly" && (
+				<span role="group" aria-label="Repeat on" className="flex gap-0.5">
+					{weekdayLabels.map((label, day) => {
+						const selected = rule.weekdays.includes(day);
+						return (
+							<button
+								key={day}
+								aria-label={weekdayNames[day]}
+								aria-pressed={selected}
+								// Keep at least one day selected; the rule needs one.
+								disabled={selected && rule.weekdays.length === 1}
+								className={`h-5 w-5 rounded-full text-[10px] font-semibold transition ${
+									selected
+										? "bg-violet-400 text-slate-900"
+										: "bg-white/10 text-slate-300 hover:bg-white/20"
+								}`}
+								onClick={() =>
+									update({
+										frequency: "weekly",
+										weekdays: selected
+											? rule.weekdays.filter((other) => other !== day)
+											: [...rule.weekdays, day],
+									})
+								}
+							>
+								{label}
+							</button>
+						);
+					})}
+				</span>
+			)}
+			{rule?.frequency === "interval" && (
+				<IntervalInput
+					days={rule.days}
+					onChange={(days) => update({ frequency: "interval", days })}
+				/>
+			)}
+		</span>
+	);
+}
+
+function IntervalInput(props: { days: number; onChange: (days: number) => void }) {
+	const { days, onChange } = props;
+	const [draft, setDraft] = React.useState(String(days));
+	React.useEffect(() => setDraft(String(days)), [days]);
+
+	const commit = () => {
+		const value = Number(draft);
+		if (Number.isInteger(value) && value >= 1) {
+			if (value !== days) onChange(value);
+		} else {
+			setDraft(String(days));
+		}
+	};
+
+	return (
+		<label className="flex items-center gap-1 text-slate-400">
+			every
+			<input
+				type="number"
+				min={1}
+				aria-label="Days between occurrences"
+				className={`${fieldClass} w-12`}
+				value={draft}
+				onChange={(e) => setDraft(e.target.value)}
+				onBlur={commit}
+				onKeyDown={(e) => e.key === "Enter" && commit()}
+			/>
+			days
+		</label>
+	);
+}
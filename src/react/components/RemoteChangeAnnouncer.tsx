@@ -0,0 +1,47 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import type { DomainEvent } from "../../infra/changeFeed.js";
+
+function describe(event: DomainEvent): string {
+	switch (event.type) {
+		case "itemAdded":
+			return `A collaborator added "${event.text}".`;
+		case "itemRemoved":
+			return `A collaborator removed "${event.text}".`;
+		case "itemToggled":
+			return `A collaborator marked "${event.text}" as ${event.done ? "done" : "not done"}.`;
+		case "itemTextChanged":
+			return `A collaborator renamed "${event.before}" to "${event.after}".`;
+		case "titleChanged":
+			return `A collaborator renamed the list "${event.before}" to "${event.after}".`;
+	}
+}
+
+/**
+ * Visually hidden live region that reads out collaborators' edits, so screen reader users notice
+ * the list changing under them. Local edits are left out; the user already knows about those.
+ */
+export function RemoteChangeAnnouncer() {
+	const { changes } = useFluidRuntime();
+	const [message, setMessage] = React.useState("");
+
+	React.useEffect(
+		() =>
+			changes.events.on("changed", (events) => {
+				const remote = events.filter((event) => event.origin === "remote");
+				if (remote.length === 0) return;
+				setMessage(
+					remote.length > 3
+						? `Collaborators made ${remote.length} changes.`
+						: remote.map(describe).join(" ")
+				);
+			}),
+		[changes]
+	);
+
+	return (
+		<div role="status" aria-live="polite" className="sr-only">
+			{message}
+		</div>
+	);
+}
@@ -0,0 +1,132 @@
+import React from "react";
+import type { ITree } from "fluid-framework";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import {
+	DocumentCompatibility,
+	DocumentPreview,
+	PreviewItem,
+	getDocumentCompatibility,
+	migrateDocument,
+	needsMigration,
+	readDocumentPreview,
+	upgradeDocument,
+} from "../../infra/schemaCompatibility.js";
+
+/**
+ * Renders its children only when this client can view the document's schema. Documents from an
+ * older version get an upgrade prompt; documents from a newer, incompatible version get a
+ * read-only preview. Re-evaluates whenever another client changes the stored schema.
+ */
+export function SchemaGate(props: { children: React.ReactNode }) {
+	const { tree, container, undoRedo } = useFluidRuntime();
+	const [compatibility, setCompatibility] = React.useState<DocumentCompatibility>(() =>
+		getDocumentCompatibility(tree)
+	);
+	const [error, setError] = React.useState<string | undefined>(undefined);
+
+	React.useEffect(() => {
+		const update = () => setCompatibility(getDocumentCompatibility(tree));
+		update();
+		return tree.events.on("schemaChanged", update);
+	}, [tree]);
+
+	React.useEffect(() => {
+		// Another client may have upgraded the schema before its data migrations reached us.
+		if (compatibility === "ready" && needsMigration(tree)) {
+			migrateDocument(tree);
+			undoRedo.clear();
+		}
+	}, [compatibility, tree, undoRedo]);
+
+	const handleUpgrade = () => {
+		try {
+			upgradeDocument(tree);
+			undoRedo.clear();
+		} catch (e) {
+			setError(e instanceof Error ? e.message : String(e));
+		}
+	};
+
+	if (compatibility === "ready") {
+		return <>{props.children}</>;
+	}
+
+	const preview = readDocumentPreview(container.initialObjects.appData as ITree);
+	return (
+		<div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 text-slate-50">
+			<div className="mx-auto flex max-w-3xl flex-col gap-6 px-6 py-12">
+				<div
+					role="alert"
+					className="flex flex-col gap-3 rounded-2xl border border-amber-300/30 bg-amber-400/10 p-6"
+				>
+					{compatibility === "upgradeable" ? (
+						<>
+							<p className="font-semibold text-amber-100">
+								This document was created with an older version of the app.
+							</p>
+							<p className="text-sm text-amber-100/80">
+								Upgrade it to edit with the latest features. Collaborators still on
+								the older version will only be able to view it afterwards.
+							</p>
+							<button
+								onClick={handleUpgrade}
+								className="self-start rounded-xl bg-amber-400 px-4 py-2 text-sm font-semibold text-slate-900 transition hover:bg-amber-300"
+							>
+								Upgrade document
+							</button>
+						</>
+					) : (
+						<>
+							<p className="font-semibold text-amber-100">
+								This document was saved by a newer version of the app.
+							</p>
+							<p className="text-sm text-amber-100/80">
+								It is shown read-only. Reload after updating the app to edit it.
+							</p>
+						</>
+					)}
+					{error && <p className="text-sm text-rose-200">{error}</p>}
+				</div>
+				<ReadOnlyDocument preview={preview} />
+			</div>
+		</div>
+	);
+}
+
+function ReadOnlyDocument(props: { preview: DocumentPreview | undefined }) {
+	const { preview } = props;
+	if (!preview) {
+		return <p className="text-slate-300">The document content could not be read.</p>;
+	}
+	return (
+		<div className="flex flex-col gap-4">
+			{preview.lists.map((list, index) => (
+				<section
+					key={index}
+					className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-xl shadow-black/20"
+				>
+					<h2 className="mb-3 text-lg font-semibold">{list.title || "Untitled list"}</h2>
+					<PreviewItems items={list.items} />
+				</section>
+			))}
+		</div>
+	);
+}
+
+function PreviewItems(props: { items: PreviewItem[] }) {
+	if (props.items.length === 0) {
+		return null;
+	}
+	return (
+		<ul className="space-y-1 pl-4">
+			{props.items.map((item, index) => (
+				<li key={index}>
+					<span className={item.done ? "text-slate-400 line-through" : "text-white"}>
+						{item.done ? "☑" : "☐"} {item.text}
+					</span>
+					<PreviewItems items={item.children} />
+				</li>
+			))}
+		</ul>
+	);
+}
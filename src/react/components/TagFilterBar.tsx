@@ -0,0 +1,74 @@
+import React from "react";
+import type { Tag } from "../../schema/starterSchema.js";
+
+export type TagFilter = { tagIds: readonly string[]; match: "any" | "all" };
+
+/**
+ * Toggles for filtering the list by tags, matching items with any or all of the selected ones.
+ * The filter is local to this client.
+ */
+export function TagFilterBar(props: {
+	tags: readonly Tag[];
+	filter: TagFilter;
+	onChange: (filter: TagFilter) => void;
+}) {
+	const { tags, filter, onChange } = props;
+	if (tags.length === 0) {
+		return null;
+	}
+	const toggle = (tagId: string) =>
+		onChange({
+			...filter,
+			tagIds: filter.tagIds.includes(tagId)
+				? filter.tagIds.filter((id) => id !== tagId)
+				: [...filter.tagIds, tagId],
+		});
+
+	return (
+		<div
+			role="group"
+			aria-label="Filter by tag"
+			className="mt-4 flex flex-wrap items-center gap-2 text-xs"
+		>
+			<span className="text-slate-400">Tags</span>
+			{tags.map((tag) => {
+				const selected = filter.tagIds.includes(tag.id);
+				return (
+					<button
+						key={tag.id}
+						aria-pressed={selected}
+						className={`rounded-full border px-2 py-0.5 font-medium transition ${
+							selected ? "text-slate-900" : "text-slate-200 hover:bg-white/10"
+						}`}
+						style={{
+							borderColor: tag.color,
+							backgroundColor: selected ? tag.color : undefined,
+						}}
+						onClick={() => toggle(tag.id)}
+					>
+						{tag.name}
+					</button>
+				);
+			})}
+			{filter.tagIds.length > 1 && (
+				<button
+					aria-label={`Match ${filter.match === "any" ? "all" : "any"} selected tags`}
+					className="rounded-md px-2 py-0.5 text-slate-300 hover:bg-white/10 hover:text-white"
+					onClick={() =>
+						onChange({ ...filter, match: filter.match === "any" ? "all" : "any" })
+					}
+				>
+					Matching {filter.match}
+				</button>
+			)}
+			{filter.tagIds.length > 0 && (
+				<button
+					className="rounded-md px-2 py-0.5 text-slate-400 hover:text-white"
+					onClick={() => onChange({ ...filter, tagIds: [] })}
+				>
+					Clear
+				</button>
+			)}
+		</div>
+	);
+}
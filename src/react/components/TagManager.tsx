@@ -0,0 +1,151 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { addTag, deleteTag, mergeTags, updateTag } from "../../infra/sharedTreeClient.js";
+import type { Tag } from "../../schema/starterSchema.js";
+import { tagPalette } from "./ItemTags.js";
+
+const actionClass =
+	"rounded-md px-1.5 py-0.5 text-[11px] text-slate-300 transition hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+/**
+ * Editor for the document's tag catalog: create, recolor, rename (double-click), merge into
+ * another tag and delete. Merges and deletes update every tagged item.
+ */
+export function TagManager(props: { tags: readonly Tag[] }) {
+	const { tags } = props;
+	const { tree, me } = useFluidRuntime();
+	const [newName, setNewName] = React.useState("");
+	const [renaming, setRenaming] = React.useState<{ id: string; name: string } | null>(null);
+	const [error, setError] = React.useState<string | null>(null);
+
+	const attempt = (edit: () => void) => {
+		try {
+			edit();
+			setError(null);
+		} catch (caught) {
+			setError(caught instanceof Error ? caught.message : String(caught));
+		}
+	};
+
+	const handleCreate = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!newName.trim()) return;
+		attempt(() => {
+			addTag(tree, newName, tagPalette[tags.length % tagPalette.length], me.name);
+			setNewName("");
+		});
+	};
+
+	const commitRename = () => {
+		if (!renaming) return;
+		const { id, name } = renaming;
+		setRenaming(null);
+		if (name.trim()) {
+			attempt(() => updateTag(tree, id, { name }, me.name));
+		}
+	};
+
+	return (
+		<aside className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 shadow-xl shadow-black/20 backdrop-blur">
+			<p className="text-xs uppercase tracking-wide text-slate-300">Tags</p>
+			<ul className="flex flex-col gap-1">
+				{tags.map((tag) => (
+					<li
+						key={tag.id}
+						data-tag-id={tag.id}
+						className="flex items-center gap-1 rounded-xl px-2 py-1 hover:bg-white/5"
+					>
+						<input
+							type="color"
+							aria-label="Tag color"
+							className="h-4 w-4 shrink-0 cursor-pointer rounded-full border-0 bg-transparent p-0"
+							value={tag.color}
+							onChange={(e) =>
+								updateTag(tree, tag.id, { color: e.target.value }, me.name)
+							}
+						/>
+						{renaming?.id === tag.id ? (
+							<input
+								autoFocus
+								aria-label="Tag name"
+								className="min-w-0 flex-1 rounded-md border border-white/15 bg-white/10 px-2 py-0.5 text-sm text-white outline-none focus:border-cyan-300"
+								value={renaming.name}
+								onChange={(e) => setRenaming({ id: tag.id, name: e.target.value })}
+								onBlur={commitRename}
+								onKeyDown={(e) => {
+									if (e.key === "Enter") commitRename();
+									if (e.key === "Escape") setRenaming(null);
+								}}
+							/>
+						) : (
+							<span
+								className="min-w-0 flex-1 truncate text-sm text-white"
+								onDoubleClick={() => setRenaming({ id: tag.id, name: tag.name })}
+							>
+								{tag.name}
+							</span>
+						)}
+						<select
+							aria-label={`Merge ${tag.name} into`}
+							className="w-14 rounded-md border border-white/10 bg-transparent text-[11px] text-slate-300 [color-scheme:dark]"
+							value=""
+							disabled={tags.length < 2}
+							onChange={(e) => {
+								const target = tags.find((other) => other.id === e.target.value);
+								if (
+									target &&
+									window.confirm(
+										`Merge "${tag.name}" into "${target.name}"? Items tagged "${tag.name}" will be tagged "${target.name}" instead.`
+									)
+								) {
+									mergeTags(tree, tag.id, target.id, me.name);
+								}
+							}}
+						>
+							<option value="">Merge</option>
+							{tags
+								.filter((other) => other !== tag)
+								.map((other) => (
+									<option key={other.id} value={other.id}>
+										into {other.name}
+									</option>
+								))}
+						</select>
+						<button
+							aria-label="Delete tag"
+							className={`${actionClass} hover:text-rose-200`}
+							onClick={() => {
+								if (
+									window.confirm(
+										`Delete "${tag.name}" and remove it from every item?`
+									)
+								) {
+									deleteTag(tree, tag.id, me.name);
+								}
+							}}
+						>
+							✕
+						</button>
+					</li>
+				))}
+				{tags.length === 0 && <li className="px-2 text-xs text-slate-400">No tags yet.</li>}
+			</ul>
+			<form onSubmit={handleCreate} className="flex gap-2">
+				<input
+					aria-label="New tag name"
+					className="min-w-0 flex-1 rounded-lg border border-white/15 bg-white/10 px-3 py-2 text-sm text-white outline-none focus:border-cyan-300"
+					value={newName}
+					onChange={(e) => setNewName(e.target.value)}
+					placeholder="New tag"
+				/>
+				<button
+					type="submit"
+					className="rounded-lg bg-cyan-500 px-3 py-2 text-xs font-semibold text-slate-900 transition hover:bg-cyan-400"
+				>
+					Add
+				</button>
+			</form>
+			{error && <p className="text-xs text-rose-300">{error}</p>}
+		</aside>
+	);
+}
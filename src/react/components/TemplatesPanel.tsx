@@ -0,0 +1,103 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { createTemplate, ListTemplate } from "../../infra/templates.js";
+import type { Checklist } from "../../schema/starterSchema.js";
+
+const actionClass =
+	"rounded-md px-1.5 py-0.5 text-[11px] text-slate-300 transition hover:bg-white/10 hover:text-white";
+
+/** URL that opens a new document pre-filled from the template. */
+function templateUrl(template: ListTemplate): string {
+	const url = new URL(window.location.href);
+	url.search = "";
+	url.searchParams.set("template", template.id);
+	return url.toString();
+}
+
+/**
+ * The template library: save the active list as a named template, and start a new document from
+ * any saved one. New documents open in a new tab, leaving this one as it is.
+ */
+export function TemplatesPanel(props: { list: Checklist | undefined }) {
+	const { list } = props;
+	const { templates } = useFluidRuntime();
+	const [saved, setSaved] = React.useState(() => templates.list());
+	const [name, setName] = React.useState("");
+	const [error, setError] = React.useState<string | null>(null);
+
+	React.useEffect(() => {
+		setSaved(templates.list());
+		return templates.events.on("changed", () => setSaved(templates.list()));
+	}, [templates]);
+
+	const handleSave = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!list) return;
+		try {
+			templates.save(createTemplate(name || list.title, list));
+			setName("");
+			setError(null);
+		} catch (caught) {
+			setError(caught instanceof Error ? caught.message : String(caught));
+		}
+	};
+
+	return (
+		<aside className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 shadow-xl shadow-black/20 backdrop-blur">
+			<p className="text-xs uppercase tracking-wide text-slate-300">Templates</p>
+			<ul className="flex flex-col gap-1">
+				{saved.map((template) => (
+					<li
+						key={template.id}
+						data-template-id={template.id}
+						className="flex items-center gap-1 rounded-xl px-2 py-1 hover:bg-white/5"
+					>
+						<span
+							className="min-w-0 flex-1 truncate text-sm text-white"
+							title={template.title}
+						>
+							{template.name}
+						</span>
+						<a
+							href={templateUrl(template)}
+							target="_blank"
+							rel="noreferrer"
+							className={actionClass}
+							title="Create a new document from this template"
+						>
+							New
+						</a>
+						<button
+							aria-label={`Delete template ${template.name}`}
+							className={`${actionClass} hover:text-rose-200`}
+							onClick={() => templates.remove(template.id)}
+						>
+							✕
+						</button>
+					</li>
+				))}
+				{saved.length === 0 && (
+					<li className="px-2 text-xs text-slate-400">No templates saved yet.</li>
+				)}
+			</ul>
+			<form onSubmit={handleSave} className="flex gap-2">
+				<input
+					aria-label="Template name"
+					className="min-w-0 flex-1 rounded-lg border border-white/15 bg-white/10 px-3 py-2 text-sm text-white outline-none focus:border-cyan-300"
+					value={name}
+					onChange={(e) => setName(e.target.value)}
+					placeholder={list?.title ?? "Template name"}
+				/>
+				<button
+					type="submit"
+					disabled={!list}
+					className="rounded-lg bg-cyan-500 px-3 py-2 text-xs font-semibold text-slate-900 transition hover:bg-cyan-400 disabled:opacity-40"
+					title="Save the current list as a template"
+				>
+					Save
+				</button>
+			</form>
+			{error && <p className="text-xs text-rose-300">{error}</p>}
+		</aside>
+	);
+}
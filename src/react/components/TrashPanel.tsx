@@ -0,0 +1,100 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import {
+	emptyTrash,
+	getTrashedItems,
+	getTrashRetentionDays,
+	purgeItem,
+	restoreItem,
+	setTrashRetentionDays,
+} from "../../infra/sharedTreeClient.js";
+import type { AppModel, Checklist } from "../../schema/starterSchema.js";
+
+const actionClass =
+	"rounded-md px-1.5 py-0.5 text-[11px] text-slate-300 transition hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+/**
+ * The active list's trash: restore or permanently delete items, and set how long the document
+ * keeps trashed items before they are purged automatically.
+ */
+export function TrashPanel(props: { list: Checklist }) {
+	const { list } = props;
+	const { tree, me } = useFluidRuntime();
+	const trashed = getTrashedItems(list);
+	const retentionDays = getTrashRetentionDays(tree.root as AppModel);
+
+	return (
+		<details className="group rounded-2xl border border-white/10 bg-white/5 p-4 shadow-xl shadow-black/20 backdrop-blur">
+			<summary className="flex cursor-pointer list-none items-center justify-between text-xs uppercase tracking-wide text-slate-300">
+				Trash
+				<span className="rounded-full bg-white/10 px-2 py-0.5 normal-case">
+					{trashed.length}
+				</span>
+			</summary>
+			<ul className="mt-3 flex flex-col gap-1">
+				{trashed.map((item) => (
+					<li
+						key={item.id}
+						data-item-id={item.id}
+						className="flex items-center gap-1 rounded-xl px-2 py-1 hover:bg-white/5"
+					>
+						<span className="flex min-w-0 flex-1 flex-col">
+							<span className="truncate text-sm text-white">{item.text}</span>
+							<span className="truncate text-[11px] text-slate-400">
+								{item.deletedBy ? `${item.deletedBy}, ` : ""}
+								{new Date(item.deletedAt ?? 0).toLocaleString()}
+							</span>
+						</span>
+						<button
+							aria-label="Restore item"
+							className={actionClass}
+							onClick={() => restoreItem(tree, item.id, me.name)}
+						>
+							Restore
+						</button>
+						<button
+							aria-label="Delete item forever"
+							className={`${actionClass} hover:text-rose-200`}
+							onClick={() => purgeItem(tree, item.id, me.name)}
+						>
+							✕
+						</button>
+					</li>
+				))}
+				{trashed.length === 0 && (
+					<li className="px-2 py-1 text-xs text-slate-400">Trash is empty</li>
+				)}
+			</ul>
+			<div className="mt-3 flex items-center gap-2 text-xs text-slate-300">
+				<label className="flex flex-1 items-center gap-1">
+					Purge after
+					<input
+						type="number"
+						min={1}
+						aria-label="Trash retention in days"
+						className="w-14 rounded-md border border-white/10 bg-white/5 px-1.5 py-0.5 text-xs text-slate-200 outline-none focus:border-cyan-300"
+						value={retentionDays}
+						onChange={(e) => {
+							const days = Number(e.target.value);
+							if (Number.isInteger(days) && days >= 1) {
+								setTrashRetentionDays(tree, days, me.name);
+							}
+						}}
+					/>
+					days
+				</label>
+				<button
+					className={`${actionClass} hover:text-rose-200`}
+					disabled={trashed.length === 0}
+					onClick={() => {
+						if (window.confirm(`Permanently delete ${trashed.length} items?`)) {
+							emptyTrash(tree, list.id, me.name);
+						}
+					}}
+				>
+					Empty trash
+				</button>
+			</div>
+		</details>
+	);
+}
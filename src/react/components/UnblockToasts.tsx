@@ -0,0 +1,36 @@
+import React from "react";
+import { useUnblockNotifications } from "../hooks/useUnblockNotifications.js";
+
+/** Bottom-left toasts announcing items whose dependencies are all complete. */
+export function UnblockToasts() {
+	const { notices, dismiss } = useUnblockNotifications();
+	if (notices.length === 0) {
+		return null;
+	}
+	return (
+		<div
+			role="status"
+			aria-label="Unblocked items"
+			className="fixed bottom-4 left-4 z-30 flex w-72 flex-col gap-2"
+		>
+			{notices.map((notice) => (
+				<div
+					key={notice.itemId}
+					className="flex items-start gap-2 rounded-xl border border-emerald-300/30 bg-slate-800/95 px-3 py-2 text-sm text-slate-100 shadow-xl shadow-black/40"
+				>
+					<span className="flex-1">
+						<span className="font-semibold text-emerald-200">{notice.text}</span> is
+						ready to start: everything it waited on is done.
+					</span>
+					<button
+						aria-label="Dismiss"
+						className="text-slate-400 hover:text-white"
+						onClick={() => dismiss(notice.itemId)}
+					>
+						✕
+					</button>
+				</div>
+			))}
+		</div>
+	);
+}
@@ -0,0 +1,151 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { addStatus, moveStatus, removeStatus, updateStatus } from "../../infra/sharedTreeClient.js";
+import type { WorkflowStatus } from "../../schema/starterSchema.js";
+
+const actionClass =
+	"rounded-md px-1.5 py-0.5 text-[11px] text-slate-300 transition hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+/**
+ * Editor for the document's workflow: the ordered statuses items move through, their colors and
+ * which of them count as complete.
+ */
+export function WorkflowEditor(props: { workflow: readonly WorkflowStatus[] }) {
+	const { workflow } = props;
+	const { tree, me } = useFluidRuntime();
+	const [newName, setNewName] = React.useState("");
+	const [renaming, setRenaming] = React.useState<{ id: string; name: string } | null>(null);
+
+	const handleCreate = (e: React.FormEvent) => {
+		e.preventDefault();
+		const name = newName.trim();
+		if (!name) return;
+		addStatus(tree, name, "#a78bfa", false, me.name);
+		setNewName("");
+	};
+
+	const commitRename = () => {
+		if (!renaming) return;
+		const name = renaming.name.trim();
+		if (name) {
+			updateStatus(tree, renaming.id, { name }, me.name);
+		}
+		setRenaming(null);
+	};
+
+	return (
+		<aside className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 shadow-xl shadow-black/20 backdrop-blur">
+			<p className="text-xs uppercase tracking-wide text-slate-300">Workflow</p>
+			<ul className="flex flex-col gap-1">
+				{workflow.map((status, index) => (
+					<li
+						key={status.id}
+						data-status-id={status.id}
+						className="flex items-center gap-1 rounded-xl px-2 py-1 hover:bg-white/5"
+					>
+						<input
+							type="color"
+							aria-label="Status color"
+							className="h-4 w-4 shrink-0 cursor-pointer rounded-full border-0 bg-transparent p-0"
+							value={status.color}
+							onChange={(e) =>
+								updateStatus(tree, status.id, { color: e.target.value }, me.name)
+							}
+						/>
+						{renaming?.id === status.id ? (
+							<input
+								autoFocus
+								aria-label="Status name"
+								className="min-w-0 flex-1 rounded-md border border-white/15 bg-white/10 px-2 py-0.5 text-sm text-white outline-none focus:border-cyan-300"
+								value={renaming.name}
+								onChange={(e) =>
+									setRenaming({ id: status.id, name: e.target.value })
+								}
+								onBlur={commitRename}
+								onKeyDown={(e) => {
+									if (e.key === "Enter") commitRename();
+									if (e.key === "Escape") setRenaming(null);
+								}}
+							/>
+						) : (
+							<span
+								className="min-w-0 flex-1 truncate text-sm text-white"
+								onDoubleClick={() =>
+									setRenaming({ id: status.id, name: status.name })
+								}
+							>
+								{status.name}
+							</span>
+						)}
+						<label
+							className="flex items-center gap-1 text-[11px] text-slate-300"
+							title="Items in this status count as complete"
+						>
+							<input
+								type="checkbox"
+								aria-label="Counts as complete"
+								checked={status.countsAsComplete}
+								onChange={(e) =>
+									updateStatus(
+										tree,
+										status.id,
+										{ countsAsComplete: e.target.checked },
+										me.name
+									)
+								}
+							/>
+							✓
+						</label>
+						<button
+							aria-label="Move status up"
+							className={actionClass}
+							disabled={index === 0}
+							onClick={() => moveStatus(tree, status.id, index - 1, me.name)}
+						>
+							↑
+						</button>
+						<button
+							aria-label="Move status down"
+							className={actionClass}
+							disabled={index === workflow.length - 1}
+							onClick={() => moveStatus(tree, status.id, index + 1, me.name)}
+						>
+							↓
+						</button>
+						<button
+							aria-label="Delete status"
+							className={`${actionClass} hover:text-rose-200`}
+							disabled={workflow.length <= 1}
+							onClick={() => {
+								if (
+									window.confirm(
+										`Delete "${status.name}"? Its items move to a neighbouring status.`
+									)
+								) {
+									removeStatus(tree, status.id, me.name);
+								}
+							}}
+						>
+							✕
+						</button>
+					</li>
+				))}
+			</ul>
+			<form onSubmit={handleCreate} className="flex gap-2">
+				<input
+					aria-label="New status name"
+					className="min-w-0 flex-1 rounded-lg border border-white/15 bg-white/10 px-3 py-2 text-sm text-white outline-none focus:border-cyan-300"
+					value={newName}
+					onChange={(e) => setNewName(e.target.value)}
+					placeholder="New status"
+				/>
+				<button
+					type="submit"
+					className="rounded-lg bg-cyan-500 px-3 py-2 text-xs font-semibold text-slate-900 transition hover:bg-cyan-400"
+				>
+					Add
+				</button>
+			</form>
+		</aside>
+	);
+}
@@ -3,12 +3,22 @@ import { IFluidContainer } from "fluid-framework";
 import { StarterTreeView } from "../../schema/starterSchema.js";
 import { PresenceClients, PresenceUser } from "../../infra/presenceClient.js";
 import { LlmClient } from "../../infra/llmClient.js";
+import { UndoRedo } from "../../infra/undoRedo.js";
+import { CommentReads } from "../../infra/commentReads.js";
+import { TemplateLibrary } from "../../infra/templates.js";
+import { ChangeFeed } from "../../infra/changeFeed.js";
+import { OfflineSync } from "../../infra/offlineSync.js";
 
 export type FluidRuntime = {
 	container: IFluidContainer;
 	tree: StarterTreeView;
 	presence: PresenceClients;
 	llm: LlmClient;
+	undoRedo: UndoRedo;
+	commentReads: CommentReads;
+	templates: TemplateLibrary;
+	changes: ChangeFeed;
+	offline: OfflineSync;
 	me: PresenceUser;
 };
 
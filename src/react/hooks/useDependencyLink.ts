@@ -0,0 +1,61 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { addDependency } from "../../infra/sharedTreeClient.js";
+
+/**
+ * Pointer gesture for linking dependencies: press on an item's link handle, drag onto the item it
+ * waits on and release. While the pointer is down the line is shared through the connection drag
+ * presence manager, relative to the nearest `[data-link-surface]` ancestor: `cursorX` as a
+ * fraction of its width and `cursorY` in pixels from its top.
+ */
+export function useDependencyLink(itemId: string): {
+	startLink: (e: React.PointerEvent<HTMLElement>) => void;
+	linkError: string | null;
+	clearLinkError: () => void;
+} {
+	const { tree, presence, me } = useFluidRuntime();
+	const [linkError, setLinkError] = React.useState<string | null>(null);
+
+	const startLink = (e: React.PointerEvent<HTMLElement>) => {
+		const surface = e.currentTarget.closest<HTMLElement>("[data-link-surface]");
+		if (!surface || e.button !== 0) return;
+		e.preventDefault();
+		setLinkError(null);
+
+		const share = (event: PointerEvent) => {
+			const bounds = surface.getBoundingClientRect();
+			if (bounds.width === 0) return;
+			presence.connectionDrag.setConnectionDrag({
+				fromItemId: itemId,
+				fromSide: "right",
+				cursorX: (event.clientX - bounds.left) / bounds.width,
+				cursorY: event.clientY - bounds.top,
+			});
+		};
+
+		const finish = (event: PointerEvent) => {
+			window.removeEventListener("pointermove", share);
+			window.removeEventListener("pointerup", finish);
+			window.removeEventListener("pointercancel", finish);
+			presence.connectionDrag.clearConnectionDrag();
+			if (event.type !== "pointerup") return;
+			const target = document
+				.elementFromPoint(event.clientX, event.clientY)
+				?.closest("[data-item-id]")
+				?.getAttribute("data-item-id");
+			if (!target || target === itemId) return;
+			try {
+				addDependency(tree, itemId, target, me.name);
+			} catch (error) {
+				setLinkError(error instanceof Error ? error.message : String(error));
+			}
+		};
+
+		window.addEventListener("pointermove", share);
+		window.addEventListener("pointerup", finish);
+		window.addEventListener("pointercancel", finish);
+		share(e.nativeEvent);
+	};
+
+	return { startLink, linkError, clearLinkError: () => setLinkError(null) };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { independentView } from "@fluidframework/tree/alpha";
+import {
+	getDefaultStarterContent,
+	getDefaultWorkflow,
+	starterTreeConfiguration,
+	StarterTreeView,
+} from "../../schema/starterSchema.js";
+import { addItem, addList, updateStatus } from "../../infra/sharedTreeClient.js";
+import { onItemQueryInputsChanged } from "./useItemQuery.js";
+
+function createTree(): StarterTreeView {
+	const tree = independentView(starterTreeConfiguration, {});
+	tree.initialize(getDefaultStarterContent());
+	return tree;
+}
+
+describe("useItemQuery", () => {
+	it("recomputes for edits to the list and the workflow, not to other lists", () => {
+		const tree = createTree();
+		const list = tree.root.lists![0];
+		let calls = 0;
+		const off = onItemQueryInputsChanged(tree.root, list, () => calls++);
+
+		addItem(tree, list.id, "milk");
+		expect(calls).toBe(1);
+		updateStatus(tree, "done", { name: "Finished" });
+		expect(calls).toBe(2);
+
+		const other = addList(tree, "Other");
+		calls = 0;
+		addItem(tree, other, "tea");
+		expect(calls).toBe(0);
+
+		// A workflow put in place by a migration is watched from then on.
+		tree.root.workflow = getDefaultWorkflow();
+		expect(calls).toBe(1);
+		updateStatus(tree, "todo", { name: "Open" });
+		expect(calls).toBe(2);
+
+		off();
+		updateStatus(tree, "todo", { name: "Backlog" });
+		expect(calls).toBe(2);
+	});
+});
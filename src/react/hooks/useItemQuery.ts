@@ -0,0 +1,82 @@
+import React from "react";
+import { TreeBeta } from "@fluidframework/tree/alpha";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { ItemQuery, ItemQueryMatch, queryItems } from "../../infra/itemQuery.js";
+import type { AppModel, Checklist } from "../../schema/starterSchema.js";
+
+/**
+ * Live results of `queryItems` over one list. Only edits inside that list and to the workflow
+ * (which status criteria match against) trigger a recompute, and when they leave the results
+ * unchanged (same items, scores and highlights) the previous array is returned, so components
+ * keyed on it do not re-render.
+ */
+export function useItemQuery(list: Checklist | undefined, query: ItemQuery): ItemQueryMatch[] {
+	const { tree } = useFluidRuntime();
+	const previous = React.useRef<ItemQueryMatch[]>([]);
+	// Callers usually build the query inline; compare it by value so the selector stays stable.
+	const key = JSON.stringify(query);
+
+	const selector = React.useCallback(() => {
+		const next = list ? queryItems(tree.root, list, JSON.parse(key) as ItemQuery) : [];
+		if (sameMatches(previous.current, next)) {
+			return previous.current;
+		}
+		previous.current = next;
+		return next;
+	}, [tree, list, key]);
+
+	const [matches, setMatches] = React.useState(selector);
+	React.useEffect(() => {
+		// Catch up when the list or query changes, not only on the next tree event.
+		setMatches(selector());
+		return onItemQueryInputsChanged(tree.root, list, () => setMatches(selector()));
+	}, [tree, list, selector]);
+
+	return matches;
+}
+
+/**
+ * Calls `listener` after every edit that can change `queryItems` results for `list`: edits inside
+ * the list and to the workflow, including a workflow added or replaced by a migration. Every list
+ * could be gone (a legacy document); without one the whole document is watched until one appears.
+ * @returns A function that stops listening.
+ */
+export function onItemQueryInputsChanged(
+	root: AppModel,
+	list: Checklist | undefined,
+	listener: () => void
+): () => void {
+	if (!list) {
+		return TreeBeta.on(root, "treeChanged", listener);
+	}
+	const watchWorkflow = () =>
+		root.workflow ? TreeBeta.on(root.workflow, "treeChanged", listener) : () => {};
+	let offWorkflow = watchWorkflow();
+	const offRoot = TreeBeta.on(root, "nodeChanged", () => {
+		offWorkflow();
+		offWorkflow = watchWorkflow();
+		listener();
+	});
+	const offList = TreeBeta.on(list, "treeChanged", listener);
+	return () => {
+		offList();
+		offRoot();
+		offWorkflow();
+	};
+}
+
+function sameMatches(a: readonly ItemQueryMatch[], b: readonly ItemQueryMatch[]): boolean {
+	return (
+		a.length === b.length &&
+		a.every(
+			(match, i) =>
+				match.item === b[i].item &&
+				match.score === b[i].score &&
+				match.ranges.length === b[i].ranges.length &&
+				match.ranges.every(
+					(range, j) =>
+						range.start === b[i].ranges[j].start && range.end === b[i].ranges[j].end
+				)
+		)
+	);
+}
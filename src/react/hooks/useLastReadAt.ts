@@ -0,0 +1,19 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+
+/** When this user last read the item's comments; updates when they are marked as read. */
+export function useLastReadAt(itemId: string): number | undefined {
+	const { commentReads } = useFluidRuntime();
+	const [lastReadAt, setLastReadAt] = React.useState(() => commentReads.lastReadAt(itemId));
+
+	React.useEffect(() => {
+		setLastReadAt(commentReads.lastReadAt(itemId));
+		return commentReads.events.on("changed", (changedId) => {
+			if (changedId === itemId) {
+				setLastReadAt(commentReads.lastReadAt(itemId));
+			}
+		});
+	}, [commentReads, itemId]);
+
+	return lastReadAt;
+}
@@ -0,0 +1,29 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+
+export type OfflineStatus = { connected: boolean; pending: number; unqueued: number };
+
+/**
+ * Whether the document is connected to the service, and how many local edits it still owes it:
+ * those kept in the offline copy (`pending`) and those that would not survive a reload.
+ */
+export function useOfflineStatus(): OfflineStatus {
+	const { offline } = useFluidRuntime();
+	const read = React.useCallback(
+		() => ({
+			connected: offline.isConnected(),
+			pending: offline.pendingCount(),
+			unqueued: offline.unqueuedCount(),
+		}),
+		[offline]
+	);
+	const [status, setStatus] = React.useState(read);
+
+	React.useEffect(() => {
+		const update = () => setStatus(read());
+		update();
+		return offline.events.on("changed", update);
+	}, [offline, read]);
+
+	return status;
+}
@@ -18,6 +18,8 @@ export function useSharedTreeState<TNode extends TreeNode, T>(
 	const [snapshot, setSnapshot] = React.useState<T>(() => compute());
 
 	React.useEffect(() => {
+		// Catch up when the node or selector changes, not only on the next tree event.
+		setSnapshot(compute());
 		const offTree = TreeBeta.on(node, event, () => setSnapshot(compute()));
 		return () => {
 			offTree();
@@ -0,0 +1,53 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { ActiveTimer, useTimers } from "../../infra/presenceClient.js";
+import { logTime } from "../../infra/sharedTreeClient.js";
+
+/**
+ * This client's time-tracking timer. Only one runs at a time: starting it on another item stops
+ * the running one first. Stopping logs the elapsed time, rounded to the minute and at least one
+ * minute, to the item the timer ran against.
+ */
+export function useTimer(): {
+	timers: ActiveTimer[];
+	running: ActiveTimer | undefined;
+	start: (itemId: string) => void;
+	stop: (note?: string) => void;
+} {
+	const { tree, presence, me } = useFluidRuntime();
+	const timers = useTimers(presence.timer);
+
+	const stop = React.useCallback(
+		(note?: string) => {
+			const running = presence.timer.stopTimer();
+			if (!running) return;
+			const minutes = Math.max(1, Math.round((Date.now() - running.startedAt) / 60_000));
+			logTime(tree, running.itemId, { userId: me.id, userName: me.name, minutes, note });
+		},
+		[tree, presence.timer, me]
+	);
+
+	const start = React.useCallback(
+		(itemId: string) => {
+			stop();
+			presence.timer.startTimer(itemId);
+		},
+		[stop, presence.timer]
+	);
+
+	return { timers, running: timers.find((timer) => timer.local), start, stop };
+}
+
+/** The current time, refreshed every second while `active`. */
+export function useNow(active: boolean): number {
+	const [now, setNow] = React.useState(Date.now);
+
+	React.useEffect(() => {
+		if (!active) return;
+		setNow(Date.now());
+		const interval = window.setInterval(() => setNow(Date.now()), 1000);
+		return () => window.clearInterval(interval);
+	}, [active]);
+
+	return now;
+}
@@ -0,0 +1,24 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { purgeExpiredItems } from "../../infra/sharedTreeClient.js";
+import { runUntracked } from "../../infra/undoRedo.js";
+
+const purgeIntervalMs = 60 * 60 * 1000;
+
+/**
+ * Purges items whose trash retention period has run out, on mount and then hourly. Every open
+ * client does this, so the document is cleaned up as long as anyone has it open. The purge is
+ * kept out of the undo history: the user did not make it and must not undo it by accident.
+ */
+export function useTrashPurge(): void {
+	const { tree } = useFluidRuntime();
+
+	React.useEffect(() => {
+		const purge = () => {
+			runUntracked(tree, () => purgeExpiredItems(tree));
+		};
+		purge();
+		const timer = window.setInterval(purge, purgeIntervalMs);
+		return () => window.clearInterval(timer);
+	}, [tree]);
+}
@@ -0,0 +1,52 @@
+import React from "react";
+import { TreeBeta } from "@fluidframework/tree/alpha";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+import { getBlockedItemIds, getNewlyUnblockedItems } from "../../infra/sharedTreeClient.js";
+
+export type UnblockNotice = { itemId: string; text: string };
+
+const noticeDurationMs = 8000;
+
+/**
+ * Notices for items that became ready to start because their last open dependency was completed,
+ * by anyone. Each notice disappears after a few seconds or when dismissed.
+ */
+export function useUnblockNotifications(): {
+	notices: readonly UnblockNotice[];
+	dismiss: (itemId: string) => void;
+} {
+	const { tree } = useFluidRuntime();
+	const [notices, setNotices] = React.useState<UnblockNotice[]>([]);
+
+	const dismiss = React.useCallback((itemId: string) => {
+		setNotices((current) => current.filter((notice) => notice.itemId !== itemId));
+	}, []);
+
+	React.useEffect(() => {
+		const root = tree.root;
+		let blocked = getBlockedItemIds(root);
+		const timers = new Set<number>();
+		const off = TreeBeta.on(root, "treeChanged", () => {
+			const unblocked = getNewlyUnblockedItems(root, blocked);
+			blocked = getBlockedItemIds(root);
+			if (unblocked.length === 0) return;
+			setNotices((current) => [
+				...current.filter((notice) => !unblocked.some((item) => item.id === notice.itemId)),
+				...unblocked.map((item) => ({ itemId: item.id, text: item.text })),
+			]);
+			for (const item of unblocked) {
+				const timer = window.setTimeout(() => {
+					timers.delete(timer);
+					dismiss(item.id);
+				}, noticeDurationMs);
+				timers.add(timer);
+			}
+		});
+		return () => {
+			off();
+			timers.forEach((timer) => window.clearTimeout(timer));
+		};
+	}, [tree, dismiss]);
+
+	return { notices, dismiss };
+}
@@ -0,0 +1,55 @@
+import React from "react";
+import { useFluidRuntime } from "../contexts/FluidContext.js";
+
+export type UndoRedoState = {
+	canUndo: boolean;
+	canRedo: boolean;
+	undo: () => void;
+	redo: () => void;
+};
+
+/**
+ * Tracks the runtime's undo/redo stacks and binds Ctrl/Cmd+Z (undo) and Ctrl/Cmd+Shift+Z or
+ * Ctrl+Y (redo). Text fields keep their native undo; the shortcut only applies elsewhere.
+ */
+export function useUndoRedo(): UndoRedoState {
+	const { undoRedo } = useFluidRuntime();
+	const read = React.useCallback(
+		() => ({ canUndo: undoRedo.canUndo(), canRedo: undoRedo.canRedo() }),
+		[undoRedo]
+	);
+	const [state, setState] = React.useState(read);
+
+	React.useEffect(() => {
+		const update = () => setState(read());
+		update();
+		return undoRedo.events.on("stackChanged", update);
+	}, [undoRedo, read]);
+
+	React.useEffect(() => {
+		const onKeyDown = (e: KeyboardEvent) => {
+			if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) {
+				return;
+			}
+			const key = e.key.toLowerCase();
+			if (key === "z" && !e.shiftKey) {
+				e.preventDefault();
+				undoRedo.undo();
+			} else if ((key === "z" && e.shiftKey) || key === "y") {
+				e.preventDefault();
+				undoRedo.redo();
+			}
+		};
+		window.addEventListener("keydown", onKeyDown);
+		return () => window.removeEventListener("keydown", onKeyDown);
+	}, [undoRedo]);
+
+	return { ...state, undo: undoRedo.undo, redo: undoRedo.redo };
+}
+
+function isTextInput(target: EventTarget | null): boolean {
+	if (!(target instanceof HTMLElement)) {
+		return false;
+	}
+	return target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA";
+}
@@ -1,30 +1,377 @@
 import { SchemaFactoryAlpha } from "@fluidframework/tree/alpha";
-import { TreeViewConfiguration, TreeView } from "@fluidframework/tree";
+import { TreeViewConfiguration, TreeView, ValidateRecursiveSchema } from "@fluidframework/tree";
 
 const sf = new SchemaFactoryAlpha("8e2f6e9a-2d5a-4c43-8b11-7cf5f5c60f4f");
 
-export class Item extends sf.object("Item", {
-	id: sf.string,
-	text: sf.string,
-	done: sf.required(sf.boolean, { metadata: { description: "Whether the item is complete" } }),
-	author: sf.optional(sf.string),
-	updatedAt: sf.optional(sf.number),
-}) {}
+/**
+ * Version of the document schema defined in this file. Bump it whenever the stored schema changes.
+ *
+ * Evolution rules, so documents and clients from neighbouring versions keep working together:
+ * - New object fields are always optional. Documents written by older versions stay valid and
+ *   report `canUpgrade`; the user is prompted before their stored schema is widened.
+ * - Object nodes allow unknown optional fields, so this version can still view (and edit) a
+ *   document that a newer version has upgraded with optional fields we do not know about.
+ * - New node types added to an existing field go through `sf.staged` for at least one release,
+ *   so they are readable before any client starts writing them.
+ * - Anything else (required fields, removals, renames) is a breaking change: older clients fall
+ *   back to a read-only view.
+ *
+ * History:
+ * 1. `AppModel { title, items: Item[] }` with flat `Item { id, text, done, author, updatedAt }`.
+ * 2. `Item.children` for nested subtasks.
+ * 3. `AppModel.lists` of named `Checklist`s; the legacy `title`/`items` are migrated into it.
+ * 4. `Item.dueDate`, `Item.priority` and `Item.assigneeId`.
+ * 5. `AppModel.workflow` of ordered `WorkflowStatus`es and `Item.statusId`; `done` becomes a
+ *    mirror of the status's `countsAsComplete` so older clients keep seeing completion.
+ * 6. `Item.deletedAt`/`Item.deletedBy` for the trash and `AppModel.trashRetentionDays`.
+ * 7. `Item.comments`: threads of `Comment`s with nested replies.
+ * 8. `Item.attachments`: files uploaded to the container's blob storage.
+ * 9. `Item.blockedBy`: ids of the items that must be complete before an item can start.
+ * 10. `Item.recurrence`: a `Recurrence` rule that spawns the next occurrence on completion.
+ * 11. `AppModel.tags`, a catalog of `Tag`s, and `Item.tagIds` referencing it.
+ * 12. `Item.votes` and `Item.reactions`, keyed by presence user id.
+ * 13. `Item.estimateMinutes` and `Item.timeEntries` for time tracking.
+ * 14. `AppModel.activity`, an append-only log of `ActivityEntry`s.
+ */
+export const starterSchemaVersion = 14;
 
-export class Items extends sf.array("Items", Item) {}
+const objectOptions = { allowUnknownOptionalFields: true } as const;
 
-export class AppModel extends sf.object("AppModel", {
-	title: sf.string,
-	items: Items,
-}) {}
+export const priorities = ["low", "medium", "high", "urgent"] as const;
+
+export type Priority = (typeof priorities)[number];
+
+export class Comment extends sf.objectRecursive(
+	"Comment",
+	{
+		id: sf.string,
+		authorId: sf.required(sf.string, {
+			metadata: { description: "Presence user id of the comment's author" },
+		}),
+		authorName: sf.optional(sf.string, {
+			metadata: { description: "Display name of the author when the comment was written" },
+		}),
+		body: sf.string,
+		createdAt: sf.number,
+		editedAt: sf.optional(sf.number),
+		resolved: sf.required(sf.boolean, {
+			metadata: {
+				description: "Whether the thread is resolved; only used on top-level comments",
+			},
+		}),
+		// Required (unlike `Item.children`) so two clients replying first at the same time
+		// append to one array instead of each creating one and the later replacing the other.
+		replies: sf.requiredRecursive([() => Comments], {
+			metadata: { description: "Replies to the comment, oldest first" },
+		}),
+	},
+	objectOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof Comment>;
+}
+
+export class Comments extends sf.arrayRecursive("Comments", [() => Comment]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof Comments>;
+}
+
+export class Attachment extends sf.object(
+	"Attachment",
+	{
+		id: sf.string,
+		name: sf.required(sf.string, { metadata: { description: "Original file name" } }),
+		mimeType: sf.required(sf.string, {
+			metadata: { description: "MIME type reported by the browser; may be empty" },
+		}),
+		size: sf.required(sf.number, { metadata: { description: "File size in bytes" } }),
+		blob: sf.required(sf.handle, {
+			metadata: { description: "Handle to the file's contents in container blob storage" },
+		}),
+		uploadedBy: sf.optional(sf.string),
+		uploadedAt: sf.number,
+	},
+	objectOptions
+) {}
+
+export class Attachments extends sf.array("Attachments", Attachment) {}
+
+export class TimeEntry extends sf.object(
+	"TimeEntry",
+	{
+		id: sf.string,
+		userId: sf.required(sf.string, {
+			metadata: { description: "Presence user id of the collaborator who did the work" },
+		}),
+		userName: sf.optional(sf.string, {
+			metadata: { description: "Display name of the collaborator when the time was logged" },
+		}),
+		minutes: sf.required(sf.number, { metadata: { description: "Time spent, in minutes" } }),
+		note: sf.optional(sf.string),
+		loggedAt: sf.number,
+	},
+	objectOptions
+) {}
+
+export class TimeEntries extends sf.array("TimeEntries", TimeEntry) {}
+
+export const recurrenceFrequencies = ["daily", "weekly", "monthly", "interval"] as const;
+
+export type RecurrenceFrequency = (typeof recurrenceFrequencies)[number];
+
+export class Weekdays extends sf.array("Weekdays", sf.number) {}
+
+/**
+ * How a recurring item repeats. Rules are replaced as a whole rather than edited in place: the
+ * node's identity is what lets exactly one client spawn the next occurrence (see `toggleItem`).
+ */
+export class Recurrence extends sf.object(
+	"Recurrence",
+	{
+		frequency: sf.required(sf.string, {
+			metadata: {
+				description: `How often the item repeats; one of ${recurrenceFrequencies.join(", ")}`,
+			},
+		}),
+		weekdays: sf.optional(Weekdays, {
+			metadata: { description: "Days of the week a weekly item repeats on, 0 for Sunday" },
+		}),
+		intervalDays: sf.optional(sf.number, {
+			metadata: { description: "Days between occurrences of an interval rule" },
+		}),
+	},
+	objectOptions
+) {}
+
+export class Tag extends sf.object(
+	"Tag",
+	{
+		id: sf.string,
+		name: sf.string,
+		color: sf.required(sf.string, {
+			metadata: { description: "CSS color used for the tag's chips" },
+		}),
+	},
+	objectOptions
+) {}
+
+export class Tags extends sf.array("Tags", Tag) {}
+
+/** Ids of tags in the document's catalog. Ids of deleted tags are ignored when read. */
+export class TagIds extends sf.array("TagIds", sf.string) {}
+
+/** Emoji offered for reactions. Stored reactions may include others from newer versions. */
+export const reactionEmojis = ["👍", "🎉", "❤️", "😄", "🤔", "👀"] as const;
+
+/** When each user up-voted the item, keyed by presence user id; one vote per user. */
+export class Votes extends sf.map("Votes", sf.number) {}
+
+/** When the user added each of their reactions, keyed by emoji. */
+export class UserReactions extends sf.map("UserReactions", sf.number) {}
+
+/** Each user's reactions to the item, keyed by presence user id. */
+export class Reactions extends sf.map("Reactions", UserReactions) {}
+
+/** Ids of other items, possibly in other lists. Ids of purged items are ignored when read. */
+export class ItemIds extends sf.array("ItemIds", sf.string) {}
+
+export class Item extends sf.objectRecursive(
+	"Item",
+	{
+		id: sf.string,
+		text: sf.string,
+		done: sf.required(sf.boolean, {
+			metadata: {
+				description: "Whether the item is complete; mirrors its status's countsAsComplete",
+			},
+		}),
+		statusId: sf.optional(sf.string, {
+			metadata: { description: "Id of the item's status in the document workflow" },
+		}),
+		author: sf.optional(sf.string),
+		updatedAt: sf.optional(sf.number),
+		children: sf.optionalRecursive([() => Items], {
+			metadata: { description: "Nested subtasks; absent on items that never had any" },
+		}),
+		dueDate: sf.optional(sf.string, {
+			metadata: { description: "Calendar day the item is due, as a local YYYY-MM-DD date" },
+		}),
+		priority: sf.optional(sf.string, {
+			metadata: { description: `Item priority; one of ${priorities.join(", ")}` },
+		}),
+		assigneeId: sf.optional(sf.string, {
+			metadata: { description: "Presence user id of the collaborator who owns the item" },
+		}),
+		deletedAt: sf.optional(sf.number, {
+			metadata: { description: "When the item was moved to the trash; absent while live" },
+		}),
+		deletedBy: sf.optional(sf.string, {
+			metadata: { description: "Name of the collaborator who moved the item to the trash" },
+		}),
+		comments: sf.optional(Comments, {
+			metadata: { description: "Discussion threads about the item, oldest first" },
+		}),
+		attachments: sf.optional(Attachments, {
+			metadata: { description: "Files attached to the item, in upload order" },
+		}),
+		blockedBy: sf.optional(ItemIds, {
+			metadata: { description: "Ids of the items that must be complete before this one" },
+		}),
+		recurrence: sf.optional(Recurrence, {
+			metadata: { description: "Rule for the occurrence spawned when this one is completed" },
+		}),
+		tagIds: sf.optional(TagIds, {
+			metadata: { description: "Ids of the item's tags in the document's tag catalog" },
+		}),
+		votes: sf.optional(Votes, {
+			metadata: { description: "Up-votes for the item, keyed by presence user id" },
+		}),
+		reactions: sf.optional(Reactions, {
+			metadata: { description: "Emoji reactions to the item, keyed by presence user id" },
+		}),
+		estimateMinutes: sf.optional(sf.number, {
+			metadata: { description: "Expected effort for the item, in minutes" },
+		}),
+		timeEntries: sf.optional(TimeEntries, {
+			metadata: { description: "Time logged against the item, oldest first" },
+		}),
+	},
+	objectOptions
+) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof Item>;
+}
+
+export class Items extends sf.arrayRecursive("Items", [() => Item]) {}
+{
+	// eslint-disable-next-line @typescript-eslint/no-unused-vars
+	type _check = ValidateRecursiveSchema<typeof Items>;
+}
+
+export class WorkflowStatus extends sf.object(
+	"WorkflowStatus",
+	{
+		id: sf.string,
+		name: sf.string,
+		color: sf.required(sf.string, {
+			metadata: { description: "CSS color used for the status badge and board column" },
+		}),
+		countsAsComplete: sf.required(sf.boolean, {
+			metadata: { description: "Whether items in this status count towards progress" },
+		}),
+	},
+	objectOptions
+) {}
+
+export class Workflow extends sf.array("Workflow", WorkflowStatus) {}
+
+export class Checklist extends sf.object(
+	"Checklist",
+	{
+		id: sf.string,
+		title: sf.string,
+		items: Items,
+	},
+	objectOptions
+) {}
+
+export class Checklists extends sf.array("Checklists", Checklist) {}
+
+export const defaultTrashRetentionDays = 30;
+
+export class ActivityEntry extends sf.object(
+	"ActivityEntry",
+	{
+		id: sf.string,
+		at: sf.number,
+		actor: sf.optional(sf.string, {
+			metadata: { description: "Name of the collaborator who made the edit" },
+		}),
+		operation: sf.required(sf.string, {
+			metadata: { description: "The edit that was made, e.g. editItemText" },
+		}),
+		itemId: sf.optional(sf.string, {
+			metadata: { description: "Id of the item the edit applied to, if any" },
+		}),
+		subject: sf.optional(sf.string, {
+			metadata: {
+				description: "Text of the item, or name of the list, status or tag, at the time",
+			},
+		}),
+		before: sf.optional(sf.string),
+		after: sf.optional(sf.string),
+	},
+	objectOptions
+) {}
+
+export class ActivityLog extends sf.array("ActivityLog", ActivityEntry) {}
+
+export class AppModel extends sf.object(
+	"AppModel",
+	{
+		title: sf.required(sf.string, {
+			metadata: { description: "Legacy single-list title; superseded by `lists`" },
+		}),
+		items: sf.required(Items, {
+			metadata: { description: "Legacy single-list items; moved into `lists` on upgrade" },
+		}),
+		lists: sf.optional(Checklists, {
+			metadata: { description: "Named checklists, in sidebar order" },
+		}),
+		workflow: sf.optional(Workflow, {
+			metadata: { description: "Statuses items move through, in board column order" },
+		}),
+		tags: sf.optional(Tags, {
+			metadata: { description: "Tags items can be labelled with, in display order" },
+		}),
+		activity: sf.optional(ActivityLog, {
+			metadata: { description: "Recent edits to the document, oldest first" },
+		}),
+		trashRetentionDays: sf.optional(sf.number, {
+			metadata: {
+				description: `Days trashed items are kept before being purged; defaults to ${defaultTrashRetentionDays}`,
+			},
+		}),
+	},
+	objectOptions
+) {}
 
 export const starterTreeConfiguration = new TreeViewConfiguration({ schema: AppModel });
 
 export type StarterTreeView = TreeView<typeof AppModel>;
 
+export const defaultListTitle = "Fluid Starter";
+
+/**
+ * The workflow every document starts with, and the one older documents are migrated to. Its ids
+ * are fixed so that clients migrating the same document concurrently write identical statuses.
+ */
+export function getDefaultWorkflow(): Workflow {
+	return new Workflow([
+		{ id: "todo", name: "To do", color: "#94a3b8", countsAsComplete: false },
+		{ id: "in-progress", name: "In progress", color: "#38bdf8", countsAsComplete: false },
+		{ id: "blocked", name: "Blocked", color: "#f43f5e", countsAsComplete: false },
+		{ id: "in-review", name: "In review", color: "#f59e0b", countsAsComplete: false },
+		{ id: "done", name: "Done", color: "#34d399", countsAsComplete: true },
+	]);
+}
+
 export function getDefaultStarterContent(): AppModel {
 	return new AppModel({
-		title: "Fluid Starter",
+		title: defaultListTitle,
 		items: new Items([]),
+		lists: new Checklists([
+			new Checklist({
+				id: crypto.randomUUID(),
+				title: defaultListTitle,
+				items: new Items([]),
+			}),
+		]),
+		workflow: getDefaultWorkflow(),
+		tags: new Tags([]),
+		activity: new ActivityLog([]),
 	});
 }
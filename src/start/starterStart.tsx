@@ -6,13 +6,101 @@ import { getClientProps } from "../infra/azure/azureClientProps.js";
 import { loadStarterContainer } from "../infra/sharedTreeClient.js";
 import { createPresenceClients, PresenceUser } from "../infra/presenceClient.js";
 import { createLlmClient } from "../infra/llmClient.js";
+import { createUndoRedo } from "../infra/undoRedo.js";
+import { createCommentReads } from "../infra/commentReads.js";
+import { createChangeFeed } from "../infra/changeFeed.js";
+import { createOfflineStore, OfflineRecord, OfflineStore } from "../infra/offlineStore.js";
+import { createOfflineSync, openOfflineCopy } from "../infra/offlineSync.js";
+import { OfflineOp, replayOfflineOps } from "../infra/offlineQueue.js";
+import { createTemplateLibrary, getTemplateContent } from "../infra/templates.js";
 import { FluidProvider } from "../react/contexts/FluidContext.js";
 import { StarterApp } from "../App.js";
+import { SchemaGate } from "../react/components/SchemaGate.js";
+import { OfflineDocument } from "../react/components/OfflineDocument.js";
 import { adjectives, animals, colors, uniqueNamesGenerator } from "unique-names-generator";
 
+const userStorageKey = "starter:user";
+
+/**
+ * A random identity that survives reloads of the same tab, so authorship, assignments and read
+ * state stay attached to the same user. Other tabs get their own identity, which keeps the
+ * "open a second tab" collaboration demo working.
+ */
 function makeUser(): PresenceUser {
+	const stored = window.sessionStorage.getItem(userStorageKey);
+	if (stored) {
+		try {
+			const user = JSON.parse(stored) as Partial<PresenceUser>;
+			if (typeof user.id === "string" && typeof user.name === "string") {
+				return { id: user.id, name: user.name };
+			}
+		} catch {
+			// Fall through and replace the malformed entry.
+		}
+	}
 	const name = uniqueNamesGenerator({ dictionaries: [adjectives, colors, animals], length: 2 });
-	return { id: crypto.randomUUID(), name };
+	const user = { id: crypto.randomUUID(), name };
+	window.sessionStorage.setItem(userStorageKey, JSON.stringify(user));
+	return user;
+}
+
+const maxRetryDelayMs = 30_000;
+
+async function loadOfflineRecord(
+	store: OfflineStore,
+	containerId: string
+): Promise<OfflineRecord | undefined> {
+	try {
+		return containerId ? await store.load(containerId) : undefined;
+	} catch (error) {
+		console.error("Could not read the offline copy", error);
+		return undefined;
+	}
+}
+
+/** Driver error types for a service that could not be reached, as opposed to one that refused. */
+const connectionErrorTypes = new Set([
+	"genericNetworkError",
+	"offlineError",
+	"fetchFailure",
+	"throttlingError",
+]);
+
+/** Whether loading failed because the service could not be reached, so trying later may work. */
+function isConnectionError(error: unknown): boolean {
+	if (!window.navigator.onLine || error instanceof TypeError) {
+		// `fetch` rejects with a TypeError when a request gets no response at all.
+		return true;
+	}
+	const { errorType } = (error ?? {}) as { errorType?: unknown };
+	return typeof errorType === "string" && connectionErrorTypes.has(errorType);
+}
+
+/**
+ * Keeps trying `load` with growing pauses while the service cannot be reached, cut short when
+ * the browser reports it is back online. Any other failure, and without `retry` the first
+ * failure, is thrown as before.
+ */
+async function loadWhenReachable<T>(load: () => Promise<T>, retry: boolean): Promise<T> {
+	for (let delayMs = 1000; ; delayMs = Math.min(delayMs * 2, maxRetryDelayMs)) {
+		try {
+			return await load();
+		} catch (error) {
+			if (!retry || !isConnectionError(error)) {
+				throw error;
+			}
+			console.warn(`Could not load the document, retrying in ${delayMs / 1000}s`, error);
+			await new Promise<void>((resolve) => {
+				const done = () => {
+					window.clearTimeout(timer);
+					window.removeEventListener("online", done);
+					resolve();
+				};
+				const timer = window.setTimeout(done, delayMs);
+				window.addEventListener("online", done);
+			});
+		}
+	}
 }
 
 export async function startStarter() {
@@ -26,22 +114,89 @@ export async function startStarter() {
 	let containerId = params.get("id") ?? "";
 
 	const me = makeUser();
-	const { container, tree } = await loadStarterContainer({ client, containerId });
+	const templates = createTemplateLibrary();
+	// `?template=<id>` creates a new document pre-filled from a saved template.
+	const template = containerId ? undefined : templates.get(params.get("template") ?? "");
+
+	// Show the copy this browser kept of the document right away, and keep it editable for as
+	// long as the service cannot be reached.
+	const store = createOfflineStore();
+	const record = await loadOfflineRecord(store, containerId);
+	const copy = record && openOfflineCopy(record, store);
+	const root = createRoot(host);
+	if (copy) {
+		window.addEventListener("pagehide", copy.flush);
+		root.render(<OfflineDocument copy={copy} me={me} />);
+	}
+
+	const { container, tree } = await loadWhenReachable(
+		() =>
+			loadStarterContainer({
+				client,
+				containerId,
+				initialContent: template && (() => getTemplateContent(template, me.name)),
+			}),
+		copy !== undefined
+	).catch((error: unknown) => {
+		if (copy) {
+			const message = error instanceof Error ? error.message : String(error);
+			root.render(<OfflineDocument copy={copy} me={me} error={message} />);
+		}
+		throw error;
+	});
+	// Only what replay applied is still owed to the service; the rest is stale or already there.
+	let replayed: readonly OfflineOp[] = [];
+	if (copy) {
+		const pending = copy.pending();
+		window.removeEventListener("pagehide", copy.flush);
+		copy.dispose();
+		if (tree.compatibility.canView) {
+			replayed = replayOfflineOps(tree, pending, me.name);
+		}
+	}
 	const presence = createPresenceClients(container, me);
 	const llm = createLlmClient();
+	const undoRedo = createUndoRedo(tree, me.name);
+	const commentReads = createCommentReads(me.id);
+	const changes = createChangeFeed(tree);
 
 	if (container.attachState === AttachState.Detached) {
 		containerId = await container.attach();
 		const next = new URL(window.location.href);
 		next.searchParams.set("id", containerId);
+		next.searchParams.delete("template");
 		window.history.replaceState({}, "", next.toString());
 	}
 
-	const root = createRoot(host);
+	const offline = createOfflineSync({
+		container,
+		containerId,
+		tree,
+		changes,
+		store,
+		pending: replayed,
+	});
+	window.addEventListener("pagehide", offline.flush);
+
 	root.render(
 		<React.StrictMode>
-			<FluidProvider value={{ container, tree, presence, llm, me }}>
-				<StarterApp />
+			<FluidProvider
+				value={{
+					container,
+					tree,
+					presence,
+					llm,
+					undoRedo,
+					commentReads,
+					templates,
+					changes,
+					offline,
+					me,
+				}}
+			>
+				<SchemaGate>
+					<StarterApp />
+				</SchemaGate>
 			</FluidProvider>
 		</React.StrictMode>
 	);
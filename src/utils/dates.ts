@@ -0,0 +1,46 @@
+/**
+ * Calendar-date helpers. Due dates are stored as local `YYYY-MM-DD` strings so they mean the
+ * same day for every collaborator regardless of time zone, and compare correctly as strings.
+ */
+
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isIsoDate(value: string): boolean {
+	return isoDatePattern.test(value) && !Number.isNaN(parseIsoDate(value).getTime());
+}
+
+export function toIsoDate(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function todayIsoDate(): string {
+	return toIsoDate(new Date());
+}
+
+/** Parses a `YYYY-MM-DD` string as local midnight. */
+export function parseIsoDate(value: string): Date {
+	const [year, month, day] = value.split("-").map(Number);
+	return new Date(year, month - 1, day);
+}
+
+export function addDays(value: string, days: number): string {
+	const date = parseIsoDate(value);
+	date.setDate(date.getDate() + days);
+	return toIsoDate(date);
+}
+
+/** Same day of the month `months` later, clamped to the end of shorter months. */
+export function addMonths(value: string, months: number): string {
+	const date = parseIsoDate(value);
+	const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+	const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+	target.setDate(Math.min(date.getDate(), lastDay));
+	return toIsoDate(target);
+}
+
+/** Day of the week of a `YYYY-MM-DD` date, 0 for Sunday. */
+export function weekdayOf(value: string): number {
+	return parseIsoDate(value).getDay();
+}
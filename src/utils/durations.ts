@@ -0,0 +1,37 @@
+/**
+ * Duration helpers for estimates and logged time, which are stored as minutes.
+ */
+
+const durationPattern = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m?)?$/i;
+
+/**
+ * Parses what a user types for a duration: `90`, `45m`, `2h`, `1.5h` or `1h 30m`.
+ * @returns The duration in whole minutes, or undefined if the text is not a duration.
+ */
+export function parseDuration(text: string): number | undefined {
+	const match = durationPattern.exec(text.trim());
+	if (!match || (match[1] === undefined && match[2] === undefined)) {
+		return undefined;
+	}
+	return Math.round(Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0));
+}
+
+/** Formats minutes as `1h 30m`, `2h` or `45m`. */
+export function formatMinutes(minutes: number): string {
+	const rounded = Math.round(minutes);
+	const hours = Math.floor(rounded / 60);
+	const rest = rounded % 60;
+	if (hours === 0) {
+		return `${rest}m`;
+	}
+	return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/** Formats a running timer's elapsed milliseconds as `m:ss` or `h:mm:ss`. */
+export function formatElapsed(ms: number): string {
+	const seconds = Math.max(0, Math.floor(ms / 1000));
+	const hours = Math.floor(seconds / 3600);
+	const mm = String(Math.floor((seconds % 3600) / 60));
+	const ss = String(seconds % 60).padStart(2, "0");
+	return hours > 0 ? `${hours}:${mm.padStart(2, "0")}:${ss}` : `${mm}:${ss}`;
+}
@@ -0,0 +1,44 @@
+import type { Listenable, Listeners, Off } from "fluid-framework";
+
+/**
+ * Minimal typed event emitter that satisfies Fluid's `Listenable` contract, so app-level
+ * services can expose `events.on(...)` the same way the tree and presence objects do.
+ */
+export type Emitter<TListeners extends object> = Listenable<TListeners> & {
+	emit<K extends keyof Listeners<TListeners>>(
+		eventName: K,
+		...args: Parameters<Extract<TListeners[K], (...args: never[]) => unknown>>
+	): void;
+};
+
+export function createEmitter<TListeners extends object>(): Emitter<TListeners> {
+	const listeners = new Map<
+		keyof Listeners<TListeners>,
+		Set<TListeners[keyof Listeners<TListeners>]>
+	>();
+
+	const off = <K extends keyof Listeners<TListeners>>(
+		eventName: K,
+		listener: TListeners[K]
+	): void => {
+		listeners.get(eventName)?.delete(listener);
+	};
+
+	return {
+		on<K extends keyof Listeners<TListeners>>(eventName: K, listener: TListeners[K]): Off {
+			let set = listeners.get(eventName);
+			if (!set) {
+				set = new Set();
+				listeners.set(eventName, set);
+			}
+			set.add(listener);
+			return () => off(eventName, listener);
+		},
+		off,
+		emit(eventName, ...args) {
+			for (const listener of [...(listeners.get(eventName) ?? [])]) {
+				(listener as (...args: unknown[]) => void)(...args);
+			}
+		},
+	};
+}
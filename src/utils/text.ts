@@ -0,0 +1,47 @@
+/**
+ * Text comparison helpers for searching and de-duplicating items.
+ */
+
+const combiningMarks = /\p{M}/gu;
+
+/** Lower-cases the character and strips its accents, so `É` and `e` compare equal. */
+function foldCharacter(character: string): string {
+	return character.normalize("NFD").replace(combiningMarks, "").toLocaleLowerCase();
+}
+
+/**
+ * Case- and diacritic-folds `text` for matching. `offsets[i]` is the index in `text` of the
+ * character that produced `folded[i]`, so matches in the folded text can be highlighted in the
+ * original.
+ */
+export function foldText(text: string): { folded: string; offsets: number[] } {
+	let folded = "";
+	const offsets: number[] = [];
+	let index = 0;
+	for (const character of text) {
+		const result = foldCharacter(character);
+		folded += result;
+		for (let i = 0; i < result.length; i++) {
+			offsets.push(index);
+		}
+		index += character.length;
+	}
+	return { folded, offsets };
+}
+
+/** Levenshtein distance between two strings. */
+export function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
@@ -3,11 +3,55 @@
  * Licensed under the MIT License.
  */
 
-import { test } from "@playwright/test";
+import { test, expect, Page } from "@playwright/test";
 
-// Comments and voting tests temporarily removed - require advanced features not yet implemented
-// To be re-enabled when comments pane, voting system, and comment threading are fully implemented
+async function addItem(page: Page, text: string) {
+	await page.getByPlaceholder("Add a shared item").fill(text);
+	await page.getByRole("button", { name: "Add", exact: true }).last().click();
+	await expect(page.getByText(text, { exact: true })).toBeVisible();
+}
 
-test.describe("Comments and Voting", () => {
-	// Tests will be added back when comments and voting features are implemented
+test.describe("Comments", () => {
+	test.beforeEach(async ({ page }) => {
+		await page.goto("/", { waitUntil: "domcontentloaded" });
+		await expect(page.getByPlaceholder("Add a shared item")).toBeVisible({ timeout: 15000 });
+	});
+
+	test("starts a thread, replies and resolves it", async ({ page }) => {
+		await addItem(page, "Ship release");
+		await page.getByRole("button", { name: "Comments" }).first().click();
+
+		const panel = page.getByRole("complementary", { name: "Comments" });
+		await panel.getByLabel("New comment").fill("Who is tagging the build?");
+		await panel.getByRole("button", { name: "Comment" }).click();
+		await expect(panel.getByText("Who is tagging the build?")).toBeVisible();
+
+		await panel.getByRole("button", { name: "Reply" }).click();
+		await panel.getByLabel("Reply").fill("I will");
+		await panel.getByLabel("Reply").press("Enter");
+		await expect(panel.getByText("I will")).toBeVisible();
+
+		await panel.getByRole("button", { name: "Resolve" }).click();
+		await expect(panel.getByText("No open threads on this item.")).toBeVisible();
+		await panel.getByRole("button", { name: "Show 1 resolved" }).click();
+		await expect(panel.getByRole("button", { name: "Reopen" })).toBeVisible();
+	});
+
+	test("shows unread comments from another client", async ({ page, context }) => {
+		await addItem(page, "Review copy");
+		const other = await context.newPage();
+		await other.goto(page.url(), { waitUntil: "domcontentloaded" });
+		await expect(other.getByText("Review copy", { exact: true })).toBeVisible({
+			timeout: 15000,
+		});
+
+		await other.getByRole("button", { name: "Comments" }).first().click();
+		await other.getByLabel("New comment").fill("Looks good");
+		await other.getByRole("button", { name: "Comment" }).click();
+
+		await expect(page.getByRole("button", { name: "Comments, 1 unread" })).toBeVisible();
+		await page.getByRole("button", { name: "Comments, 1 unread" }).click();
+		await expect(page.getByText("Looks good")).toBeVisible();
+		await expect(page.getByRole("button", { name: "Comments", exact: true })).toBeVisible();
+	});
 });
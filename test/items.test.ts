@@ -0,0 +1,29 @@
+/*!
+ * Copyright (c) Microsoft Corporation and contributors. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { test, expect, Page } from "@playwright/test";
+
+async function addItem(page: Page, text: string) {
+	await page.getByPlaceholder("Add a shared item").fill(text);
+	await page.getByRole("button", { name: "Add", exact: true }).last().click();
+	await expect(page.getByText(text, { exact: true })).toBeVisible();
+}
+
+test.describe("Items", () => {
+	test.beforeEach(async ({ page }) => {
+		await page.goto("/", { waitUntil: "domcontentloaded" });
+		await expect(page.getByPlaceholder("Add a shared item")).toBeVisible({ timeout: 15000 });
+	});
+
+	test("leaves the text unchanged when an edit is cancelled with Escape", async ({ page }) => {
+		await addItem(page, "Water plants");
+		await page.getByText("Water plants", { exact: true }).dblclick();
+		await page.getByLabel("Edit item text").fill("Something else");
+		await page.getByLabel("Edit item text").press("Escape");
+		await expect(page.getByLabel("Edit item text")).toBeHidden();
+		await expect(page.getByText("Water plants", { exact: true })).toBeVisible();
+		await expect(page.getByText("Something else", { exact: true })).toBeHidden();
+	});
+});
@@ -0,0 +1,59 @@
+/*!
+ * Copyright (c) Microsoft Corporation and contributors. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { test, expect, Page } from "@playwright/test";
+
+const service = /localhost:7070/;
+
+async function addItem(page: Page, text: string) {
+	await page.getByPlaceholder("Add a shared item").fill(text);
+	await page.getByRole("button", { name: "Add", exact: true }).last().click();
+	await expect(page.getByText(text, { exact: true })).toBeVisible();
+}
+
+/**
+ * Makes the local Fluid service unreachable from the page while `down` is set, as if it had
+ * been stopped, and reachable again once it is cleared.
+ */
+async function controlService(page: Page) {
+	const state = { down: false };
+	await page.route(service, (route) => (state.down ? route.abort() : route.continue()));
+	await page.routeWebSocket(service, (ws) => {
+		if (state.down) {
+			ws.close();
+		} else {
+			ws.connectToServer();
+		}
+	});
+	return state;
+}
+
+test.describe("Offline", () => {
+	test("opens the saved copy while the service is down and syncs its edits", async ({ page }) => {
+		const relay = await controlService(page);
+		await page.goto("/", { waitUntil: "domcontentloaded" });
+		await expect(page.getByPlaceholder("Add a shared item")).toBeVisible({ timeout: 15000 });
+		await addItem(page, "Before the outage");
+		await expect(page.getByTestId("connection-status")).toHaveText("Saved", {
+			timeout: 15000,
+		});
+
+		relay.down = true;
+		await page.reload({ waitUntil: "domcontentloaded" });
+		await expect(page.getByTestId("offline-banner")).toBeVisible({ timeout: 15000 });
+		await expect(page.getByLabel("Item text")).toHaveValue("Before the outage");
+		await page.getByLabel("New item").fill("During the outage");
+		await page.getByLabel("New item").press("Enter");
+		await expect(page.getByTestId("offline-banner")).toContainText("1 change will be sent");
+
+		relay.down = false;
+		await expect(page.getByText("During the outage", { exact: true })).toBeVisible({
+			timeout: 45000,
+		});
+		await expect(page.getByTestId("connection-status")).toHaveText("Saved", {
+			timeout: 15000,
+		});
+	});
+});